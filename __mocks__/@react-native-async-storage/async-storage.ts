@@ -0,0 +1,2 @@
+// In-memory AsyncStorage for Jest; the native module doesn't exist there
+export { default } from "@react-native-async-storage/async-storage/jest/async-storage-mock";
@@ -1,27 +1,310 @@
-import React, { useState } from "react";
-import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import * as Sharing from "expo-sharing";
+import React, { useCallback, useEffect, useState } from "react";
+import { Alert, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
 import AssetFormSheet from "../components/forms/AssetFormSheet";
+import SessionLibrary from "../components/sessions/SessionLibrary";
+import { AutoSaveService } from "../services/autoSaveService";
+import {
+  InspectionSessionService,
+  InspectionSessionSummary,
+} from "../services/inspectionSessionService";
+import {
+  OfflineQueueService,
+  QueueItem,
+} from "../services/offlineQueueService";
+import {
+  ImportConflictStrategy,
+  SessionPackageService,
+  StagedPackage,
+} from "../services/sessionPackageService";
+
+type OpenSession = {
+  id: string;
+  resumeCamera: boolean;
+};
 
 export default function HomeScreen() {
-  const [formOpen, setFormOpen] = useState(true);
+  const [sessions, setSessions] = useState<InspectionSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openSession, setOpenSession] = useState<OpenSession | null>(null);
+  const [uploads, setUploads] = useState<Record<string, QueueItem>>({});
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Resume pending uploads and track the latest submission of each session
+  useEffect(() => {
+    void OfflineQueueService.start();
+    return OfflineQueueService.subscribe((items) => {
+      const latest: Record<string, QueueItem> = {};
+      items.forEach((item) => {
+        const id = item.details.sessionId;
+        if (typeof id === "string") latest[id] = item;
+      });
+      setUploads(latest);
+    });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await InspectionSessionService.listSessions());
+    } catch (error) {
+      console.error("Error loading sessions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reopen the session that was interrupted by a crash or app kill so the
+  // sheet can offer its restore prompt.
+  useEffect(() => {
+    const recover = async () => {
+      const autoSave = await AutoSaveService.getAutoSave();
+      if (!autoSave || autoSave.lots.length === 0) return;
+
+      const savedId = autoSave.formData.sessionId;
+      const existing =
+        typeof savedId === "string"
+          ? await InspectionSessionService.getSession(savedId)
+          : null;
+      if (existing && existing.updatedAt >= autoSave.savedAt) return;
+
+      const sessionId =
+        existing?.id ??
+        (
+          await InspectionSessionService.createSession("Recovered inspection", {
+            id: typeof savedId === "string" ? savedId : undefined,
+          })
+        ).id;
+      if (sessionId !== savedId) {
+        // Checkpoints from before the library existed carry no session id
+        await AutoSaveService.saveAutoSave(
+          { ...autoSave.formData, sessionId },
+          autoSave.lots,
+          autoSave.activeLotIdx,
+          autoSave.formType,
+        );
+      }
+      setOpenSession({ id: sessionId, resumeCamera: false });
+    };
+
+    recover()
+      .catch((error) => console.error("Error checking auto-save:", error))
+      .finally(() => void refresh());
+  }, [refresh]);
+
+  const handleCreate = async () => {
+    const session = await InspectionSessionService.createSession();
+    setOpenSession({ id: session.id, resumeCamera: true });
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    await InspectionSessionService.renameSession(id, name);
+    await refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await InspectionSessionService.duplicateSession(id);
+    await refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    const autoSave = await AutoSaveService.getAutoSave();
+    if (autoSave?.formData.sessionId === id) {
+      await AutoSaveService.deleteAutoSave();
+    }
+    await InspectionSessionService.deleteSession(id);
+    await refresh();
+  };
+
+  const handleExport = async (id: string) => {
+    setExportingId(id);
+    try {
+      const result = await SessionPackageService.exportSession(id);
+      if (result.missingFiles.length > 0) {
+        Alert.alert(
+          "Some Files Missing",
+          `${result.missingFiles.length} file(s) could not be found and were left out of the export.`,
+        );
+      }
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, {
+          mimeType: "application/zip",
+          UTI: "public.zip-archive",
+          dialogTitle: "Export Inspection",
+        });
+      } else {
+        Alert.alert("Export Ready", `Saved to ${result.uri}`);
+      }
+    } catch (error) {
+      console.error("Error exporting session:", error);
+      Alert.alert("Export Failed", "The inspection could not be exported.");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const finishImport = async (
+    staged: StagedPackage,
+    strategy: ImportConflictStrategy,
+  ) => {
+    setImporting(true);
+    try {
+      const result = await SessionPackageService.importStagedPackage(
+        staged,
+        staged.manifest.session.id,
+        strategy,
+      );
+      const lines = [
+        `${result.filesImported} file(s) imported into ${staged.manifest.session.name}.`,
+      ];
+      if (result.lotsMerged > 0) {
+        lines.push(`${result.lotsMerged} lot(s) merged into existing lots.`);
+      }
+      if (result.lotsRenamed > 0) {
+        lines.push(`${result.lotsRenamed} lot(s) added under a new ID.`);
+      }
+      if (result.problems.length > 0) {
+        const listed = result.problems
+          .slice(0, 5)
+          .map((p) => `• ${p.originalName} (${p.reason})`);
+        if (result.problems.length > listed.length) {
+          listed.push(`• …and ${result.problems.length - listed.length} more`);
+        }
+        lines.push(
+          `${result.problems.length} file(s) were skipped:`,
+          ...listed,
+        );
+      }
+      Alert.alert(
+        result.problems.length > 0
+          ? "Imported With Problems"
+          : "Import Complete",
+        lines.join("\n"),
+      );
+    } catch (error) {
+      console.error("Error importing session:", error);
+      Alert.alert("Import Failed", "The inspection could not be imported.");
+    } finally {
+      setImporting(false);
+      await refresh();
+    }
+  };
+
+  const handleImport = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ["application/zip", "application/octet-stream"],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || !picked.assets?.[0]) return;
+
+    let staged: StagedPackage;
+    setImporting(true);
+    try {
+      staged = await SessionPackageService.stagePackage(picked.assets[0].uri);
+    } catch (error) {
+      console.error("Error reading package:", error);
+      Alert.alert(
+        "Invalid Package",
+        error instanceof Error ? error.message : "The file could not be read.",
+      );
+      return;
+    } finally {
+      setImporting(false);
+    }
+
+    const { manifest, problems, fileCount } = staged;
+    const summary =
+      `${manifest.lots.length} lot(s), ${fileCount} file(s)` +
+      (problems.length > 0
+        ? `; ${problems.length} file(s) are missing or corrupt and will be skipped.`
+        : ".");
+    const cancel = {
+      text: "Cancel",
+      style: "cancel" as const,
+      onPress: () => SessionPackageService.discardStagedPackage(staged),
+    };
+
+    const existing = await InspectionSessionService.getSession(
+      manifest.session.id,
+    );
+    const collisions = existing
+      ? manifest.lots.filter((lot) =>
+          existing.lots.some((l) => l.id === lot.id),
+        ).length
+      : 0;
+    if (!existing || collisions === 0) {
+      Alert.alert(
+        "Import Inspection",
+        `Import "${manifest.session.name}"? ${summary}`,
+        [
+          cancel,
+          { text: "Import", onPress: () => void finishImport(staged, "merge") },
+        ],
+      );
+      return;
+    }
+
+    Alert.alert(
+      "Inspection Already Exists",
+      `"${existing.name}" already has ${collisions} of these lots. Merge new photos into the matching lots, or keep both copies? ${summary}`,
+      [
+        cancel,
+        {
+          text: "Keep Both",
+          onPress: () => void finishImport(staged, "rename"),
+        },
+        { text: "Merge", onPress: () => void finishImport(staged, "merge") },
+      ],
+    );
+  };
+
+  const handleCloseSession = () => {
+    setOpenSession(null);
+    void refresh();
+  };
 
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Camera Sample</Text>
-      <TouchableOpacity style={styles.button} onPress={() => setFormOpen(true)}>
-        <Text style={styles.buttonText}>Open Camera Check</Text>
-      </TouchableOpacity>
-
-      <AssetFormSheet visible={formOpen} onClose={() => setFormOpen(false)} />
-    </View>
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <Text style={styles.title}>Inspections</Text>
+      <View style={styles.content}>
+        <SessionLibrary
+          sessions={sessions}
+          loading={loading}
+          onCreate={handleCreate}
+          onOpen={(id) => setOpenSession({ id, resumeCamera: false })}
+          onResume={(id) => setOpenSession({ id, resumeCamera: true })}
+          onRename={handleRename}
+          onDuplicate={handleDuplicate}
+          onDelete={handleDelete}
+          onExport={handleExport}
+          onImport={handleImport}
+          exportingId={exportingId}
+          importing={importing}
+          uploads={uploads}
+          onRetryUpload={(itemId) => void OfflineQueueService.retryItem(itemId)}
+          onCancelUpload={OfflineQueueService.cancelItem}
+        />
+      </View>
+
+      {openSession && (
+        <AssetFormSheet
+          key={openSession.id}
+          visible
+          sessionId={openSession.id}
+          resumeCamera={openSession.resumeCamera}
+          onClose={handleCloseSession}
+        />
+      )}
+    </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    alignItems: "center",
-    justifyContent: "center",
     padding: 20,
     backgroundColor: "#F9FAFB",
   },
@@ -31,14 +314,7 @@ const styles = StyleSheet.create({
     color: "#111827",
     marginBottom: 16,
   },
-  button: {
-    backgroundColor: "#2563EB",
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderRadius: 10,
-  },
-  buttonText: {
-    color: "#FFFFFF",
-    fontWeight: "600",
+  content: {
+    flex: 1,
   },
 });
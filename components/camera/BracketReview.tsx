@@ -0,0 +1,187 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { BracketFrame, PhotoFile } from './types';
+
+// Which part of a bracketed series ends up in the lot
+export type BracketChoice = 'merged' | 'frames' | 'both';
+
+interface BracketReviewProps {
+  frames: BracketFrame[];
+  merged: PhotoFile | null;
+  merging: boolean;
+  onKeep: (choice: BracketChoice) => void;
+  onDiscard: () => void;
+}
+
+const formatExposure = (exposure: number) =>
+  exposure === 0 ? '0 EV' : `${exposure > 0 ? '+' : ''}${exposure} EV`;
+
+export const BracketReview: React.FC<BracketReviewProps> = ({
+  frames,
+  merged,
+  merging,
+  onKeep,
+  onDiscard,
+}) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Exposure Bracket</Text>
+        <Text style={styles.hint}>
+          {merging ? 'Merging frames…' : merged ? 'Merged preview ready' : 'Merge unavailable'}
+        </Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        <View style={[styles.frame, styles.mergedFrame]}>
+          {merged ? (
+            <Image source={{ uri: merged.uri }} style={styles.frameImage} />
+          ) : (
+            <View style={styles.mergedPlaceholder}>
+              {merging ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Feather name="alert-circle" size={18} color="#FCA5A5" />
+              )}
+            </View>
+          )}
+          <Text style={styles.frameLabel}>Merged</Text>
+        </View>
+        {frames.map((frame) => (
+          <View key={frame.uri} style={styles.frame}>
+            <Image source={{ uri: frame.uri }} style={styles.frameImage} />
+            <Text style={styles.frameLabel}>{formatExposure(frame.exposure)}</Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionBtn, styles.discardBtn]} onPress={onDiscard}>
+          <Feather name="trash-2" size={14} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionBtn} onPress={() => onKeep('frames')}>
+          <Text style={styles.actionText}>Keep Frames</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, !merged && styles.actionBtnDisabled]}
+          onPress={() => onKeep('both')}
+          disabled={!merged}>
+          <Text style={styles.actionText}>Keep Both</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, styles.keepBtn, !merged && styles.actionBtnDisabled]}
+          onPress={() => onKeep('merged')}
+          disabled={!merged}>
+          <Text style={styles.actionText}>Keep Merged</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0,0,0,0.92)',
+    paddingTop: 12,
+    paddingBottom: 24,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+  },
+  strip: {
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  frame: {
+    width: 72,
+    height: 96,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  mergedFrame: {
+    borderWidth: 2,
+    borderColor: '#FCD34D',
+  },
+  mergedPlaceholder: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  frameImage: {
+    width: '100%',
+    height: '100%',
+  },
+  frameLabel: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingVertical: 2,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    marginTop: 12,
+  },
+  actionBtn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.18)',
+  },
+  actionBtnDisabled: {
+    opacity: 0.4,
+  },
+  discardBtn: {
+    flex: 0,
+    paddingHorizontal: 14,
+    backgroundColor: 'rgba(239, 68, 68, 0.85)',
+  },
+  keepBtn: {
+    backgroundColor: '#22C55E',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
+
+export default BracketReview;
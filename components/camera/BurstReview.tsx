@@ -0,0 +1,212 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Image, ScrollView, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { PhotoFile } from './types';
+
+interface BurstReviewProps {
+  frames: PhotoFile[];
+  selected: boolean[];
+  // True while the shutter is still held and frames keep arriving
+  running: boolean;
+  maxFrames: number;
+  onToggle: (index: number) => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+export const BurstReview: React.FC<BurstReviewProps> = ({
+  frames,
+  selected,
+  running,
+  maxFrames,
+  onToggle,
+  onKeep,
+  onDiscard,
+}) => {
+  const keepCount = selected.filter(Boolean).length;
+
+  if (running) {
+    return (
+      <View style={styles.counter} pointerEvents="none">
+        <View style={styles.counterDot} />
+        <Text style={styles.counterText}>
+          BURST {frames.length}/{maxFrames}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          Burst · {frames.length} frame{frames.length !== 1 ? 's' : ''}
+        </Text>
+        <Text style={styles.hint}>Tap frames to keep or drop them</Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {frames.map((frame, index) => (
+          <TouchableOpacity
+            key={frame.uri}
+            onPress={() => onToggle(index)}
+            activeOpacity={0.8}
+            style={[styles.frame, selected[index] && styles.frameSelected]}>
+            <Image source={{ uri: frame.uri }} style={styles.frameImage} />
+            {!selected[index] && <View style={styles.frameDimmed} />}
+            <View style={[styles.check, selected[index] && styles.checkSelected]}>
+              {selected[index] && <Feather name="check" size={12} color="#fff" />}
+            </View>
+            <Text style={styles.frameIndex}>{index + 1}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionBtn, styles.discardBtn]} onPress={onDiscard}>
+          <Feather name="trash-2" size={14} color="#fff" />
+          <Text style={styles.actionText}>Discard All</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, styles.keepBtn, keepCount === 0 && styles.keepBtnDisabled]}
+          onPress={onKeep}
+          disabled={keepCount === 0}>
+          <Feather name="check" size={14} color="#fff" />
+          <Text style={styles.actionText}>Keep {keepCount}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  counter: {
+    position: 'absolute',
+    top: 100,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  counterDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#F43F5E',
+    marginRight: 8,
+  },
+  counterText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+    letterSpacing: 0.5,
+  },
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0,0,0,0.92)',
+    paddingTop: 12,
+    paddingBottom: 24,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+  },
+  strip: {
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  frame: {
+    width: 72,
+    height: 96,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  frameSelected: {
+    borderColor: '#22C55E',
+  },
+  frameImage: {
+    width: '100%',
+    height: '100%',
+  },
+  frameDimmed: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  check: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 1.5,
+    borderColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkSelected: {
+    backgroundColor: '#22C55E',
+    borderColor: '#22C55E',
+  },
+  frameIndex: {
+    position: 'absolute',
+    bottom: 4,
+    left: 6,
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingHorizontal: 16,
+    marginTop: 12,
+  },
+  actionBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  discardBtn: {
+    backgroundColor: 'rgba(239, 68, 68, 0.85)',
+  },
+  keepBtn: {
+    backgroundColor: '#22C55E',
+  },
+  keepBtnDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+});
+
+export default BurstReview;
@@ -41,51 +41,175 @@ import {
   SafeAreaView,
   useSafeAreaInsets,
 } from "react-native-safe-area-context";
-import type { CameraProps } from "react-native-vision-camera";
+import type { CameraProps, Code, CodeType } from "react-native-vision-camera";
 import {
   Camera,
   CameraDevice,
   useCameraDevice,
   useCameraDevices,
   useCameraPermission,
+  useCodeScanner,
   useMicrophonePermission,
   VideoFile as VisionVideoFile,
 } from "react-native-vision-camera";
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
+import {
+  useLot,
+  useScanHistory,
+  useSessionLots,
+} from "../../hooks/use-inspection-store";
+import { useShotListTemplates } from "../../hooks/use-shot-list-templates";
+import {
+  BRACKET_EXPOSURES,
+  ExposureMergeService,
+} from "../../services/exposureMergeService";
+import { IdentifierService } from "../../services/identifierService";
+import { InspectionStoreService } from "../../services/inspectionStoreService";
+import { LocationService } from "../../services/locationService";
+import { SessionMediaService } from "../../services/sessionMediaService";
+import { ShotListService } from "../../services/shotListService";
+import {
+  DEFAULT_BLUR_THRESHOLD,
+  SharpnessService,
+} from "../../services/sharpnessService";
+import { BracketChoice, BracketReview } from "./BracketReview";
+import { BurstReview } from "./BurstReview";
 import CaptureButtons from "./CaptureButtons";
+import {
+  CompositionOverlay,
+  CompositionOverlaySettings,
+  hasCompositionOverlay,
+  nextCompositionOverlay,
+  parseCompositionOverlay,
+} from "./CompositionOverlay";
+import { ExposureControl } from "./ExposureControl";
 import FocusBox from "./FocusBox";
 import LotNavigation from "./LotNavigation";
 import PhotoThumbnails from "./PhotoThumbnails";
 import RecordButton from "./RecordButton";
 import RecordingIndicator from "./RecordingIndicator";
+import {
+  estimateVideoBytesPerSecond,
+  MAX_DURATION_WARNING,
+  parseRecordingSettings,
+  pickRecordingFormat,
+  RecordingSettings,
+  RecordingSettingsPanel,
+} from "./RecordingSettings";
+import { ScanPanel } from "./ScanPanel";
+import { ShotListChecklist } from "./ShotListChecklist";
+import {
+  getShutterTimerLabel,
+  nextShutterTimer,
+  ShutterTimerIndicator,
+  ShutterTimerRun,
+  ShutterTimerSetting,
+} from "./ShutterTimer";
 import { DoneButton, TopControls } from "./TopControls";
-import { CaptureMode, createNewLot, MixedLot, PhotoFile } from "./types";
+import {
+  CameraFacing,
+  CaptureMode,
+  createNewLot,
+  FlashMode,
+  LOT_IDENTIFIER_FIELDS,
+  LOT_IDENTIFIER_LABELS,
+  LotIdentifierKind,
+  MODE_CONFIG,
+  PhotoFile,
+} from "./types";
 
 interface CameraScreenProps {
   visible: boolean;
   onClose: () => void;
-  lots: MixedLot[];
-  setLots: React.Dispatch<React.SetStateAction<MixedLot[]>>;
+  sessionId: string; // Session whose lots are shown; captures are written straight to its store rows
   activeLotIdx: number;
   onAutoSave?: () => void; // Callback to trigger auto-save after capture
   setActiveLotIdx: React.Dispatch<React.SetStateAction<number>>;
   enhanceImages?: boolean; // Whether to enhance images on server
   onEnhanceChange?: (enabled: boolean) => void; // Callback when enhance toggle changes
+  blurThreshold?: number; // Sharpness score below which a shot is flagged for retake
 }
 
-// Flash mode type for vision camera
-type FlashMode = "off" | "on" | "auto";
-
 type CameraPerformanceMode = "speed" | "balanced" | "quality";
 
 const ReanimatedCamera = Reanimated.createAnimatedComponent(Camera);
 
 const SCALE_FULL_ZOOM = 3;
 
+// Gives the shutter a moment after the tap so the press itself doesn't shake the frame
+const CAPTURE_DELAY_MS = Platform.OS === "android" ? 120 : 50;
+
+// Frames taken by one long-press before the burst stops on its own
+const MAX_BURST_FRAMES = 20;
+
+// Time for auto-exposure to settle after the bias changes between bracket frames
+const BRACKET_SETTLE_MS = 350;
+
+// Long-press on the preview that locks focus and exposure
+const FOCUS_LOCK_HOLD_MS = 500;
+// Movement that turns a press into a drag (pinch, focus box)
+const FOCUS_LOCK_SLOP = 10;
+// Neither platform holds a metering point for good (Android cancels it after
+// 5s, iOS on subject change), so a lock re-meters at its point this often
+const FOCUS_LOCK_REFRESH_MS = 4000;
+// Idle time before the exposure slider next to the focus indicator hides
+const EXPOSURE_CONTROL_HIDE_MS = 3000;
+
+// Asset tags and lot labels read in scan mode; VIN labels are Code 39
+const SCAN_CODE_TYPES: CodeType[] = [
+  "qr",
+  "code-128",
+  "data-matrix",
+  "code-39",
+];
+// The scanner reports a code on every frame it is visible; the same value
+// is only handled again after this long
+const SCAN_REPEAT_MS = 3000;
+
+// A soft photo offered for retake; it stays in its lot until the new shot
+// has been stored
+type RetakeTarget = {
+  lotId: string;
+  uri: string;
+  mode: CaptureMode;
+  isExtra: boolean;
+};
+
+type BracketSession = {
+  id: string;
+  mode: CaptureMode;
+  isExtra: boolean;
+  lotId: string;
+  shots: { exposure: number; file: PhotoFile }[];
+  merged: PhotoFile | null;
+  merging: boolean;
+  // Photo the kept result replaces once it is added
+  retake?: RetakeTarget;
+};
+
+type BurstSession = {
+  mode: CaptureMode;
+  isExtra: boolean;
+  lotId: string;
+  frames: PhotoFile[];
+  selected: boolean[];
+  running: boolean;
+};
+
 const AUTO_ENHANCE_KEY = "@camera_auto_enhance";
 const CAMERA_PERFORMANCE_MODE_KEY = "@camera_performance_mode";
+const CAMERA_OVERLAYS_KEY = "@camera_overlays";
+const CAMERA_FLASH_KEY = "@camera_flash";
+const CAMERA_TORCH_KEY = "@camera_torch";
+const CAMERA_VIDEO_SETTINGS_KEY = "@camera_video_settings";
+
+// Order the flash button cycles through
+const FLASH_MODES: FlashMode[] = ["off", "auto", "on"];
+
+const parseFlashMode = (value: string | null): FlashMode =>
+  FLASH_MODES.includes(value as FlashMode) ? (value as FlashMode) : "off";
 
 type ResolutionPreset = "auto" | "max" | number;
 
@@ -229,16 +353,20 @@ const getAvailableMegapixelBuckets = (formats: any[]) => {
 const CameraScreen: React.FC<CameraScreenProps> = ({
   visible,
   onClose,
-  lots,
-  setLots,
+  sessionId,
   activeLotIdx,
   setActiveLotIdx,
   onAutoSave,
   enhanceImages = false,
   onEnhanceChange,
+  blurThreshold = DEFAULT_BLUR_THRESHOLD,
 }) => {
   const insets = useSafeAreaInsets();
 
+  // Only the lot list (counts) and the active lot's photos are subscribed to
+  const lots = useSessionLots(sessionId);
+  const currentLot = useLot(sessionId, lots[activeLotIdx]?.id);
+
   // react-native-vision-camera permissions
   const {
     hasPermission: hasCameraPermission,
@@ -271,6 +399,10 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
   // Fallback for devices without all requested physical cameras (e.g. no telephoto)
   const deviceDefault = useCameraDevice("back");
 
+  // Selfie camera; used instead of all of the above while facing is "front"
+  const deviceFront = useCameraDevice("front");
+  const [facing, setFacing] = useState<CameraFacing>("back");
+
   // Get ALL available camera devices to find the one with highest resolution
   const allDevices = useCameraDevices();
 
@@ -434,6 +566,11 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
       `[Camera]   bestHighResDevice=${bestHighResDevice?.id ?? "null"}, deviceWide=${deviceWide?.id ?? "null"}`,
     );
 
+    if (facing === "front" && deviceFront) {
+      console.log(`[Camera] SELECTED front: ${deviceFront.id}`);
+      return deviceFront;
+    }
+
     if (maxResolutionMode && resolutionPreset === "max") {
       // Priority: bestHighResDevice > deviceWide > bestDeviceForMaxRes > deviceDefault
       if (bestHighResDevice) {
@@ -476,6 +613,8 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     console.log(`[Camera] SELECTED multi/default: ${selected?.id ?? "null"}`);
     return selected;
   }, [
+    facing,
+    deviceFront,
     maxResolutionMode,
     resolutionPreset,
     bestHighResDevice,
@@ -580,6 +719,16 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
   // Available zoom presets based on device capabilities
   const zoomPresets = useMemo(() => {
     const presets: { label: string; value: number }[] = [];
+
+    // Front cameras have a single lens, so only digital steps make sense
+    if (facing === "front") {
+      presets.push({ label: "1x", value: neutralZoom });
+      if (maxZoom >= neutralZoom * 2) {
+        presets.push({ label: "2x", value: neutralZoom * 2 });
+      }
+      return presets;
+    }
+
     const physicalDevices = (device as any)?.physicalDevices as
       | string[]
       | undefined;
@@ -616,7 +765,7 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     }
 
     return presets;
-  }, [device, minZoom, maxResolutionMode, maxZoom, neutralZoom]);
+  }, [device, facing, minZoom, maxResolutionMode, maxZoom, neutralZoom]);
 
   // Set zoom level with animation feel
   const setZoomLevel = useCallback(
@@ -747,10 +896,50 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
   const isLandscape = dimensions.width > dimensions.height;
 
   // Camera settings - Professional grade for iPhone 16 Pro Max / Samsung S24
+  // Capture flash for photos, and a separate continuous torch for video and framing
   const [flash, setFlash] = useState<FlashMode>("off");
+  const [torchOn, setTorchOn] = useState(false);
   const [focusOn, setFocusOn] = useState(true); // Auto-focus on by default
   const [capturing, setCapturing] = useState(false);
+  const [burst, setBurst] = useState<BurstSession | null>(null);
+  const burstActiveRef = useRef(false);
+  const [bracketOn, setBracketOn] = useState(false);
+  const [bracket, setBracket] = useState<BracketSession | null>(null);
+  // Id of the series under review; a merge finishing after it was closed is dropped
+  const activeBracketIdRef = useRef<string | null>(null);
+  const [shutterTimer, setShutterTimer] = useState<ShutterTimerSetting>({
+    kind: "off",
+  });
+  const [timerRun, setTimerRun] = useState<ShutterTimerRun | null>(null);
+  const timerTargetRef = useRef<{ mode: CaptureMode; isExtra: boolean } | null>(
+    null,
+  );
   const [exposure, setExposure] = useState(-1); // Neutral exposure for faster shutter speed
+  const [compositionOverlay, setCompositionOverlay] =
+    useState<CompositionOverlaySettings>(() => parseCompositionOverlay(null));
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(
+    () => parseRecordingSettings(null),
+  );
+  const [showRecordingSettings, setShowRecordingSettings] = useState(false);
+  const [scanMode, setScanMode] = useState(false);
+  const [scanMessage, setScanMessage] = useState<string | null>(null);
+  // Last code handled and when, to skip the repeats the scanner keeps reporting
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+  // Set while the tag prompt is open; codes seen meanwhile are dropped
+  const scanPromptOpenRef = useRef(false);
+  const scanHistory = useScanHistory(sessionId);
+  const shotLists = useShotListTemplates();
+  // Shot picked on the checklist for the next capture, instead of the first
+  // missing one; the ref is what capture callbacks read
+  const [shotTarget, setShotTarget] = useState<{
+    lotId: string;
+    shot: string;
+  } | null>(null);
+  const shotTargetRef = useRef(shotTarget);
+  shotTargetRef.current = shotTarget;
+  const [shotListHidden, setShotListHidden] = useState(false);
+  // Template list shown for a lot that has no shot list yet
+  const [shotListChoosing, setShotListChoosing] = useState(false);
   const enableHdr = false; // HDR disabled - causes motion blur and slow capture
   const [performanceMode, setPerformanceMode] =
     useState<CameraPerformanceMode>("quality");
@@ -767,11 +956,11 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
   }, [macroMode]);
 
   const canUseMacro = useMemo(() => {
-    if (maxResolutionMode) return false;
+    if (maxResolutionMode || facing === "front") return false;
     const minZ = device?.minZoom ?? 1;
     const neutralZ = device?.neutralZoom ?? 1;
     return minZ < neutralZ - 0.05;
-  }, [device?.minZoom, device?.neutralZoom, maxResolutionMode]);
+  }, [device?.minZoom, device?.neutralZoom, facing, maxResolutionMode]);
 
   useEffect(() => {
     if (!visible) return;
@@ -823,22 +1012,6 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     setMaxResolutionMode(true);
   }, []);
 
-  const getImageMetaAsync = useCallback(async (uri: string) => {
-    return await new Promise<{
-      width?: number;
-      height?: number;
-      megapixels?: number;
-    }>((resolve) => {
-      Image.getSize(
-        uri,
-        (width, height) => {
-          resolve({ width, height, megapixels: calcMegapixels(width, height) });
-        },
-        () => resolve({}),
-      );
-    });
-  }, []);
-
   const updatePhotoAdjustments = useCallback(
     (
       uri: string,
@@ -849,28 +1022,13 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
         detail: number;
       },
     ) => {
-      setLots((prev) => {
-        const updated = [...prev];
-        const lot = updated[activeLotIdx];
-        if (!lot) return prev;
-
-        const patch = (p: PhotoFile): PhotoFile =>
-          p.uri === uri
-            ? {
-                ...p,
-                adjustments,
-              }
-            : p;
-
-        updated[activeLotIdx] = {
-          ...lot,
-          files: lot.files.map(patch),
-          extraFiles: lot.extraFiles.map(patch),
-        };
-        return updated;
+      const lotId = lots[activeLotIdx]?.id;
+      if (!lotId) return;
+      InspectionStoreService.updatePhoto(sessionId, lotId, uri, {
+        adjustments,
       });
     },
-    [activeLotIdx, setLots],
+    [activeLotIdx, lots, sessionId],
   );
 
   // Sync enhanceOn with parent when it changes
@@ -1014,11 +1172,21 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     return Boolean(forceVideoUseCase || isRecording);
   }, [forceVideoUseCase, isRecording]);
 
+  // Format the recording settings ask for; only used from the moment Record
+  // is pressed until the clip is finished, so photos keep their own format
+  const recordingFormat = useMemo(
+    () => pickRecordingFormat(device?.formats, recordingSettings),
+    [device?.formats, recordingSettings],
+  );
+  const videoFormatActive = forceVideoUseCase || isRecording;
+
   const selectedFormat = useMemo(() => {
     if (!device?.formats) return undefined;
 
     const minMP = 10;
     const fmt = (() => {
+      if (videoFormatActive && recordingFormat) return recordingFormat;
+
       if (Platform.OS !== "android" || resolutionPreset !== "max") {
         return pickBestPhotoFormat(device.formats, resolutionPreset, minMP);
       }
@@ -1053,7 +1221,13 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
       );
     }
     return fmt;
-  }, [device?.formats, enableVideoUseCase, resolutionPreset]);
+  }, [
+    device?.formats,
+    enableVideoUseCase,
+    resolutionPreset,
+    videoFormatActive,
+    recordingFormat,
+  ]);
 
   // Log all formats available on the device for debugging
   useEffect(() => {
@@ -1130,8 +1304,33 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
 
   const videoBitRate = useMemo<CameraProps["videoBitRate"]>(() => {
     if (!enableVideoUseCase) return undefined;
-    return "high";
-  }, [enableVideoUseCase]);
+    return recordingSettings.bitRate;
+  }, [enableVideoUseCase, recordingSettings.bitRate]);
+
+  // Frame rate and stabilization are only set for recording, within what the
+  // format supports; photos keep the format's native FPS
+  const recordingFps = useMemo(() => {
+    if (!videoFormatActive || !format) return undefined;
+    return Math.min(
+      Math.max(recordingSettings.fps, format.minFps),
+      format.maxFps,
+    );
+  }, [videoFormatActive, format, recordingSettings.fps]);
+
+  const videoStabilizationMode =
+    videoFormatActive &&
+    format?.videoStabilizationModes?.includes(recordingSettings.stabilization)
+      ? recordingSettings.stabilization
+      : undefined;
+
+  const recordingBytesPerSecond = useMemo(() => {
+    if (!format?.videoWidth || !format.videoHeight) return undefined;
+    return estimateVideoBytesPerSecond(
+      { width: format.videoWidth, height: format.videoHeight },
+      recordingFps ?? Math.min(recordingSettings.fps, format.maxFps),
+      recordingSettings,
+    );
+  }, [format, recordingFps, recordingSettings]);
 
   useEffect(() => {
     if (!visible) return;
@@ -1151,6 +1350,40 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     );
   }, [performanceMode]);
 
+  useEffect(() => {
+    AsyncStorage.getItem(CAMERA_OVERLAYS_KEY)
+      .then((v) => setCompositionOverlay(parseCompositionOverlay(v)))
+      .catch(() => {});
+    AsyncStorage.multiGet([
+      CAMERA_FLASH_KEY,
+      CAMERA_TORCH_KEY,
+      CAMERA_VIDEO_SETTINGS_KEY,
+    ])
+      .then(([[, storedFlash], [, storedTorch], [, storedVideo]]) => {
+        setFlash(parseFlashMode(storedFlash));
+        setTorchOn(storedTorch === "on");
+        setRecordingSettings(parseRecordingSettings(storedVideo));
+      })
+      .catch(() => {});
+  }, []);
+
+  // Persisted here rather than in an effect so the initial default never
+  // overwrites the stored choice before it has loaded
+  const cycleCompositionOverlay = useCallback(() => {
+    const next = nextCompositionOverlay(compositionOverlay);
+    setCompositionOverlay(next);
+    AsyncStorage.setItem(CAMERA_OVERLAYS_KEY, JSON.stringify(next)).catch(
+      () => {},
+    );
+  }, [compositionOverlay]);
+
+  const updateRecordingSettings = useCallback((next: RecordingSettings) => {
+    setRecordingSettings(next);
+    AsyncStorage.setItem(CAMERA_VIDEO_SETTINGS_KEY, JSON.stringify(next)).catch(
+      () => {},
+    );
+  }, []);
+
   const setPerformance = useCallback(
     (mode: CameraPerformanceMode) => {
       if (isRecording || capturing) return;
@@ -1159,6 +1392,11 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     [capturing, isRecording],
   );
 
+  // Scanning only runs while the camera is open; it starts off next time
+  useEffect(() => {
+    if (!visible) setScanMode(false);
+  }, [visible]);
+
   useEffect(() => {
     if (!visible) {
       setForceVideoUseCase(false);
@@ -1178,6 +1416,24 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
   } | null>(null);
   const tapFocusAnim = useRef(new Animated.Value(0)).current;
   const suppressFocusUntilRef = useRef(0);
+  // Where the exposure slider is shown (last focus point, screen coordinates)
+  const [exposureAnchor, setExposureAnchor] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+  const [adjustingExposure, setAdjustingExposure] = useState(false);
+  // AE/AF lock from a long-press, as the point passed to camera.focus()
+  const [focusLock, setFocusLock] = useState<{ x: number; y: number } | null>(
+    null,
+  );
+  const focusLockRef = useRef(focusLock);
+  focusLockRef.current = focusLock;
+  const longPressRef = useRef<{
+    x: number;
+    y: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    fired: boolean;
+  } | null>(null);
 
   const cameraWrapperRef = useRef<View>(null);
   const [cameraWrapperOffset, setCameraWrapperOffset] = useState({
@@ -1185,6 +1441,13 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     y: 0,
   });
   const optimizeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Sharpness is scored one photo at a time, newest capture last
+  const sharpnessQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const latestCaptureUriRef = useRef<string | null>(null);
+  // Latest shot when it scored as blurry; offered for a one-tap retake
+  const [retakeCandidate, setRetakeCandidate] = useState<RetakeTarget | null>(
+    null,
+  );
 
   // Camera active state
   const [isCameraActive, setIsCameraActive] = useState(false);
@@ -1235,11 +1498,18 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     mediaPermission?.granted,
   ]);
 
+  // Location is tracked only while the camera is open (asked for after the
+  // camera permission, so the prompts don't stack)
+  useEffect(() => {
+    if (!visible || !hasCameraPermission) return;
+    void LocationService.start();
+    return () => LocationService.stop();
+  }, [visible, hasCameraPermission]);
+
   // Auto-create first lot when camera opens
   useEffect(() => {
     if (visible && lots.length === 0) {
-      const newLot = createNewLot();
-      setLots([newLot]);
+      InspectionStoreService.createLot(sessionId);
       setActiveLotIdx(0);
     }
   }, [visible, lots.length]);
@@ -1501,13 +1771,16 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     ],
   );
 
-  // Tap-to-focus handler - Actually focuses the camera at the tap point
-  const handleFocusAtPoint = useCallback(
+  // Tap-to-focus handler - Actually focuses the camera at the tap point.
+  // With lock set (long-press) the point is held as an AE/AF lock; any
+  // other tap releases it.
+  const focusAtPoint = useCallback(
     async (
       locationX: number,
       locationY: number,
-      viewWidth?: number,
-      viewHeight?: number,
+      viewWidth: number | undefined,
+      viewHeight: number | undefined,
+      lock: boolean,
     ) => {
       if (Date.now() < suppressFocusUntilRef.current) return;
       if (capturing) return;
@@ -1542,6 +1815,10 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
 
       if (!isAllowedFocusTap(x, y, vw, vh)) return;
 
+      const focusX = Math.max(0, Math.min(x - previewLeft, previewWidth));
+      const focusY = Math.max(0, Math.min(y - previewTop, previewHeight));
+      setFocusLock(lock ? { x: focusX, y: focusY } : null);
+      setExposureAnchor({ x, y });
       setTapFocusPoint({ x, y });
       // Only focus if camera is active and focus is enabled
       if (
@@ -1554,9 +1831,6 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
           // Use view dimensions for coordinate conversion if available
           // VisionCamera expects Point coordinates relative to the view
           // On Android, we need to ensure coordinates are within bounds
-          const focusX = Math.max(0, Math.min(x - previewLeft, previewWidth));
-          const focusY = Math.max(0, Math.min(y - previewTop, previewHeight));
-
           console.log(
             `[Camera] Focus at (${focusX.toFixed(0)}, ${focusY.toFixed(0)}) / view(${vw}x${vh})`,
           );
@@ -1616,6 +1890,26 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     ],
   );
 
+  const handleFocusAtPoint = useCallback(
+    (
+      locationX: number,
+      locationY: number,
+      viewWidth?: number,
+      viewHeight?: number,
+    ) => focusAtPoint(locationX, locationY, viewWidth, viewHeight, false),
+    [focusAtPoint],
+  );
+
+  const handleLockAtPoint = useCallback(
+    (
+      locationX: number,
+      locationY: number,
+      viewWidth?: number,
+      viewHeight?: number,
+    ) => focusAtPoint(locationX, locationY, viewWidth, viewHeight, true),
+    [focusAtPoint],
+  );
+
   const pinchGesture = useMemo(() => {
     return Gesture.Pinch()
       .enabled(isCameraActive && visible)
@@ -1649,14 +1943,89 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
       });
   }, [focusOn, handleFocusAtPoint, isCameraActive, visible]);
 
+  const longPressGesture = useMemo(() => {
+    return Gesture.LongPress()
+      .enabled(
+        focusOn && Platform.OS !== "android" && isCameraActive && visible,
+      )
+      .minDuration(FOCUS_LOCK_HOLD_MS)
+      .maxDistance(FOCUS_LOCK_SLOP)
+      .onStart((event: any) => {
+        runOnJS(handleLockAtPoint)(event.x, event.y);
+      });
+  }, [focusOn, handleLockAtPoint, isCameraActive, visible]);
+
   const cameraGestures = useMemo(
-    () => Gesture.Simultaneous(pinchGesture, tapGesture),
-    [pinchGesture, tapGesture],
+    () => Gesture.Simultaneous(pinchGesture, tapGesture, longPressGesture),
+    [pinchGesture, tapGesture, longPressGesture],
+  );
+
+  const clearLongPress = useCallback(() => {
+    if (longPressRef.current?.timer) clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  }, []);
+
+  // Native touch handlers for Android (more reliable than gesture handler).
+  // A still press held for FOCUS_LOCK_HOLD_MS locks instead of focusing.
+  const handleCameraTouchStart = useCallback(
+    (event: GestureResponderEvent) => {
+      clearLongPress();
+      if (!isCameraActive || !visible) return;
+      if (!focusOn) return;
+      const { pageX, pageY, touches } = event.nativeEvent;
+      const press = {
+        x: pageX,
+        y: pageY,
+        timer: null as ReturnType<typeof setTimeout> | null,
+        fired: false,
+      };
+      longPressRef.current = press;
+      if (touches.length > 1) return;
+      press.timer = setTimeout(() => {
+        press.fired = true;
+        handleLockAtPoint(
+          pageX - cameraWrapperOffset.x,
+          pageY - cameraWrapperOffset.y,
+          cameraViewDimensions.width || dimensions.width,
+          cameraViewDimensions.height || dimensions.height,
+        );
+      }, FOCUS_LOCK_HOLD_MS);
+    },
+    [
+      cameraViewDimensions.height,
+      cameraViewDimensions.width,
+      cameraWrapperOffset.x,
+      cameraWrapperOffset.y,
+      clearLongPress,
+      dimensions.height,
+      dimensions.width,
+      focusOn,
+      handleLockAtPoint,
+      isCameraActive,
+      visible,
+    ],
   );
 
-  // Native touch handler for Android (more reliable than gesture handler)
+  const handleCameraTouchMove = useCallback((event: GestureResponderEvent) => {
+    const press = longPressRef.current;
+    if (!press?.timer) return;
+    const { pageX, pageY, touches } = event.nativeEvent;
+    if (
+      touches.length > 1 ||
+      Math.abs(pageX - press.x) > FOCUS_LOCK_SLOP ||
+      Math.abs(pageY - press.y) > FOCUS_LOCK_SLOP
+    ) {
+      // A drag or pinch still focuses on release, it just can't lock
+      clearTimeout(press.timer);
+      press.timer = null;
+    }
+  }, []);
+
   const handleCameraTouchEnd = useCallback(
     (event: GestureResponderEvent) => {
+      const press = longPressRef.current;
+      clearLongPress();
+      if (!press || press.fired) return;
       if (!isCameraActive || !visible) return;
       if (!focusOn) return;
       const { pageX, pageY } = event.nativeEvent;
@@ -1667,6 +2036,7 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
       handleFocusAtPoint(locationX, locationY, vw, vh);
     },
     [
+      clearLongPress,
       cameraViewDimensions.height,
       cameraViewDimensions.width,
       cameraWrapperOffset.x,
@@ -1696,6 +2066,7 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
       return;
 
     const t = setTimeout(() => {
+      if (focusLockRef.current) return;
       cameraRef.current?.focus({ x: vw / 2, y: vh / 2 }).catch(() => undefined);
     }, 450);
 
@@ -1714,6 +2085,42 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     visible,
   ]);
 
+  // Keep re-metering at a locked point so the lock survives scene changes
+  useEffect(() => {
+    if (!focusLock || !isCameraActive || !visible) return;
+    const id = setInterval(() => {
+      cameraRef.current?.focus(focusLock).catch(() => undefined);
+    }, FOCUS_LOCK_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [focusLock, isCameraActive, visible]);
+
+  // A lock only lasts while the camera is open with focus enabled
+  useEffect(() => {
+    if (visible && focusOn) return;
+    clearLongPress();
+    setFocusLock(null);
+    setExposureAnchor(null);
+  }, [visible, focusOn, clearLongPress]);
+
+  useEffect(() => {
+    if (!exposureAnchor || focusLock || adjustingExposure) return;
+    const t = setTimeout(
+      () => setExposureAnchor(null),
+      EXPOSURE_CONTROL_HIDE_MS,
+    );
+    return () => clearTimeout(t);
+  }, [exposureAnchor, focusLock, adjustingExposure, exposure]);
+
+  const handleExposureSlidingStart = useCallback(() => {
+    setAdjustingExposure(true);
+  }, []);
+
+  const handleExposureSlidingComplete = useCallback(() => {
+    setAdjustingExposure(false);
+    // The slider sits on the preview; don't let its release refocus
+    suppressFocusUntilRef.current = Date.now() + 400;
+  }, []);
+
   const queueAutoOptimizePhoto = useCallback(
     (
       _photo: { uri: string; name: string; type: string },
@@ -1737,20 +2144,211 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     if (activeLotIdx < lots.length - 1) {
       setActiveLotIdx(activeLotIdx + 1);
     } else {
-      // Create new lot
-      const newLot = createNewLot();
-      setLots((prev) => [...prev, newLot]);
-      setActiveLotIdx(lots.length);
+      // Create new lot, keeping the shot list of the one before it
+      setActiveLotIdx(
+        InspectionStoreService.createLot(sessionId, {
+          ...createNewLot(),
+          shotListId: lots[activeLotIdx]?.shotListId,
+        }),
+      );
     }
-  }, [activeLotIdx, lots.length, setActiveLotIdx, setLots]);
+  }, [activeLotIdx, lots, setActiveLotIdx, sessionId]);
+
+  // Tags photos about to be added to a lot with the shot they cover: the one
+  // picked on the checklist, else the first the lot is still missing. Frames
+  // of one burst or bracket all count as the same shot.
+  const withShot = useCallback(
+    (lotId: string, photos: PhotoFile[]) => {
+      const summary = InspectionStoreService.getLotSummaries(sessionId).find(
+        (l) => l.id === lotId,
+      );
+      const template = ShotListService.getTemplate(summary?.shotListId);
+      if (!summary || !template) return photos;
+      const target = shotTargetRef.current;
+      let shot: string | undefined;
+      if (
+        target?.lotId === lotId &&
+        template.shots.some((s) => s.id === target.shot)
+      ) {
+        shot = target.shot;
+        shotTargetRef.current = null;
+        setShotTarget(null);
+      } else {
+        shot = ShotListService.getNextShot(template, summary.takenShots)?.id;
+      }
+      return shot ? photos.map((photo) => ({ ...photo, shot })) : photos;
+    },
+    [sessionId],
+  );
 
-  const handleCapture = useCallback(
-    async (mode: CaptureMode, isExtra: boolean) => {
-      if (!cameraRef.current) return;
-      if (capturing) return;
-      suppressFocusUntilRef.current = Date.now() + 400;
-      // Both modes now use fire-and-forget - no blocking needed
+  // Takes one full-quality photo and moves it into the session store. Shared
+  // by single shots and bursts; adding it to a lot is left to the caller.
+  const capturePhotoFile = useCallback(
+    async (
+      camera: Camera,
+      mode: CaptureMode,
+      isExtra: boolean,
+      lotId: string,
+      captureId: string | number,
+      // Bursts and brackets skip the flash: it can't recycle between frames
+      // and would flatten the exposure steps
+      useFlash = true,
+    ): Promise<PhotoFile> => {
+      const neutralZ = device?.neutralZoom ?? 1;
+      const steadyWaitMs =
+        Platform.OS === "android"
+          ? currentZoom >= neutralZ * 1.8
+            ? 650
+            : 450
+          : 0;
+      if (steadyWaitMs > 0) await waitForDeviceSteady(steadyWaitMs);
+
+      const photo = await camera.takePhoto({
+        // With the torch on the scene is already lit
+        flash: useFlash && !torchOn && device?.hasFlash ? flash : "off",
+        enableShutterSound: false,
+      });
+      const capturedAt = new Date().toISOString();
+      const location = LocationService.getCaptureLocation();
+      // VisionCamera returns actual dimensions in photo object
+      const visionWidth = photo.width;
+      const visionHeight = photo.height;
+      const visionMP = (visionWidth * visionHeight) / 1_000_000;
 
+      console.log(
+        `[Camera] CAPTURED: ${visionWidth}x${visionHeight} = ${visionMP.toFixed(1)}MP`,
+      );
+
+      // Use raw photo directly - no processing for best quality and speed
+      const meta = {
+        width: visionWidth,
+        height: visionHeight,
+        megapixels: visionMP,
+      };
+
+      const focusBox = computeNormalizedFocusBox(visionWidth, visionHeight);
+
+      if (
+        Platform.OS === "android" &&
+        !maxResolutionMode &&
+        !macroMode &&
+        !didForceWideForLowResRef.current &&
+        typeof meta.megapixels === "number" &&
+        meta.megapixels < 8 &&
+        (deviceWideMaxMP ?? 0) >= 10
+      ) {
+        didForceWideForLowResRef.current = true;
+        setMaxResolutionMode(true);
+      }
+      const modeLabel = MODE_CONFIG[mode].fileLabel;
+      const extraLabel = isExtra ? "-extra" : "";
+      const lotNumber = lots.findIndex((l) => l.id === lotId) + 1;
+      const fileName = `lot-${lotNumber}-${modeLabel}${extraLabel}-${captureId}.jpg`;
+      const photoUri = await SessionMediaService.persistCapture(
+        `file://${photo.path}`,
+        { sessionId, lotId, fileName },
+      );
+      return {
+        uri: photoUri,
+        name: fileName,
+        type: "image/jpeg",
+        width: meta.width,
+        height: meta.height,
+        megapixels: meta.megapixels,
+        focusBox: focusBox ?? undefined,
+        capturedAt,
+        location,
+        facing,
+      };
+    },
+    [
+      lots,
+      facing,
+      flash,
+      torchOn,
+      device?.hasFlash,
+      maxResolutionMode,
+      macroMode,
+      deviceWideMaxMP,
+      currentZoom,
+      device?.neutralZoom,
+      computeNormalizedFocusBox,
+      waitForDeviceSteady,
+      sessionId,
+    ],
+  );
+
+  // Scores a stored photo's sharpness in the background and offers a retake
+  // when the latest shot comes out soft
+  const queueSharpnessScore = useCallback(
+    (photo: PhotoFile, lotId: string, mode: CaptureMode, isExtra: boolean) => {
+      sharpnessQueueRef.current = sharpnessQueueRef.current.then(async () => {
+        try {
+          const sharpness = await SharpnessService.scorePhoto(photo);
+          InspectionStoreService.updatePhoto(sessionId, lotId, photo.uri, {
+            sharpness,
+          });
+          if (__DEV__) {
+            console.log(
+              `[Camera] Sharpness ${sharpness} for ${photo.name} (threshold ${blurThreshold})`,
+            );
+          }
+          if (
+            sharpness < blurThreshold &&
+            latestCaptureUriRef.current === photo.uri
+          ) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            setRetakeCandidate({ lotId, uri: photo.uri, mode, isExtra });
+          }
+        } catch (e) {
+          console.warn("Sharpness scoring error:", e);
+        }
+      });
+    },
+    [sessionId, blurThreshold],
+  );
+
+  // Gallery copy, last-capture info, auto-enhance and sharpness scoring for
+  // photos that were just added to a lot
+  const afterPhotosAdded = useCallback(
+    (
+      photos: PhotoFile[],
+      lotId: string,
+      mode: CaptureMode,
+      isExtra: boolean,
+    ) => {
+      const latest = photos[0];
+      latestCaptureUriRef.current = latest?.uri ?? null;
+      setRetakeCandidate(null);
+      photos.forEach((photo) => {
+        // Save to media library (fire-and-forget)
+        saveToGallery(photo.uri);
+        if (enhanceOn) queueAutoOptimizePhoto(photo, lotId, isExtra);
+        queueSharpnessScore(photo, lotId, mode, isExtra);
+      });
+      if (latest) {
+        setLastCaptureInfo({
+          uri: latest.uri,
+          width: latest.width,
+          height: latest.height,
+          megapixels: latest.megapixels,
+        });
+        setEditingPhotoUri(latest.uri);
+      }
+      onAutoSave?.();
+    },
+    [
+      saveToGallery,
+      enhanceOn,
+      queueAutoOptimizePhoto,
+      queueSharpnessScore,
+      onAutoSave,
+    ],
+  );
+
+  // Main shots must match the lot's mode; extras can go into any lot
+  const checkModeMatches = useCallback(
+    (mode: CaptureMode, isExtra: boolean) => {
       const currentLot = lots[activeLotIdx];
       if (currentLot?.mode && currentLot.mode !== mode && !isExtra) {
         Alert.alert(
@@ -1761,10 +2359,207 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
             { text: "New Lot", onPress: handleNextLot },
           ],
         );
+        return false;
+      }
+      return true;
+    },
+    [lots, activeLotIdx, handleNextLot],
+  );
+
+  // Removes and deletes the soft photo a retake replaced. Looked up by uri,
+  // as the lot may have changed while the new shot was being taken.
+  const removeRetakenPhoto = useCallback(
+    (retake: RetakeTarget) => {
+      const lot = InspectionStoreService.getLot(sessionId, retake.lotId);
+      const files = retake.isExtra ? lot?.extraFiles : lot?.files;
+      const index = files?.findIndex((f) => f.uri === retake.uri) ?? -1;
+      if (index < 0) return;
+      const removed = InspectionStoreService.removePhoto(
+        sessionId,
+        retake.lotId,
+        retake.isExtra ? "extra" : "main",
+        index,
+      );
+      if (removed) void SessionMediaService.deleteMedia(removed.uri);
+    },
+    [sessionId],
+  );
+
+  // Shoots the series at BRACKET_EXPOSURES around the current exposure, then
+  // merges it in the background while the review is shown.
+  const captureBracket = useCallback(
+    async (
+      camera: Camera,
+      mode: CaptureMode,
+      isExtra: boolean,
+      lotId: string,
+      retake?: RetakeTarget,
+    ) => {
+      const id = `${Date.now()}`;
+      const baseExposure = exposure;
+      const shots: BracketSession["shots"] = [];
+      setCapturing(true);
+      try {
+        for (const offset of BRACKET_EXPOSURES) {
+          setExposure(
+            Math.max(
+              device?.minExposure ?? -Infinity,
+              Math.min(device?.maxExposure ?? Infinity, baseExposure + offset),
+            ),
+          );
+          await new Promise<void>((r) => setTimeout(r, BRACKET_SETTLE_MS));
+          const file = await capturePhotoFile(
+            camera,
+            mode,
+            isExtra,
+            lotId,
+            `${id}-ev${offset}`,
+            false,
+          );
+          shots.push({ exposure: offset, file });
+        }
+      } catch (e) {
+        console.warn("Bracket capture error:", e);
+        shots.forEach((shot) => {
+          void SessionMediaService.deleteMedia(shot.file.uri);
+        });
+        Alert.alert(
+          "Bracket Failed",
+          "The exposure series could not be captured.",
+        );
         return;
+      } finally {
+        setExposure(baseExposure);
+        setCapturing(false);
       }
 
-      // QUALITY MODE: Full native quality burst capture - fire-and-forget
+      const reference =
+        shots.find((shot) => shot.exposure === 0)?.file ?? shots[0].file;
+      activeBracketIdRef.current = id;
+      setBracket({
+        id,
+        mode,
+        isExtra,
+        lotId,
+        shots,
+        merged: null,
+        merging: true,
+        retake,
+      });
+
+      const mergedName = reference.name.replace(/\.jpg$/, "-merged.jpg");
+      ExposureMergeService.mergeBracket(
+        shots.map((shot) => shot.file.uri),
+        { sessionId, lotId, fileName: mergedName },
+      )
+        .then((result) => {
+          if (activeBracketIdRef.current !== id) {
+            void SessionMediaService.deleteMedia(result.uri);
+            return;
+          }
+          const merged: PhotoFile = {
+            uri: result.uri,
+            name: mergedName,
+            type: "image/jpeg",
+            width: result.width,
+            height: result.height,
+            megapixels: (result.width * result.height) / 1_000_000,
+            focusBox: reference.focusBox,
+            capturedAt: reference.capturedAt,
+            location: reference.location,
+            facing: reference.facing,
+          };
+          setBracket((prev) =>
+            prev?.id === id ? { ...prev, merged, merging: false } : prev,
+          );
+        })
+        .catch((e) => {
+          console.warn("Bracket merge error:", e);
+          setBracket((prev) =>
+            prev?.id === id ? { ...prev, merging: false } : prev,
+          );
+        });
+    },
+    [
+      exposure,
+      device?.minExposure,
+      device?.maxExposure,
+      capturePhotoFile,
+      sessionId,
+    ],
+  );
+
+  // Adds the chosen part of the series to the lot as one photo that carries
+  // the whole set; whatever isn't kept is deleted. null discards everything.
+  const finishBracket = useCallback(
+    (choice: BracketChoice | null) => {
+      if (!bracket) return;
+      activeBracketIdRef.current = null;
+      setBracket(null);
+
+      const { shots, merged } = bracket;
+      const keepMerged = !!merged && (choice === "merged" || choice === "both");
+      const keepFrames = choice === "frames" || choice === "both";
+      if (!keepFrames) {
+        shots.forEach((shot) => {
+          void SessionMediaService.deleteMedia(shot.file.uri);
+        });
+      }
+      if (merged && !keepMerged) {
+        void SessionMediaService.deleteMedia(merged.uri);
+      }
+      if (!keepMerged && !keepFrames) return;
+
+      const reference =
+        shots.find((shot) => shot.exposure === 0)?.file ?? shots[0].file;
+      const [photo] = withShot(bracket.lotId, [
+        {
+          ...(keepMerged && merged ? merged : reference),
+          bracket: {
+            id: bracket.id,
+            exposures: shots.map((shot) => shot.exposure),
+            frames: keepFrames
+              ? shots.map((shot) => ({
+                  uri: shot.file.uri,
+                  name: shot.file.name,
+                  exposure: shot.exposure,
+                }))
+              : [],
+            merged: keepMerged,
+          },
+        },
+      ]);
+      InspectionStoreService.addPhotos(
+        sessionId,
+        bracket.lotId,
+        bracket.isExtra ? "extra" : "main",
+        [photo],
+        { prepend: true, mode: bracket.isExtra ? undefined : bracket.mode },
+      );
+      if (bracket.retake) removeRetakenPhoto(bracket.retake);
+      afterPhotosAdded([photo], bracket.lotId, bracket.mode, bracket.isExtra);
+    },
+    [bracket, sessionId, afterPhotosAdded, withShot, removeRetakenPhoto],
+  );
+
+  // Closing the camera mid-review keeps everything that was captured
+  useEffect(() => {
+    if (visible || !bracket || bracket.merging) return;
+    finishBracket(bracket.merged ? "both" : "frames");
+  }, [visible, bracket, finishBracket]);
+
+  const handleCapture = useCallback(
+    // Resolves to false when no shot was taken (busy, no lot, mode mismatch).
+    // A retake target is removed only after the new photo has been stored.
+    async (mode: CaptureMode, isExtra: boolean, retake?: RetakeTarget) => {
+      if (!cameraRef.current) return false;
+      if (capturing || burstActiveRef.current || burst || bracket) return false;
+      suppressFocusUntilRef.current = Date.now() + 400;
+      // Both modes now use fire-and-forget - no blocking needed
+
+      if (!checkModeMatches(mode, isExtra)) return false;
+
+      // QUALITY MODE: Full native quality capture - fire-and-forget
       // Uses takePhoto for 100% native sensor quality, no loading/blocking
       // Quick haptic (non-blocking)
       if (Platform.OS === "ios") {
@@ -1773,159 +2568,477 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
         Haptics.selectionAsync();
       }
 
-      // Fire-and-forget capture with full native quality using VisionCamera
-      const captureId = Date.now();
-      const targetLotId = currentLot?.id;
-      console.log(
-        `[Camera] enableVideoUseCase=${String(enableVideoUseCase)} forceVideoUseCase=${String(forceVideoUseCase)} isRecording=${String(isRecording)}`,
-      );
-      console.log(
-        `[Camera] Taking photo with format: ${format?.photoWidth}x${format?.photoHeight}`,
+      // Fire-and-forget capture with full native quality using VisionCamera
+      const captureId = Date.now();
+      const targetLotId = lots[activeLotIdx]?.id;
+      if (!targetLotId) return false;
+      if (bracketOn) {
+        void captureBracket(
+          cameraRef.current,
+          mode,
+          isExtra,
+          targetLotId,
+          retake,
+        );
+        return true;
+      }
+      console.log(
+        `[Camera] enableVideoUseCase=${String(enableVideoUseCase)} forceVideoUseCase=${String(forceVideoUseCase)} isRecording=${String(isRecording)}`,
+      );
+      console.log(
+        `[Camera] Taking photo with format: ${format?.photoWidth}x${format?.photoHeight}`,
+      );
+      const camera = cameraRef.current;
+      const doCapture = async () => {
+        const [newPhoto] = withShot(targetLotId, [
+          await capturePhotoFile(camera, mode, isExtra, targetLotId, captureId),
+        ]);
+
+        // Newest first; a main photo also fixes the lot's mode
+        InspectionStoreService.addPhotos(
+          sessionId,
+          targetLotId,
+          isExtra ? "extra" : "main",
+          [newPhoto],
+          { prepend: true, mode: isExtra ? undefined : mode },
+        );
+        if (retake) removeRetakenPhoto(retake);
+        afterPhotosAdded([newPhoto], targetLotId, mode, isExtra);
+      };
+
+      setTimeout(() => {
+        doCapture().catch((e) => console.warn("Quality capture error:", e));
+      }, CAPTURE_DELAY_MS);
+      return true;
+    },
+    [
+      activeLotIdx,
+      capturing,
+      burst,
+      bracket,
+      bracketOn,
+      captureBracket,
+      lots,
+      checkModeMatches,
+      capturePhotoFile,
+      afterPhotosAdded,
+      withShot,
+      removeRetakenPhoto,
+      format,
+      sessionId,
+    ],
+  );
+
+  // Replaces the blurry shot: a new photo is taken with the same mode, and the
+  // soft one is removed from the lot and deleted once the new one is stored
+  const handleRetake = useCallback(async () => {
+    const candidate = retakeCandidate;
+    if (!candidate) return;
+    const lot = InspectionStoreService.getLot(sessionId, candidate.lotId);
+    const files = candidate.isExtra ? lot?.extraFiles : lot?.files;
+    // The new photo covers the same shot as the blurry one
+    const shot = files?.find((f) => f.uri === candidate.uri)?.shot;
+    const previousTarget = shotTargetRef.current;
+    if (shot) {
+      shotTargetRef.current = { lotId: candidate.lotId, shot };
+      setShotTarget(shotTargetRef.current);
+    }
+    const taken = await handleCapture(
+      candidate.mode,
+      candidate.isExtra,
+      candidate,
+    );
+    if (!taken) {
+      if (shot) {
+        shotTargetRef.current = previousTarget;
+        setShotTarget(previousTarget);
+      }
+      return;
+    }
+    setRetakeCandidate(null);
+  }, [retakeCandidate, handleCapture, sessionId]);
+
+  const toggleScanMode = useCallback(() => {
+    setScanMode((on) => !on);
+    setScanMessage(null);
+    lastScanRef.current = null;
+  }, []);
+
+  // A code matching a lot (its id or a code tagged on it) jumps to that lot;
+  // anything else can be tagged on the current lot
+  const handleCodeScanned = useCallback(
+    (codes: Code[]) => {
+      const code = codes.find((c) => c.value?.trim());
+      const raw = code?.value?.trim();
+      if (!code || !raw || scanPromptOpenRef.current) return;
+      const isVin = IdentifierService.looksLikeVin(raw);
+      // VINs are stored normalized, so match and save them that way
+      const value = isVin
+        ? IdentifierService.normalizeIdentifier("vin", raw)
+        : raw;
+      const now = Date.now();
+      const last = lastScanRef.current;
+      if (last && last.value === value && now - last.at < SCAN_REPEAT_MS) {
+        return;
+      }
+      lastScanRef.current = { value, at: now };
+
+      const scannedAt = new Date(now).toISOString();
+      const matchId = InspectionStoreService.findLotByCode(sessionId, value);
+      const matchIdx = matchId ? lots.findIndex((l) => l.id === matchId) : -1;
+      if (matchId && matchIdx >= 0) {
+        InspectionStoreService.addScan(sessionId, {
+          value,
+          codeType: code.type,
+          lotId: matchId,
+          action: "jump",
+          scannedAt,
+        });
+        Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success,
+        ).catch(() => {});
+        setScanMessage(
+          matchIdx === activeLotIdx
+            ? `Already on Lot ${matchIdx + 1}`
+            : `Jumped to Lot ${matchIdx + 1}`,
+        );
+        setActiveLotIdx(matchIdx);
+        return;
+      }
+
+      const lotId = lots[activeLotIdx]?.id;
+      if (!lotId) {
+        setScanMessage("No lot to tag");
+        return;
+      }
+      const lotNumber = activeLotIdx + 1;
+      const tag = (kind: LotIdentifierKind) => {
+        scanPromptOpenRef.current = false;
+        const identifier = {
+          kind,
+          value,
+          codeType: code.type,
+          addedAt: new Date().toISOString(),
+        };
+        // A lot has one VIN and one serial; asset tags accumulate
+        if (LOT_IDENTIFIER_FIELDS.includes(kind)) {
+          InspectionStoreService.setLotIdentifier(
+            sessionId,
+            lotId,
+            kind,
+            identifier,
+          );
+        } else {
+          InspectionStoreService.addLotIdentifier(sessionId, lotId, identifier);
+        }
+        InspectionStoreService.addScan(sessionId, {
+          value,
+          codeType: code.type,
+          lotId,
+          action: "tagged",
+          scannedAt,
+        });
+        setScanMessage(
+          `${LOT_IDENTIFIER_LABELS[kind]} added to Lot ${lotNumber}`,
+        );
+      };
+      const ignore = () => {
+        scanPromptOpenRef.current = false;
+        InspectionStoreService.addScan(sessionId, {
+          value,
+          codeType: code.type,
+          action: "ignored",
+          scannedAt,
+        });
+        setScanMessage(null);
+      };
+
+      scanPromptOpenRef.current = true;
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+      Alert.alert(
+        `Tag Lot ${lotNumber}`,
+        `${value}\n\nNo lot has this code yet. Save it on Lot ${lotNumber} as:`,
+        [
+          { text: "Cancel", style: "cancel", onPress: ignore },
+          isVin
+            ? { text: LOT_IDENTIFIER_LABELS.vin, onPress: () => tag("vin") }
+            : {
+                text: LOT_IDENTIFIER_LABELS.asset,
+                onPress: () => tag("asset"),
+              },
+          { text: LOT_IDENTIFIER_LABELS.serial, onPress: () => tag("serial") },
+        ],
+        { cancelable: true, onDismiss: ignore },
       );
-      const camera = cameraRef.current;
-      const captureDelayMs = Platform.OS === "android" ? 120 : 50;
-      const doCapture = async () => {
-        const neutralZ = device?.neutralZoom ?? 1;
-        const steadyWaitMs =
-          Platform.OS === "android"
-            ? currentZoom >= neutralZ * 1.8
-              ? 650
-              : 450
-            : 0;
-        if (steadyWaitMs > 0) await waitForDeviceSteady(steadyWaitMs);
-
-        camera
-          .takePhoto({
-            flash: "off", // Torch is always on when flash='on', so no need for flash during capture
-            enableShutterSound: false,
-          })
-          .then(async (photo) => {
-            const photoUri = `file://${photo.path}`;
-
-            // VisionCamera returns actual dimensions in photo object
-            const visionWidth = photo.width;
-            const visionHeight = photo.height;
-            const visionMP = (visionWidth * visionHeight) / 1_000_000;
-
-            console.log(
-              `[Camera] CAPTURED: ${visionWidth}x${visionHeight} = ${visionMP.toFixed(1)}MP`,
-            );
+    },
+    [activeLotIdx, lots, sessionId, setActiveLotIdx],
+  );
 
-            // Use raw photo directly - no processing for best quality and speed
-            const meta = {
-              width: visionWidth,
-              height: visionHeight,
-              megapixels: visionMP,
-            };
+  const codeScanner = useCodeScanner({
+    codeTypes: SCAN_CODE_TYPES,
+    onCodeScanned: handleCodeScanned,
+  });
 
-            const focusBox = computeNormalizedFocusBox(
-              visionWidth,
-              visionHeight,
-            );
+  const activeShotListId = lots[activeLotIdx]?.shotListId;
+  const activeShotList = activeShotListId
+    ? shotLists.find((template) => template.id === activeShotListId)
+    : undefined;
+  const activeLotId = lots[activeLotIdx]?.id;
+  const takenShots = lots[activeLotIdx]?.takenShots ?? [];
+  const nextShot =
+    shotTarget && shotTarget.lotId === activeLotId
+      ? shotTarget.shot
+      : activeShotList
+        ? (ShotListService.getNextShot(activeShotList, takenShots)?.id ?? null)
+        : null;
+  const showShotList =
+    !scanMode &&
+    !!activeLotId &&
+    (shotListChoosing || (!!activeShotList && !shotListHidden));
+
+  const toggleShotList = useCallback(() => {
+    if (showShotList) {
+      setShotListHidden(true);
+      setShotListChoosing(false);
+    } else {
+      setShotListHidden(false);
+      setShotListChoosing(!activeShotList);
+      setShowRecordingSettings(false);
+    }
+  }, [showShotList, activeShotList]);
+
+  const handlePickShot = useCallback(
+    (shot: string) => {
+      if (!activeLotId) return;
+      setShotTarget((prev) =>
+        prev?.lotId === activeLotId && prev.shot === shot
+          ? null
+          : { lotId: activeLotId, shot },
+      );
+    },
+    [activeLotId],
+  );
 
-            if (
-              Platform.OS === "android" &&
-              !maxResolutionMode &&
-              !macroMode &&
-              !didForceWideForLowResRef.current &&
-              typeof meta.megapixels === "number" &&
-              meta.megapixels < 8 &&
-              (deviceWideMaxMP ?? 0) >= 10
-            ) {
-              didForceWideForLowResRef.current = true;
-              setMaxResolutionMode(true);
-            }
-            const modeLabel =
-              mode === "single_lot"
-                ? "bundle"
-                : mode === "per_item"
-                  ? "item"
-                  : "photo";
-            const extraLabel = isExtra ? "-extra" : "";
-            const fileName = `lot-${activeLotIdx + 1}-${modeLabel}${extraLabel}-${captureId}.jpg`;
-            const newPhoto: PhotoFile = {
-              uri: photoUri,
-              name: fileName,
-              type: "image/jpeg",
-              width: meta.width,
-              height: meta.height,
-              megapixels: meta.megapixels,
-              focusBox: focusBox ?? undefined,
-            };
+  const handleSelectShotList = useCallback(
+    (shotListId: string | null) => {
+      if (!activeLotId) return;
+      setShotListChoosing(false);
+      setShotListHidden(false);
+      setShotTarget(null);
+      InspectionStoreService.updateLot(sessionId, activeLotId, {
+        shotListId: shotListId ?? undefined,
+      });
+    },
+    [activeLotId, sessionId],
+  );
 
-            setLots((prev) => {
-              const updated = [...prev];
-              const lot = updated[activeLotIdx];
-              if (!lot) return prev;
-              if (isExtra) {
-                updated[activeLotIdx] = {
-                  ...lot,
-                  extraFiles: [newPhoto, ...lot.extraFiles],
-                };
-              } else {
-                updated[activeLotIdx] = {
-                  ...lot,
-                  mode: mode,
-                  files: [newPhoto, ...lot.files],
-                };
-              }
-              return updated;
-            });
+  const getLotNumber = useCallback(
+    (lotId: string) => {
+      const idx = lots.findIndex((l) => l.id === lotId);
+      return idx >= 0 ? idx + 1 : null;
+    },
+    [lots],
+  );
 
-            // Save to media library (fire-and-forget)
-            saveToGallery(photoUri);
-            setLastCaptureInfo({ uri: photoUri, ...meta });
-            setEditingPhotoUri(photoUri);
-            onAutoSave?.();
+  // Long-press on a capture button: shoot until released (or the frame cap),
+  // then review the frames before any of them reach the lot.
+  const startBurst = useCallback(
+    async (mode: CaptureMode, isExtra: boolean) => {
+      const camera = cameraRef.current;
+      const targetLotId = lots[activeLotIdx]?.id;
+      if (!camera || !targetLotId) return;
+      if (capturing || burstActiveRef.current || burst || bracket || timerRun) {
+        return;
+      }
+      if (!checkModeMatches(mode, isExtra)) return;
 
-            if (enhanceOn && targetLotId) {
-              queueAutoOptimizePhoto(newPhoto, targetLotId, isExtra);
-            }
-          })
-          .catch((e) => console.warn("Quality capture error:", e));
-      };
+      burstActiveRef.current = true;
+      suppressFocusUntilRef.current = Date.now() + 400;
+      setBurst({
+        mode,
+        isExtra,
+        lotId: targetLotId,
+        frames: [],
+        selected: [],
+        running: true,
+      });
 
-      if (captureDelayMs > 0) {
-        setTimeout(() => {
-          void doCapture();
-        }, captureDelayMs);
-      } else {
-        void doCapture();
+      const burstId = Date.now();
+      try {
+        for (let i = 0; burstActiveRef.current && i < MAX_BURST_FRAMES; i++) {
+          await new Promise<void>((r) => setTimeout(r, CAPTURE_DELAY_MS));
+          const frame = await capturePhotoFile(
+            camera,
+            mode,
+            isExtra,
+            targetLotId,
+            `${burstId}-b${i + 1}`,
+            false,
+          );
+          Haptics.selectionAsync();
+          setBurst((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  frames: [...prev.frames, frame],
+                  selected: [...prev.selected, true],
+                }
+              : prev,
+          );
+        }
+      } catch (e) {
+        console.warn("Burst capture error:", e);
       }
+      burstActiveRef.current = false;
+      setBurst((prev) =>
+        prev && prev.frames.length > 0 ? { ...prev, running: false } : null,
+      );
     },
     [
       activeLotIdx,
       capturing,
+      burst,
+      bracket,
+      timerRun,
       lots,
-      mediaPermission?.granted,
-      handleNextLot,
-      setLots,
-      onAutoSave,
-      flash,
-      maxResolutionMode,
-      deviceWideMaxMP,
-      resolutionPreset,
-      getImageMetaAsync,
-      saveToGallery,
-      format,
-      enhanceOn,
-      queueAutoOptimizePhoto,
-      currentZoom,
-      device?.neutralZoom,
-      computeNormalizedFocusBox,
-      waitForDeviceSteady,
+      checkModeMatches,
+      capturePhotoFile,
     ],
   );
 
+  const stopBurst = useCallback(() => {
+    burstActiveRef.current = false;
+  }, []);
+
+  const toggleBurstFrame = useCallback((index: number) => {
+    setBurst((prev) =>
+      prev
+        ? {
+            ...prev,
+            selected: prev.selected.map((v, i) => (i === index ? !v : v)),
+          }
+        : prev,
+    );
+  }, []);
+
+  // Selected frames go into the lot in capture order (newest first, like single
+  // shots); the rest are deleted from the session store.
+  const finishBurst = useCallback(
+    (keepSelected: boolean) => {
+      if (!burst) return;
+      const kept = burst.frames.filter(
+        (_, i) => keepSelected && burst.selected[i],
+      );
+      const dropped = burst.frames.filter((frame) => !kept.includes(frame));
+      setBurst(null);
+
+      dropped.forEach((frame) => {
+        void SessionMediaService.deleteMedia(frame.uri);
+      });
+      if (kept.length === 0) return;
+
+      const newestFirst = withShot(burst.lotId, [...kept].reverse());
+      InspectionStoreService.addPhotos(
+        sessionId,
+        burst.lotId,
+        burst.isExtra ? "extra" : "main",
+        newestFirst,
+        { prepend: true, mode: burst.isExtra ? undefined : burst.mode },
+      );
+      afterPhotosAdded(newestFirst, burst.lotId, burst.mode, burst.isExtra);
+    },
+    [burst, sessionId, afterPhotosAdded, withShot],
+  );
+
+  // Closing the camera stops a running burst and keeps the selected frames,
+  // so nothing captured is lost without being reviewed.
+  useEffect(() => {
+    if (visible || !burst) return;
+    if (burst.running) {
+      burstActiveRef.current = false;
+    } else {
+      finishBurst(true);
+    }
+  }, [visible, burst, finishBurst]);
+
+  // The timer fires whichever handleCapture is current by then (lot, zoom, ...)
+  const handleCaptureRef = useRef(handleCapture);
+  handleCaptureRef.current = handleCapture;
+
+  // Capture buttons go through here: with a self-timer or interval set, the
+  // shot is scheduled but still taken by handleCapture.
+  const triggerCapture = useCallback(
+    (mode: CaptureMode, isExtra: boolean) => {
+      // Any capture button cancels a running countdown or interval
+      if (timerRun) {
+        setTimerRun(null);
+        return;
+      }
+      if (shutterTimer.kind === "off") {
+        void handleCapture(mode, isExtra);
+        return;
+      }
+      if (!cameraRef.current || burstActiveRef.current || burst) return;
+      if (!checkModeMatches(mode, isExtra)) return;
+
+      timerTargetRef.current = { mode, isExtra };
+      if (shutterTimer.kind === "interval") void handleCapture(mode, isExtra);
+      setTimerRun({
+        kind: shutterTimer.kind,
+        seconds: shutterTimer.seconds,
+        remaining: shutterTimer.seconds,
+        shots: shutterTimer.kind === "interval" ? 1 : 0,
+      });
+    },
+    [timerRun, shutterTimer, handleCapture, burst, checkModeMatches],
+  );
+
+  // One tick per second: count down with a haptic, then shoot. Intervals
+  // start over until stopped or a shot can't be taken.
+  useEffect(() => {
+    if (!timerRun) return;
+    const timeout = setTimeout(async () => {
+      if (timerRun.remaining > 1) {
+        Haptics.impactAsync(
+          timerRun.remaining <= 4
+            ? Haptics.ImpactFeedbackStyle.Medium
+            : Haptics.ImpactFeedbackStyle.Light,
+        );
+        setTimerRun({ ...timerRun, remaining: timerRun.remaining - 1 });
+        return;
+      }
+      const target = timerTargetRef.current;
+      const taken =
+        !!target &&
+        (await handleCaptureRef.current(target.mode, target.isExtra));
+      setTimerRun((current) => {
+        // Stopped or restarted while the shot was being scheduled
+        if (current !== timerRun) return current;
+        return taken && timerRun.kind === "interval"
+          ? {
+              ...timerRun,
+              remaining: timerRun.seconds,
+              shots: timerRun.shots + 1,
+            }
+          : null;
+      });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [timerRun]);
+
+  useEffect(() => {
+    if (!visible) setTimerRun(null);
+  }, [visible]);
+
+  const cycleShutterTimer = useCallback(() => {
+    setTimerRun(null);
+    setShutterTimer(nextShutterTimer);
+  }, []);
+
   const startRecording = useCallback(async () => {
     if (isRecording) return;
     if (!cameraRef.current) return;
 
-    if (!enableVideoUseCase) {
-      setForceVideoUseCase(true);
-      return;
-    }
-
     const currentLot = lots[activeLotIdx];
     if (!currentLot?.mode) {
       Alert.alert(
@@ -1935,37 +3048,54 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
       return;
     }
 
+    // Switch to the video use case and recording format first; the effect
+    // below starts the recording once the camera has been reconfigured
+    if (!forceVideoUseCase) {
+      setShowRecordingSettings(false);
+      setForceVideoUseCase(true);
+      return;
+    }
+
     try {
       setIsRecording(true);
       setRecordingTime(0);
+      const capturedAt = new Date().toISOString();
+      const location = LocationService.getCaptureLocation();
 
       recordingIntervalRef.current = setInterval(() => {
         setRecordingTime((prev) => prev + 1);
       }, 1000);
 
-      // react-native-vision-camera video recording
-      // 4K video recording for professional quality
+      // Resolution, frame rate, stabilization and bit rate are camera props;
+      // the codec is chosen per recording
       cameraRef.current.startRecording({
-        flash: flash === "auto" ? "off" : flash, // Video only supports 'on' | 'off'
+        // Video is lit by the torch, which stays under the torch button's control
+        flash: "off",
+        fileType: "mp4",
+        videoCodec: recordingSettings.codec,
         onRecordingFinished: async (video: VisionVideoFile) => {
-          const videoUri = `file://${video.path}`;
-
-          if (videoUri) {
+          if (video.path) {
             const fileName = `lot-${activeLotIdx + 1}-video-${Date.now()}.mp4`;
+            const videoUri = await SessionMediaService.persistCapture(
+              `file://${video.path}`,
+              { sessionId, lotId: currentLot.id, fileName },
+            );
             const newVideo: PhotoFile = {
               uri: videoUri,
               name: fileName,
               type: "video/mp4",
+              width: video.width,
+              height: video.height,
+              duration: video.duration,
+              sizeBytes: SessionMediaService.getMediaSize(videoUri),
+              capturedAt,
+              location,
+              facing,
             };
 
-            setLots((prev) => {
-              const updated = [...prev];
-              updated[activeLotIdx] = {
-                ...updated[activeLotIdx],
-                videoFile: newVideo,
-              };
-              return updated;
-            });
+            // Each recording is added to the lot; earlier ones are kept
+            InspectionStoreService.addVideo(sessionId, currentLot.id, newVideo);
+            onAutoSave?.();
 
             if (mediaPermission?.granted) {
               try {
@@ -2004,13 +3134,15 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     }
   }, [
     activeLotIdx,
-    enableVideoUseCase,
-    flash,
+    facing,
+    forceVideoUseCase,
     isRecording,
     lots,
     maxResolutionMode,
     mediaPermission?.granted,
-    setLots,
+    onAutoSave,
+    recordingSettings.codec,
+    sessionId,
   ]);
 
   useEffect(() => {
@@ -2042,14 +3174,68 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
     }
   }, [isRecording]);
 
-  const toggleFlash = useCallback(() => {
-    setFlash((current) => (current === "off" ? "on" : "off")); // Simple on/off toggle for torch mode
+  // Clip limit: a haptic warning when the indicator starts counting down,
+  // then the recording stops by itself (the clip is kept as usual)
+  useEffect(() => {
+    const { maxDuration } = recordingSettings;
+    if (!isRecording || !maxDuration) return;
+    if (recordingTime === maxDuration - MAX_DURATION_WARNING) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    if (recordingTime === maxDuration) void stopRecording();
+  }, [isRecording, recordingTime, recordingSettings, stopRecording]);
+
+  const toggleRecordingSettings = useCallback(() => {
+    setShowRecordingSettings((open) => {
+      if (!open) {
+        setShotListHidden(true);
+        setShotListChoosing(false);
+      }
+      return !open;
+    });
   }, []);
 
-  const currentLot = lots[activeLotIdx];
+  // Both persisted here rather than in an effect, like the overlay choice
+  const cycleFlash = useCallback(() => {
+    const next =
+      FLASH_MODES[(FLASH_MODES.indexOf(flash) + 1) % FLASH_MODES.length];
+    setFlash(next);
+    AsyncStorage.setItem(CAMERA_FLASH_KEY, next).catch(() => {});
+  }, [flash]);
+
+  const toggleTorch = useCallback(() => {
+    const next = !torchOn;
+    setTorchOn(next);
+    AsyncStorage.setItem(CAMERA_TORCH_KEY, next ? "on" : "off").catch(() => {});
+  }, [torchOn]);
+
+  // Switching cameras mid-recording or mid-sequence would lose the capture.
+  // The new device gets its own format; zoom resets to its 1x and any
+  // macro mode or AE/AF lock from the other camera is dropped.
+  const canSwitchFacing =
+    !!deviceFront &&
+    !isRecording &&
+    !capturing &&
+    !burst &&
+    !bracket &&
+    !timerRun;
+  const toggleFacing = useCallback(() => {
+    if (!canSwitchFacing) return;
+    setMacroMode(false);
+    setFocusLock(null);
+    setExposureAnchor(null);
+    setFacing((current) => (current === "back" ? "front" : "back"));
+  }, [canSwitchFacing]);
+
   const allPhotos: PhotoFile[] = currentLot
     ? [...currentLot.files, ...currentLot.extraFiles]
     : [];
+  const showRetake =
+    !!retakeCandidate &&
+    retakeCandidate.lotId === currentLot?.id &&
+    !capturing &&
+    !burst &&
+    !bracket;
 
   if (!visible) return null;
 
@@ -2241,6 +3427,12 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
               ref={cameraWrapperRef}
               style={[styles.cameraWrapper, styles.cameraWrapperPortrait43]}
               onLayout={handleCameraWrapperLayout}
+              onTouchStart={
+                Platform.OS === "android" ? handleCameraTouchStart : undefined
+              }
+              onTouchMove={
+                Platform.OS === "android" ? handleCameraTouchMove : undefined
+              }
               onTouchEnd={
                 Platform.OS === "android" ? handleCameraTouchEnd : undefined
               }
@@ -2273,13 +3465,22 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                   enableVideoUseCase && enableHdr && format?.supportsVideoHdr
                 }
                 videoBitRate={videoBitRate}
-                torch={flash === "on" ? "on" : "off"}
+                fps={recordingFps}
+                videoStabilizationMode={videoStabilizationMode}
+                torch={torchOn && device?.hasTorch ? "on" : "off"}
                 lowLightBoost={lowLightBoost && device?.supportsLowLightBoost}
                 enableDepthData={
                   portraitMode && selectedFormat?.supportsDepthCapture
                 }
+                codeScanner={scanMode ? codeScanner : undefined}
               />
               <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+                <View
+                  style={[styles.previewOverlay, portraitPreviewRect]}
+                  pointerEvents="none"
+                >
+                  <CompositionOverlay settings={compositionOverlay} />
+                </View>
                 <FocusBox
                   visible={focusOn}
                   isLandscape={false}
@@ -2290,6 +3491,8 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                 <RecordingIndicator
                   isRecording={isRecording}
                   recordingTime={recordingTime}
+                  maxDuration={recordingSettings.maxDuration}
+                  bytesPerSecond={recordingBytesPerSecond}
                 />
 
                 {allPhotos.length > 0 && (
@@ -2307,6 +3510,8 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                       photos={allPhotos}
                       onPress={() => setShowPreview(true)}
                       compact
+                      blurThreshold={blurThreshold}
+                      onRetake={showRetake ? handleRetake : undefined}
                     />
                   </View>
                 )}
@@ -2326,6 +3531,22 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                   />
                 )}
 
+                {exposureAnchor &&
+                  device &&
+                  device.maxExposure > device.minExposure && (
+                    <ExposureControl
+                      point={exposureAnchor}
+                      viewWidth={cameraViewDimensions.width || dimensions.width}
+                      value={exposure}
+                      min={device.minExposure}
+                      max={device.maxExposure}
+                      locked={!!focusLock}
+                      onChange={setExposure}
+                      onSlidingStart={handleExposureSlidingStart}
+                      onSlidingComplete={handleExposureSlidingComplete}
+                    />
+                  )}
+
                 {/* Top Controls */}
                 <View
                   style={[styles.topBar, { paddingTop: insets.top + 4 }]}
@@ -2344,8 +3565,14 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                   <TopControls
                     flash={flash}
                     focusOn={focusOn}
-                    onFlashToggle={toggleFlash}
+                    onFlashToggle={cycleFlash}
+                    flashDisabled={!device?.hasFlash}
+                    torchOn={device?.hasTorch ? torchOn : undefined}
+                    onTorchToggle={toggleTorch}
                     onFocusToggle={() => setFocusOn(!focusOn)}
+                    facing={deviceFront ? facing : undefined}
+                    onFacingToggle={toggleFacing}
+                    facingDisabled={!canSwitchFacing}
                     onDone={onClose}
                     compact
                   />
@@ -2394,8 +3621,94 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                         );
                       })}
                     </View>
-                    {/* Camera Mode Buttons - Low Light & Portrait */}
+                    {/* Camera Mode Buttons - Timer, Low Light & Portrait */}
                     <View style={styles.cameraModeButtons}>
+                      <TouchableOpacity
+                        style={[
+                          styles.cameraModeBtn,
+                          shutterTimer.kind !== "off" &&
+                            styles.cameraModeBtnActive,
+                        ]}
+                        onPress={cycleShutterTimer}
+                      >
+                        {shutterTimer.kind === "off" ? (
+                          <Feather name="clock" size={14} color="#fff" />
+                        ) : (
+                          <Text style={styles.timerBtnText}>
+                            {getShutterTimerLabel(shutterTimer)}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.cameraModeBtn,
+                          bracketOn && styles.cameraModeBtnActive,
+                        ]}
+                        onPress={() => setBracketOn((on) => !on)}
+                      >
+                        <Feather
+                          name="layers"
+                          size={14}
+                          color={bracketOn ? "#FCD34D" : "#fff"}
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.cameraModeBtn,
+                          hasCompositionOverlay(compositionOverlay) &&
+                            styles.cameraModeBtnActive,
+                        ]}
+                        onPress={cycleCompositionOverlay}
+                      >
+                        <Feather
+                          name="grid"
+                          size={14}
+                          color={
+                            hasCompositionOverlay(compositionOverlay)
+                              ? "#FCD34D"
+                              : "#fff"
+                          }
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.cameraModeBtn,
+                          scanMode && styles.cameraModeBtnActive,
+                        ]}
+                        onPress={toggleScanMode}
+                      >
+                        <Feather
+                          name="maximize"
+                          size={14}
+                          color={scanMode ? "#FCD34D" : "#fff"}
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.cameraModeBtn,
+                          showShotList && styles.cameraModeBtnActive,
+                        ]}
+                        onPress={toggleShotList}
+                      >
+                        <Feather
+                          name="check-square"
+                          size={14}
+                          color={showShotList ? "#FCD34D" : "#fff"}
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.cameraModeBtn,
+                          showRecordingSettings && styles.cameraModeBtnActive,
+                        ]}
+                        onPress={toggleRecordingSettings}
+                      >
+                        <Feather
+                          name="film"
+                          size={14}
+                          color={showRecordingSettings ? "#FCD34D" : "#fff"}
+                        />
+                      </TouchableOpacity>
                       {device?.supportsLowLightBoost && (
                         <TouchableOpacity
                           style={[
@@ -2489,7 +3802,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                   {/* Row 1: Capture buttons */}
                   <View style={styles.bottomBarRow}>
                     <CaptureButtons
-                      onCapture={handleCapture}
+                      onCapture={triggerCapture}
+                      onBurstStart={startBurst}
+                      onBurstEnd={stopBurst}
                       disabled={capturing}
                     />
                   </View>
@@ -2500,6 +3815,68 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                     <ActivityIndicator color="#fff" size="large" />
                   </View>
                 )}
+
+                {scanMode && (
+                  <ScanPanel
+                    history={scanHistory}
+                    getLotNumber={getLotNumber}
+                    message={scanMessage}
+                    onClose={toggleScanMode}
+                  />
+                )}
+
+                {showShotList && (
+                  <ShotListChecklist
+                    template={activeShotList ?? null}
+                    templates={shotLists}
+                    takenShots={takenShots}
+                    nextShot={nextShot}
+                    onPickShot={handlePickShot}
+                    onSelectTemplate={handleSelectShotList}
+                    onClose={toggleShotList}
+                  />
+                )}
+
+                {showRecordingSettings && (
+                  <RecordingSettingsPanel
+                    settings={recordingSettings}
+                    formats={device?.formats ?? []}
+                    disabled={videoFormatActive}
+                    onChange={updateRecordingSettings}
+                    onClose={toggleRecordingSettings}
+                  />
+                )}
+
+                <ShutterTimerIndicator
+                  run={timerRun}
+                  onStop={() => setTimerRun(null)}
+                />
+
+                {bracket && (
+                  <BracketReview
+                    frames={bracket.shots.map((shot) => ({
+                      uri: shot.file.uri,
+                      name: shot.file.name,
+                      exposure: shot.exposure,
+                    }))}
+                    merged={bracket.merged}
+                    merging={bracket.merging}
+                    onKeep={finishBracket}
+                    onDiscard={() => finishBracket(null)}
+                  />
+                )}
+
+                {burst && (
+                  <BurstReview
+                    frames={burst.frames}
+                    selected={burst.selected}
+                    running={burst.running}
+                    maxFrames={MAX_BURST_FRAMES}
+                    onToggle={toggleBurstFrame}
+                    onKeep={() => finishBurst(true)}
+                    onDiscard={() => finishBurst(false)}
+                  />
+                )}
               </View>
             </Reanimated.View>
           </GestureDetector>
@@ -2531,6 +3908,12 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
             ref={cameraWrapperRef}
             style={styles.cameraWrapper}
             onLayout={handleCameraWrapperLayout}
+            onTouchStart={
+              Platform.OS === "android" ? handleCameraTouchStart : undefined
+            }
+            onTouchMove={
+              Platform.OS === "android" ? handleCameraTouchMove : undefined
+            }
             onTouchEnd={
               Platform.OS === "android" ? handleCameraTouchEnd : undefined
             }
@@ -2557,14 +3940,18 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                 enableVideoUseCase && enableHdr && format?.supportsVideoHdr
               }
               videoBitRate={videoBitRate}
-              torch={flash === "on" ? "on" : "off"}
+              fps={recordingFps}
+              videoStabilizationMode={videoStabilizationMode}
+              torch={torchOn && device?.hasTorch ? "on" : "off"}
               lowLightBoost={lowLightBoost && device?.supportsLowLightBoost}
               enableDepthData={
                 portraitMode && selectedFormat?.supportsDepthCapture
               }
+              codeScanner={scanMode ? codeScanner : undefined}
             />
 
             <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+              <CompositionOverlay settings={compositionOverlay} />
               <FocusBox
                 visible={focusOn}
                 isLandscape={true}
@@ -2575,6 +3962,8 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
               <RecordingIndicator
                 isRecording={isRecording}
                 recordingTime={recordingTime}
+                maxDuration={recordingSettings.maxDuration}
+                bytesPerSecond={recordingBytesPerSecond}
               />
 
               {/* Tap-to-Focus Indicator */}
@@ -2592,6 +3981,22 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                 />
               )}
 
+              {exposureAnchor &&
+                device &&
+                device.maxExposure > device.minExposure && (
+                  <ExposureControl
+                    point={exposureAnchor}
+                    viewWidth={cameraViewDimensions.width || dimensions.width}
+                    value={exposure}
+                    min={device.minExposure}
+                    max={device.maxExposure}
+                    locked={!!focusLock}
+                    onChange={setExposure}
+                    onSlidingStart={handleExposureSlidingStart}
+                    onSlidingComplete={handleExposureSlidingComplete}
+                  />
+                )}
+
               {/* Top Bar in Landscape - Compact like web */}
               <View
                 style={[
@@ -2631,15 +4036,43 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                 {/* Right Controls - Flash, Focus, Image Thumbnails */}
                 <View style={styles.landscapeTopControls}>
                   <TouchableOpacity
-                    onPress={toggleFlash}
-                    style={styles.topControlBtn}
+                    onPress={cycleFlash}
+                    disabled={!device?.hasFlash}
+                    style={[
+                      styles.topControlBtn,
+                      !device?.hasFlash && styles.topControlBtnDisabled,
+                    ]}
                   >
                     <Feather
                       name={flash === "off" ? "zap-off" : "zap"}
                       size={14}
-                      color={flash === "on" ? "#FCD34D" : "#fff"}
+                      color={
+                        flash === "on"
+                          ? "#FCD34D"
+                          : flash === "auto"
+                            ? "#60A5FA"
+                            : "#fff"
+                      }
                     />
+                    {flash === "auto" && (
+                      <Text style={styles.topControlBtnText}>A</Text>
+                    )}
                   </TouchableOpacity>
+                  {device?.hasTorch && (
+                    <TouchableOpacity
+                      onPress={toggleTorch}
+                      style={[
+                        styles.topControlBtn,
+                        torchOn && styles.topControlBtnTorch,
+                      ]}
+                    >
+                      <Feather
+                        name="sun"
+                        size={14}
+                        color={torchOn ? "#1F2937" : "#fff"}
+                      />
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity
                     onPress={() => setFocusOn(!focusOn)}
                     style={[
@@ -2649,12 +4082,96 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                   >
                     <Feather name="crosshair" size={14} color="#fff" />
                   </TouchableOpacity>
+                  {deviceFront && (
+                    <TouchableOpacity
+                      onPress={toggleFacing}
+                      disabled={!canSwitchFacing}
+                      style={[
+                        styles.topControlBtn,
+                        !canSwitchFacing && styles.topControlBtnDisabled,
+                      ]}
+                    >
+                      <Feather
+                        name="refresh-cw"
+                        size={14}
+                        color={facing === "front" ? "#60A5FA" : "#fff"}
+                      />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    onPress={cycleShutterTimer}
+                    style={styles.topControlBtn}
+                  >
+                    {shutterTimer.kind === "off" ? (
+                      <Feather name="clock" size={14} color="#fff" />
+                    ) : (
+                      <Text style={styles.timerBtnText}>
+                        {getShutterTimerLabel(shutterTimer)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setBracketOn((on) => !on)}
+                    style={styles.topControlBtn}
+                  >
+                    <Feather
+                      name="layers"
+                      size={14}
+                      color={bracketOn ? "#FCD34D" : "#fff"}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={cycleCompositionOverlay}
+                    style={styles.topControlBtn}
+                  >
+                    <Feather
+                      name="grid"
+                      size={14}
+                      color={
+                        hasCompositionOverlay(compositionOverlay)
+                          ? "#FCD34D"
+                          : "#fff"
+                      }
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={toggleScanMode}
+                    style={styles.topControlBtn}
+                  >
+                    <Feather
+                      name="maximize"
+                      size={14}
+                      color={scanMode ? "#FCD34D" : "#fff"}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={toggleShotList}
+                    style={styles.topControlBtn}
+                  >
+                    <Feather
+                      name="check-square"
+                      size={14}
+                      color={showShotList ? "#FCD34D" : "#fff"}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={toggleRecordingSettings}
+                    style={styles.topControlBtn}
+                  >
+                    <Feather
+                      name="film"
+                      size={14}
+                      color={showRecordingSettings ? "#FCD34D" : "#fff"}
+                    />
+                  </TouchableOpacity>
                   {/* Image Thumbnails in Landscape - Stacked Preview */}
                   <View style={styles.landscapeThumbnailWrapper}>
                     <PhotoThumbnails
                       photos={allPhotos}
                       onPress={() => setShowPreview(true)}
                       isLandscape={true}
+                      blurThreshold={blurThreshold}
+                      onRetake={showRetake ? handleRetake : undefined}
                     />
                   </View>
                 </View>
@@ -2700,7 +4217,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                             styles.captureBtnMainLandscapeTight,
                           { height: landscapeRightPanelControlHeights.capture },
                         ]}
-                        onPress={() => handleCapture("single_lot", false)}
+                        onPress={() => triggerCapture("single_lot", false)}
+                        onLongPress={() => startBurst("single_lot", false)}
+                        onPressOut={stopBurst}
                         disabled={capturing}
                       >
                         <Feather name="camera" size={12} color="#fff" />
@@ -2720,7 +4239,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                             styles.captureBtnExtraLandscapeTight,
                           { height: landscapeRightPanelControlHeights.capture },
                         ]}
-                        onPress={() => handleCapture("single_lot", true)}
+                        onPress={() => triggerCapture("single_lot", true)}
+                        onLongPress={() => startBurst("single_lot", true)}
+                        onPressOut={stopBurst}
                         disabled={capturing}
                       >
                         <Text
@@ -2749,7 +4270,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                             styles.captureBtnMainLandscapeTight,
                           { height: landscapeRightPanelControlHeights.capture },
                         ]}
-                        onPress={() => handleCapture("per_item", false)}
+                        onPress={() => triggerCapture("per_item", false)}
+                        onLongPress={() => startBurst("per_item", false)}
+                        onPressOut={stopBurst}
                         disabled={capturing}
                       >
                         <Feather name="camera" size={12} color="#fff" />
@@ -2769,7 +4292,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                             styles.captureBtnExtraLandscapeTight,
                           { height: landscapeRightPanelControlHeights.capture },
                         ]}
-                        onPress={() => handleCapture("per_item", true)}
+                        onPress={() => triggerCapture("per_item", true)}
+                        onLongPress={() => startBurst("per_item", true)}
+                        onPressOut={stopBurst}
                         disabled={capturing}
                       >
                         <Text
@@ -2798,7 +4323,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                             styles.captureBtnMainLandscapeTight,
                           { height: landscapeRightPanelControlHeights.capture },
                         ]}
-                        onPress={() => handleCapture("per_photo", false)}
+                        onPress={() => triggerCapture("per_photo", false)}
+                        onLongPress={() => startBurst("per_photo", false)}
+                        onPressOut={stopBurst}
                         disabled={capturing}
                       >
                         <Feather name="camera" size={12} color="#fff" />
@@ -2818,7 +4345,9 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                             styles.captureBtnExtraLandscapeTight,
                           { height: landscapeRightPanelControlHeights.capture },
                         ]}
-                        onPress={() => handleCapture("per_photo", true)}
+                        onPress={() => triggerCapture("per_photo", true)}
+                        onLongPress={() => startBurst("per_photo", true)}
+                        onPressOut={stopBurst}
                         disabled={capturing}
                       >
                         <Text
@@ -3157,6 +4686,68 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                   <ActivityIndicator color="#fff" size="large" />
                 </View>
               )}
+
+              {scanMode && (
+                <ScanPanel
+                  history={scanHistory}
+                  getLotNumber={getLotNumber}
+                  message={scanMessage}
+                  onClose={toggleScanMode}
+                />
+              )}
+
+              {showShotList && (
+                <ShotListChecklist
+                  template={activeShotList ?? null}
+                  templates={shotLists}
+                  takenShots={takenShots}
+                  nextShot={nextShot}
+                  onPickShot={handlePickShot}
+                  onSelectTemplate={handleSelectShotList}
+                  onClose={toggleShotList}
+                />
+              )}
+
+              {showRecordingSettings && (
+                <RecordingSettingsPanel
+                  settings={recordingSettings}
+                  formats={device?.formats ?? []}
+                  disabled={videoFormatActive}
+                  onChange={updateRecordingSettings}
+                  onClose={toggleRecordingSettings}
+                />
+              )}
+
+              <ShutterTimerIndicator
+                run={timerRun}
+                onStop={() => setTimerRun(null)}
+              />
+
+              {bracket && (
+                <BracketReview
+                  frames={bracket.shots.map((shot) => ({
+                    uri: shot.file.uri,
+                    name: shot.file.name,
+                    exposure: shot.exposure,
+                  }))}
+                  merged={bracket.merged}
+                  merging={bracket.merging}
+                  onKeep={finishBracket}
+                  onDiscard={() => finishBracket(null)}
+                />
+              )}
+
+              {burst && (
+                <BurstReview
+                  frames={burst.frames}
+                  selected={burst.selected}
+                  running={burst.running}
+                  maxFrames={MAX_BURST_FRAMES}
+                  onToggle={toggleBurstFrame}
+                  onKeep={() => finishBurst(true)}
+                  onDiscard={() => finishBurst(false)}
+                />
+              )}
             </View>
           </Reanimated.View>
         </GestureDetector>
@@ -3376,6 +4967,9 @@ const styles = StyleSheet.create({
     fontWeight: "800",
   },
   // Tap-to-focus indicator
+  previewOverlay: {
+    position: "absolute",
+  },
   tapFocusIndicator: {
     position: "absolute",
     width: 80,
@@ -3626,6 +5220,12 @@ const styles = StyleSheet.create({
   topControlBtnActive: {
     backgroundColor: "rgba(239, 68, 68, 0.8)",
   },
+  topControlBtnDisabled: {
+    opacity: 0.4,
+  },
+  topControlBtnTorch: {
+    backgroundColor: "#FCD34D",
+  },
   topControlBtnText: {
     color: "#fff",
     fontSize: 11,
@@ -3766,6 +5366,11 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(0, 0, 0, 0.6)",
     borderColor: "rgba(255, 255, 255, 0.5)",
   },
+  timerBtnText: {
+    color: "#FCD34D",
+    fontSize: 9,
+    fontWeight: "700",
+  },
   // Camera Mode Buttons - Landscape
   cameraModeBtnLandscapeRow: {
     flexDirection: "row",
@@ -44,6 +44,7 @@ import * as Haptics from 'expo-haptics';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { MixedLot, CaptureMode, PhotoFile, createNewLot } from './types';
+import { InspectionStoreService } from '../../services/inspectionStoreService';
 import LotNavigation from './LotNavigation';
 import CaptureButtons from './CaptureButtons';
 import { TopControls, DoneButton } from './TopControls';
@@ -1785,7 +1786,7 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
               const updated = [...prev];
               updated[activeLotIdx] = {
                 ...updated[activeLotIdx],
-                videoFile: newVideo,
+                videos: [...updated[activeLotIdx].videos, newVideo],
               };
               return updated;
             });
@@ -2075,7 +2076,7 @@ const CameraScreen: React.FC<CameraScreenProps> = ({
                 <View style={[styles.topBar, { paddingTop: insets.top + 8 }]}>
                   <DoneButton onDone={onClose} />
                   <LotNavigation
-                    lots={lots}
+                    lots={lots.map(InspectionStoreService.summarizeLot)}
                     activeLotIdx={activeLotIdx}
                     onPrevLot={handlePrevLot}
                     onNextLot={handleNextLot}
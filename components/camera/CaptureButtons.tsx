@@ -5,12 +5,17 @@ import { CaptureMode, MODE_CONFIG } from './types';
 
 interface CaptureButtonsProps {
   onCapture: (mode: CaptureMode, isExtra: boolean) => void;
+  // Holding a button starts a burst; releasing it stops the burst
+  onBurstStart?: (mode: CaptureMode, isExtra: boolean) => void;
+  onBurstEnd?: () => void;
   disabled?: boolean;
   isLandscape?: boolean;
 }
 
 export const CaptureButtons: React.FC<CaptureButtonsProps> = ({
   onCapture,
+  onBurstStart,
+  onBurstEnd,
   disabled = false,
   isLandscape = false,
 }) => {
@@ -20,6 +25,12 @@ export const CaptureButtons: React.FC<CaptureButtonsProps> = ({
     onCapture(mode, isExtra);
   };
 
+  const handleBurstStart = (mode: CaptureMode, isExtra: boolean) => {
+    if (disabled || !onBurstStart) return;
+    Vibration.vibrate(80);
+    onBurstStart(mode, isExtra);
+  };
+
   const modes: CaptureMode[] = ['single_lot', 'per_item', 'per_photo'];
 
   if (isLandscape) {
@@ -30,6 +41,8 @@ export const CaptureButtons: React.FC<CaptureButtonsProps> = ({
             <TouchableOpacity
               style={[styles.captureBtn, styles.captureBtnMain]}
               onPress={() => handleCapture(mode, false)}
+              onLongPress={() => handleBurstStart(mode, false)}
+              onPressOut={onBurstEnd}
               disabled={disabled}>
               <Feather name="camera" size={14} color="#fff" />
               <Text style={styles.captureBtnText}>{MODE_CONFIG[mode].shortLabel}</Text>
@@ -37,6 +50,8 @@ export const CaptureButtons: React.FC<CaptureButtonsProps> = ({
             <TouchableOpacity
               style={[styles.captureBtn, styles.captureBtnExtra]}
               onPress={() => handleCapture(mode, true)}
+              onLongPress={() => handleBurstStart(mode, true)}
+              onPressOut={onBurstEnd}
               disabled={disabled}>
               <Text style={styles.captureBtnTextSmall}>Extra</Text>
             </TouchableOpacity>
@@ -55,6 +70,8 @@ export const CaptureButtons: React.FC<CaptureButtonsProps> = ({
             key={mode}
             style={[styles.captureBtn, styles.captureBtnMain]}
             onPress={() => handleCapture(mode, false)}
+            onLongPress={() => handleBurstStart(mode, false)}
+            onPressOut={onBurstEnd}
             disabled={disabled}>
             <Feather name="camera" size={12} color="#fff" />
             <Text style={styles.captureBtnText}>{MODE_CONFIG[mode].shortLabel}</Text>
@@ -68,6 +85,8 @@ export const CaptureButtons: React.FC<CaptureButtonsProps> = ({
             key={`${mode}-extra`}
             style={[styles.captureBtn, styles.captureBtnExtra]}
             onPress={() => handleCapture(mode, true)}
+            onLongPress={() => handleBurstStart(mode, true)}
+            onPressOut={onBurstEnd}
             disabled={disabled}>
             <Text style={styles.captureBtnTextSmall}>+{MODE_CONFIG[mode].shortLabel}</Text>
           </TouchableOpacity>
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { View, Platform, StyleSheet } from 'react-native';
+import { Accelerometer } from 'expo-sensors';
+
+export interface CompositionOverlaySettings {
+  grid: boolean;
+  crosshair: boolean;
+  level: boolean;
+}
+
+// Order the overlay button cycles through
+export const COMPOSITION_OVERLAY_OPTIONS: CompositionOverlaySettings[] = [
+  { grid: false, crosshair: false, level: false },
+  { grid: true, crosshair: false, level: false },
+  { grid: true, crosshair: false, level: true },
+  { grid: false, crosshair: true, level: true },
+  { grid: true, crosshair: true, level: true },
+];
+
+export const nextCompositionOverlay = (
+  current: CompositionOverlaySettings
+): CompositionOverlaySettings => {
+  const idx = COMPOSITION_OVERLAY_OPTIONS.findIndex(
+    (option) =>
+      option.grid === current.grid &&
+      option.crosshair === current.crosshair &&
+      option.level === current.level
+  );
+  return COMPOSITION_OVERLAY_OPTIONS[(idx + 1) % COMPOSITION_OVERLAY_OPTIONS.length];
+};
+
+export const hasCompositionOverlay = (settings: CompositionOverlaySettings) =>
+  settings.grid || settings.crosshair || settings.level;
+
+// Reads a persisted setting, falling back to no overlays for anything unexpected
+export const parseCompositionOverlay = (value: string | null): CompositionOverlaySettings => {
+  try {
+    const parsed = value ? JSON.parse(value) : null;
+    if (parsed && ['grid', 'crosshair', 'level'].every((k) => typeof parsed[k] === 'boolean')) {
+      return { grid: parsed.grid, crosshair: parsed.crosshair, level: parsed.level };
+    }
+  } catch {
+    // fall through
+  }
+  return COMPOSITION_OVERLAY_OPTIONS[0];
+};
+
+// Degrees from level (or plumb) that still count as straight
+const LEVEL_TOLERANCE_DEG = 1.5;
+// Gravity this close to the screen normal means the phone is held flat (shooting down)
+const FLAT_THRESHOLD = Math.cos((35 * Math.PI) / 180);
+// Low-pass factor for the accelerometer; smooths hand shake out of the level
+const SMOOTHING = 0.2;
+// Bubble travel in px, and how much tilt (as a fraction of g) reaches the edge
+const BUBBLE_RANGE = 40;
+const BUBBLE_GAIN = 4;
+const LEVEL_LINE_WIDTH = 160;
+// expo-sensors reports gravity with opposite signs on Android
+const AXIS_SIGN = Platform.OS === 'android' ? -1 : 1;
+
+type Gravity = { x: number; y: number; z: number };
+
+// Held upright: how far the phone is rotated off the nearest level/plumb
+// orientation. Held flat: the offset of a bubble that floats away from the low side.
+type LevelReading =
+  | { flat: false; tilt: number }
+  | { flat: true; tilt: number; bubbleX: number; bubbleY: number };
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+const LevelIndicator: React.FC = () => {
+  const [reading, setReading] = useState<LevelReading | null>(null);
+
+  useEffect(() => {
+    let smoothed: Gravity | null = null;
+    // Screen rotation (multiple of 90) from the last time the phone was
+    // upright; orients the bubble while it is held flat
+    let uiRotation = 0;
+    Accelerometer.setUpdateInterval(50);
+    const subscription = Accelerometer.addListener(({ x, y, z }) => {
+      const sample = { x: x * AXIS_SIGN, y: y * AXIS_SIGN, z: z * AXIS_SIGN };
+      smoothed = smoothed
+        ? {
+            x: smoothed.x + (sample.x - smoothed.x) * SMOOTHING,
+            y: smoothed.y + (sample.y - smoothed.y) * SMOOTHING,
+            z: smoothed.z + (sample.z - smoothed.z) * SMOOTHING,
+          }
+        : sample;
+      const g = smoothed;
+      const magnitude = Math.sqrt(g.x ** 2 + g.y ** 2 + g.z ** 2) || 1;
+
+      if (Math.abs(g.z) / magnitude <= FLAT_THRESHOLD) {
+        // Clockwise rotation of the phone from upright portrait
+        const roll = toDegrees(Math.atan2(g.x, -g.y));
+        uiRotation = Math.round(roll / 90) * 90;
+        setReading({ flat: false, tilt: roll - uiRotation });
+        return;
+      }
+
+      // Gravity's direction across the screen, rotated into the UI's frame
+      const angle = (uiRotation * Math.PI) / 180;
+      const dx = g.x / magnitude;
+      const dy = -g.y / magnitude;
+      const screenX = dx * Math.cos(angle) - dy * Math.sin(angle);
+      const screenY = dx * Math.sin(angle) + dy * Math.cos(angle);
+      setReading({
+        flat: true,
+        tilt: toDegrees(Math.acos(Math.min(1, Math.abs(g.z) / magnitude))),
+        bubbleX: clampUnit(-screenX * BUBBLE_GAIN) * BUBBLE_RANGE,
+        bubbleY: clampUnit(-screenY * BUBBLE_GAIN) * BUBBLE_RANGE,
+      });
+    });
+    return () => subscription.remove();
+  }, []);
+
+  if (!reading) return null;
+
+  const color = Math.abs(reading.tilt) <= LEVEL_TOLERANCE_DEG ? '#22C55E' : '#fff';
+
+  if (!reading.flat) {
+    return (
+      <View style={styles.levelContainer} pointerEvents="none">
+        <View style={styles.levelTicks}>
+          <View style={[styles.levelTick, { backgroundColor: color }]} />
+          <View style={styles.levelGap} />
+          <View style={[styles.levelTick, { backgroundColor: color }]} />
+        </View>
+        <View
+          style={[
+            styles.levelLine,
+            { backgroundColor: color, transform: [{ rotate: `${-reading.tilt}deg` }] },
+          ]}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.levelContainer} pointerEvents="none">
+      <View style={[styles.bubbleRing, { borderColor: color }]} />
+      <View
+        style={[
+          styles.bubble,
+          {
+            backgroundColor: color,
+            transform: [{ translateX: reading.bubbleX }, { translateY: reading.bubbleY }],
+          },
+        ]}
+      />
+    </View>
+  );
+};
+
+interface CompositionOverlayProps {
+  settings: CompositionOverlaySettings;
+}
+
+// Fills its parent; place it over the visible preview area
+export const CompositionOverlay: React.FC<CompositionOverlayProps> = ({ settings }) => {
+  if (!hasCompositionOverlay(settings)) return null;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {settings.grid && (
+        <>
+          <View style={[styles.gridLineV, { left: '33.33%' }]} />
+          <View style={[styles.gridLineV, { left: '66.67%' }]} />
+          <View style={[styles.gridLineH, { top: '33.33%' }]} />
+          <View style={[styles.gridLineH, { top: '66.67%' }]} />
+        </>
+      )}
+      {settings.crosshair && (
+        <View style={styles.center}>
+          <View style={styles.crosshairH} />
+          <View style={styles.crosshairV} />
+        </View>
+      )}
+      {settings.level && <LevelIndicator />}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  gridLineV: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+    backgroundColor: 'rgba(255,255,255,0.5)',
+  },
+  gridLineH: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: 'rgba(255,255,255,0.5)',
+  },
+  center: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  crosshairH: {
+    position: 'absolute',
+    width: 28,
+    height: 1.5,
+    backgroundColor: 'rgba(255,255,255,0.85)',
+  },
+  crosshairV: {
+    position: 'absolute',
+    width: 1.5,
+    height: 28,
+    backgroundColor: 'rgba(255,255,255,0.85)',
+  },
+  levelContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // Short fixed ticks either side of the line show where level is
+  levelTicks: {
+    position: 'absolute',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  levelTick: {
+    width: 12,
+    height: 2,
+  },
+  levelGap: {
+    width: LEVEL_LINE_WIDTH + 8,
+  },
+  levelLine: {
+    position: 'absolute',
+    width: LEVEL_LINE_WIDTH,
+    height: 2,
+    borderRadius: 1,
+  },
+  bubbleRing: {
+    position: 'absolute',
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1.5,
+  },
+  bubble: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+});
+
+export default CompositionOverlay;
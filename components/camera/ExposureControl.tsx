@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet, GestureResponderEvent } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Feather } from '@expo/vector-icons';
+
+// Length of the vertical exposure track next to the focus indicator
+const TRACK_LENGTH = 140;
+// Half the tap-to-focus indicator (80x80) plus a small gap
+const INDICATOR_OFFSET = 48;
+const CONTROL_WIDTH = 36;
+
+interface ExposureControlProps {
+  // Where focus was last set, in preview view coordinates
+  point: { x: number; y: number };
+  viewWidth: number;
+  value: number;
+  min: number;
+  max: number;
+  locked: boolean;
+  onChange: (value: number) => void;
+  onSlidingStart?: () => void;
+  onSlidingComplete?: () => void;
+}
+
+export const formatExposureBias = (value: number) => {
+  const rounded = Math.round(value * 10) / 10;
+  if (rounded === 0) return '0.0';
+  return `${rounded > 0 ? '+' : ''}${rounded.toFixed(1)}`;
+};
+
+// Keeps touches on the slider from reaching the preview's focus handlers
+const stopTouch = (e: GestureResponderEvent) => e.stopPropagation();
+
+export const ExposureControl: React.FC<ExposureControlProps> = ({
+  point,
+  viewWidth,
+  value,
+  min,
+  max,
+  locked,
+  onChange,
+  onSlidingStart,
+  onSlidingComplete,
+}) => {
+  // Flip to the left of the indicator when there is no room on the right
+  const onRight = point.x + INDICATOR_OFFSET + CONTROL_WIDTH <= viewWidth;
+  const left = onRight ? point.x + INDICATOR_OFFSET : point.x - INDICATOR_OFFSET - CONTROL_WIDTH;
+
+  return (
+    <>
+      {locked && (
+        <View style={[styles.lockBadge, { left: point.x - 48, top: point.y - 70 }]} pointerEvents="none">
+          <Feather name="lock" size={10} color="#111" />
+          <Text style={styles.lockText}>AE/AF LOCK</Text>
+        </View>
+      )}
+      <View
+        style={[styles.container, { left, top: point.y - TRACK_LENGTH / 2 - 14 }]}
+        onTouchStart={stopTouch}
+        onTouchEnd={stopTouch}>
+        <Feather name="sun" size={14} color="#FBBF24" />
+        <View style={styles.track}>
+          <Slider
+            style={styles.slider}
+            minimumValue={min}
+            maximumValue={max}
+            step={0.1}
+            value={value}
+            onValueChange={onChange}
+            onSlidingStart={onSlidingStart}
+            onSlidingComplete={onSlidingComplete}
+            minimumTrackTintColor="#FBBF24"
+            maximumTrackTintColor="rgba(255,255,255,0.5)"
+            thumbTintColor="#FBBF24"
+          />
+        </View>
+        <Text style={styles.valueText}>{formatExposureBias(value)}</Text>
+      </View>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    width: CONTROL_WIDTH,
+    alignItems: 'center',
+  },
+  track: {
+    width: CONTROL_WIDTH,
+    height: TRACK_LENGTH,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // The community slider is horizontal only; rotate it so max is at the top
+  slider: {
+    width: TRACK_LENGTH,
+    height: CONTROL_WIDTH,
+    transform: [{ rotate: '-90deg' }],
+  },
+  valueText: {
+    color: '#FBBF24',
+    fontSize: 10,
+    fontWeight: 'bold',
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  lockBadge: {
+    position: 'absolute',
+    width: 96,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    backgroundColor: '#FBBF24',
+    paddingVertical: 3,
+    borderRadius: 4,
+  },
+  lockText: {
+    color: '#111',
+    fontSize: 10,
+    fontWeight: 'bold',
+    letterSpacing: 0.5,
+  },
+});
+
+export default ExposureControl;
@@ -1,10 +1,11 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Vibration } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-import { MixedLot, getModeLabel } from './types';
+import { LotSummary } from '../../services/inspectionStoreService';
+import { getModeLabel } from './types';
 
 interface LotNavigationProps {
-  lots: MixedLot[];
+  lots: LotSummary[];
   activeLotIdx: number;
   onPrevLot: () => void;
   onNextLot: () => void;
@@ -21,13 +22,10 @@ export const LotNavigation: React.FC<LotNavigationProps> = ({
   compact = false,
 }) => {
   const currentLot = lots[activeLotIdx];
-  const mainCount = currentLot?.files?.length ?? 0;
-  const extraCount = currentLot?.extraFiles?.length ?? 0;
-  const hasVideo = !!currentLot?.videoFile;
-  const totalImages = lots.reduce(
-    (sum, lot) => sum + lot.files.length + lot.extraFiles.length,
-    0
-  );
+  const mainCount = currentLot?.photoCount ?? 0;
+  const extraCount = currentLot?.extraCount ?? 0;
+  const videoCount = currentLot?.videoCount ?? 0;
+  const totalImages = lots.reduce((sum, lot) => sum + lot.photoCount + lot.extraCount, 0);
 
   const handlePrev = () => {
     if (activeLotIdx > 0) {
@@ -76,7 +74,7 @@ export const LotNavigation: React.FC<LotNavigationProps> = ({
 
       <Text style={[styles.statsText, compact && styles.statsTextCompact]}>
         Main: {mainCount} | Extra: {extraCount} | Total: {totalImages}
-        {hasVideo && ' | 🎥'}
+        {videoCount > 0 && ` | 🎥${videoCount > 1 ? ` ${videoCount}` : ''}`}
       </Text>
     </View>
   );
@@ -1,5 +1,7 @@
 import React from 'react';
 import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { SharpnessService } from '../../services/sharpnessService';
 import { PhotoFile } from './types';
 
 interface PhotoThumbnailsProps {
@@ -7,6 +9,10 @@ interface PhotoThumbnailsProps {
   onPress: () => void;
   isLandscape?: boolean;
   compact?: boolean;
+  // Photos whose sharpness score is below this get a blur flag
+  blurThreshold?: number;
+  // Shown as a Retake button while the latest shot is flagged as blurry
+  onRetake?: () => void;
 }
 
 export const PhotoThumbnails: React.FC<PhotoThumbnailsProps> = ({
@@ -14,39 +20,58 @@ export const PhotoThumbnails: React.FC<PhotoThumbnailsProps> = ({
   onPress,
   isLandscape = false,
   compact = false,
+  blurThreshold,
+  onRetake,
 }) => {
   if (photos.length === 0) return null;
 
   const displayPhotos = photos.slice(-3);
 
+  const anyBlurry = displayPhotos.some((photo) =>
+    SharpnessService.isBlurry(photo, blurThreshold),
+  );
+
   return (
-    <TouchableOpacity
+    <View
       style={[
         styles.container,
         isLandscape && styles.containerLandscape,
         compact && styles.containerCompact,
-      ]}
-      onPress={onPress}>
-      <View style={styles.stack}>
-        {displayPhotos.map((photo, idx) => (
-          <Image
-            key={idx}
-            source={{ uri: photo.displayUri ?? photo.uri }}
-            style={[
-              styles.thumb,
-              {
-                right: idx * 6,
-                zIndex: 3 - idx,
-                opacity: 1 - idx * 0.15,
-              },
-            ]}
-          />
-        ))}
-      </View>
-      <View style={styles.count}>
-        <Text style={styles.countText}>{photos.length}</Text>
-      </View>
-    </TouchableOpacity>
+      ]}>
+      <TouchableOpacity style={styles.row} onPress={onPress}>
+        <View style={styles.stack}>
+          {displayPhotos.map((photo, idx) => (
+            <Image
+              key={idx}
+              source={{ uri: photo.displayUri ?? photo.uri }}
+              style={[
+                styles.thumb,
+                SharpnessService.isBlurry(photo, blurThreshold) && styles.thumbBlurry,
+                {
+                  right: idx * 6,
+                  zIndex: 3 - idx,
+                  opacity: 1 - idx * 0.15,
+                },
+              ]}
+            />
+          ))}
+          {anyBlurry && (
+            <View style={styles.blurBadge}>
+              <Feather name="alert-triangle" size={10} color="#fff" />
+            </View>
+          )}
+        </View>
+        <View style={styles.count}>
+          <Text style={styles.countText}>{photos.length}</Text>
+        </View>
+      </TouchableOpacity>
+      {onRetake && (
+        <TouchableOpacity style={styles.retakeBtn} onPress={onRetake}>
+          <Feather name="refresh-ccw" size={12} color="#fff" />
+          <Text style={styles.retakeText}>Blurry · Retake</Text>
+        </TouchableOpacity>
+      )}
+    </View>
   );
 };
 
@@ -63,6 +88,10 @@ const styles = StyleSheet.create({
   containerCompact: {
     marginBottom: 0,
   },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   stack: {
     width: 52,
     height: 52,
@@ -76,6 +105,21 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#fff',
   },
+  thumbBlurry: {
+    borderColor: '#EF4444',
+  },
+  blurBadge: {
+    position: 'absolute',
+    top: -4,
+    left: -4,
+    zIndex: 10,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#EF4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   count: {
     backgroundColor: '#2563EB',
     borderRadius: 12,
@@ -88,6 +132,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  retakeBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 8,
+    backgroundColor: 'rgba(239, 68, 68, 0.9)',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  retakeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
 });
 
 export default PhotoThumbnails;
@@ -1,9 +1,14 @@
 import React, { useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, Animated } from 'react-native';
+import { MAX_DURATION_WARNING } from './RecordingSettings';
 
 interface RecordingIndicatorProps {
   isRecording: boolean;
   recordingTime: number;
+  // Clip limit in seconds; the remaining time is shown when set
+  maxDuration?: number | null;
+  // Expected file growth, for the running size estimate
+  bytesPerSecond?: number;
 }
 
 const formatTime = (seconds: number): string => {
@@ -14,9 +19,16 @@ const formatTime = (seconds: number): string => {
   return `${mins}:${secs}`;
 };
 
+const formatSize = (bytes: number) =>
+  bytes < 1_000_000_000
+    ? `${Math.round(bytes / 1_000_000)} MB`
+    : `${(bytes / 1_000_000_000).toFixed(1)} GB`;
+
 export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({
   isRecording,
   recordingTime,
+  maxDuration,
+  bytesPerSecond,
 }) => {
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
@@ -45,10 +57,21 @@ export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({
 
   if (!isRecording) return null;
 
+  const remaining = maxDuration ? Math.max(0, maxDuration - recordingTime) : null;
+  const warning = remaining !== null && remaining <= MAX_DURATION_WARNING;
+
   return (
-    <View style={styles.container}>
+    <View style={[styles.container, warning && styles.containerWarning]}>
       <Animated.View style={[styles.dot, { opacity: pulseAnim }]} />
       <Text style={styles.text}>REC {formatTime(recordingTime)}</Text>
+      {remaining !== null && (
+        <Text style={styles.detail}>
+          {warning ? `Stops in ${remaining}s` : `${formatTime(remaining)} left`}
+        </Text>
+      )}
+      {bytesPerSecond ? (
+        <Text style={styles.detail}>≈{formatSize(bytesPerSecond * recordingTime)}</Text>
+      ) : null}
     </View>
   );
 };
@@ -65,6 +88,9 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 20,
   },
+  containerWarning: {
+    backgroundColor: 'rgba(180, 83, 9, 0.9)',
+  },
   dot: {
     width: 12,
     height: 12,
@@ -78,6 +104,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     letterSpacing: 0.5,
   },
+  detail: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 10,
+  },
 });
 
 export default RecordingIndicator;
@@ -0,0 +1,415 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  GestureResponderEvent,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { CameraDeviceFormat, VideoStabilizationMode } from 'react-native-vision-camera';
+
+export type VideoCodec = 'h264' | 'h265';
+
+export type VideoBitRateLevel = 'low' | 'normal' | 'high' | 'extra-high';
+
+export interface VideoResolution {
+  width: number;
+  height: number;
+}
+
+export interface RecordingSettings {
+  // Null keeps the format the camera already uses (largest video on Android)
+  resolution: VideoResolution | null;
+  fps: number;
+  codec: VideoCodec;
+  stabilization: VideoStabilizationMode;
+  bitRate: VideoBitRateLevel;
+  // Seconds after which a recording stops by itself; null for no limit
+  maxDuration: number | null;
+}
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  resolution: null,
+  fps: 30,
+  codec: 'h264',
+  stabilization: 'auto',
+  bitRate: 'high',
+  maxDuration: null,
+};
+
+const FPS_OPTIONS = [24, 30, 60, 120, 240];
+const CODEC_OPTIONS: VideoCodec[] = ['h264', 'h265'];
+const BIT_RATE_OPTIONS: VideoBitRateLevel[] = ['low', 'normal', 'high', 'extra-high'];
+const MAX_DURATION_OPTIONS = [null, 30, 60, 120, 300];
+const STABILIZATION_ORDER: VideoStabilizationMode[] = [
+  'off',
+  'auto',
+  'standard',
+  'cinematic',
+  'cinematic-extended',
+];
+
+// Seconds before the clip limit at which the indicator starts warning
+export const MAX_DURATION_WARNING = 10;
+
+const CODEC_LABELS: Record<VideoCodec, string> = { h264: 'H.264', h265: 'H.265' };
+const BIT_RATE_LABELS: Record<VideoBitRateLevel, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  'extra-high': 'Max',
+};
+const STABILIZATION_LABELS: Record<VideoStabilizationMode, string> = {
+  off: 'Off',
+  auto: 'Auto',
+  standard: 'Standard',
+  cinematic: 'Cinematic',
+  'cinematic-extended': 'Cinematic+',
+};
+
+// Same multipliers VisionCamera applies to the encoder's recommended bit rate
+const BIT_RATE_MULTIPLIERS: Record<VideoBitRateLevel, number> = {
+  low: 0.8,
+  normal: 1,
+  high: 1.2,
+  'extra-high': 1.4,
+};
+
+// Rough recommended H.264 rate (~17 Mbps for 1080p30); H.265 needs about 60% of it
+const BITS_PER_PIXEL = 0.27;
+const H265_FACTOR = 0.6;
+const AUDIO_BITS_PER_SECOND = 128_000;
+
+export const formatResolutionLabel = ({ width, height }: VideoResolution) => {
+  const lines = Math.min(width, height);
+  if (lines >= 2160) return '4K';
+  return `${lines}p`;
+};
+
+export const formatClipLength = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Estimated file growth while recording; only a guide, encoders vary by device
+export const estimateVideoBytesPerSecond = (
+  resolution: VideoResolution,
+  fps: number,
+  settings: Pick<RecordingSettings, 'codec' | 'bitRate'>
+) => {
+  const videoBits =
+    resolution.width *
+    resolution.height *
+    fps *
+    BITS_PER_PIXEL *
+    (settings.codec === 'h265' ? H265_FACTOR : 1) *
+    BIT_RATE_MULTIPLIERS[settings.bitRate];
+  return (videoBits + AUDIO_BITS_PER_SECOND) / 8;
+};
+
+const isVideoResolution = (value: unknown): value is VideoResolution =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as VideoResolution).width === 'number' &&
+  typeof (value as VideoResolution).height === 'number';
+
+// Reads a persisted setting; unexpected fields fall back to their defaults
+export const parseRecordingSettings = (value: string | null): RecordingSettings => {
+  try {
+    const parsed = value ? JSON.parse(value) : null;
+    if (parsed && typeof parsed === 'object') {
+      const defaults = DEFAULT_RECORDING_SETTINGS;
+      return {
+        resolution: isVideoResolution(parsed.resolution) ? parsed.resolution : null,
+        fps: FPS_OPTIONS.includes(parsed.fps) ? parsed.fps : defaults.fps,
+        codec: CODEC_OPTIONS.includes(parsed.codec) ? parsed.codec : defaults.codec,
+        stabilization: STABILIZATION_ORDER.includes(parsed.stabilization)
+          ? parsed.stabilization
+          : defaults.stabilization,
+        bitRate: BIT_RATE_OPTIONS.includes(parsed.bitRate) ? parsed.bitRate : defaults.bitRate,
+        maxDuration: MAX_DURATION_OPTIONS.includes(parsed.maxDuration)
+          ? parsed.maxDuration
+          : defaults.maxDuration,
+      };
+    }
+  } catch {
+    // fall through
+  }
+  return DEFAULT_RECORDING_SETTINGS;
+};
+
+const matchesResolution = (format: CameraDeviceFormat, resolution: VideoResolution | null) =>
+  !resolution ||
+  (format.videoWidth === resolution.width && format.videoHeight === resolution.height);
+
+const supportsFps = (format: CameraDeviceFormat, fps: number) =>
+  format.minFps <= fps && fps <= format.maxFps;
+
+// Distinct video sizes the device records, largest first
+export const getVideoResolutions = (formats: CameraDeviceFormat[] = []): VideoResolution[] => {
+  const seen = new Set<string>();
+  return formats
+    .filter((f) => f.videoWidth > 0 && f.videoHeight > 0)
+    .sort((a, b) => b.videoWidth * b.videoHeight - a.videoWidth * a.videoHeight)
+    .flatMap((f) => {
+      const key = `${f.videoWidth}x${f.videoHeight}`;
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [{ width: f.videoWidth, height: f.videoHeight }];
+    });
+};
+
+const getFpsOptions = (formats: CameraDeviceFormat[], resolution: VideoResolution | null) =>
+  FPS_OPTIONS.filter((fps) =>
+    formats.some((f) => matchesResolution(f, resolution) && supportsFps(f, fps))
+  );
+
+const getStabilizationOptions = (
+  formats: CameraDeviceFormat[],
+  resolution: VideoResolution | null,
+  fps: number
+) => {
+  const modes = new Set<VideoStabilizationMode>(['off']);
+  formats
+    .filter((f) => matchesResolution(f, resolution) && supportsFps(f, fps))
+    .forEach((f) => f.videoStabilizationModes.forEach((mode) => modes.add(mode)));
+  return STABILIZATION_ORDER.filter((mode) => modes.has(mode));
+};
+
+// Format to record with when a resolution is chosen: that size at the chosen
+// frame rate, preferring stabilization support and then the largest photos.
+// Undefined when nothing is chosen or this camera doesn't offer the size.
+export const pickRecordingFormat = (
+  formats: CameraDeviceFormat[] | undefined,
+  settings: RecordingSettings
+) => {
+  if (!formats || !settings.resolution) return undefined;
+  const sized = formats.filter((f) => matchesResolution(f, settings.resolution));
+  const atFps = sized.filter((f) => supportsFps(f, settings.fps));
+  const pool = atFps.length > 0 ? atFps : sized;
+  return [...pool].sort(
+    (a, b) =>
+      Number(b.videoStabilizationModes.includes(settings.stabilization)) -
+        Number(a.videoStabilizationModes.includes(settings.stabilization)) ||
+      b.photoWidth * b.photoHeight - a.photoWidth * a.photoHeight
+  )[0];
+};
+
+// Keeps taps on the panel from reaching the preview's focus handlers
+const stopTouch = (e: GestureResponderEvent) => e.stopPropagation();
+
+interface ChipRowProps<T> {
+  label: string;
+  options: T[];
+  selected: T;
+  getLabel: (option: T) => string;
+  isSame?: (a: T, b: T) => boolean;
+  onSelect: (option: T) => void;
+  disabled: boolean;
+}
+
+const ChipRow = <T,>({
+  label,
+  options,
+  selected,
+  getLabel,
+  isSame = (a, b) => a === b,
+  onSelect,
+  disabled,
+}: ChipRowProps<T>) => (
+  <View style={styles.section}>
+    <Text style={styles.sectionLabel}>{label}</Text>
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const active = isSame(option, selected);
+        return (
+          <TouchableOpacity
+            key={getLabel(option)}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onSelect(option)}
+            disabled={disabled || active}>
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>
+              {getLabel(option)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  </View>
+);
+
+interface RecordingSettingsPanelProps {
+  settings: RecordingSettings;
+  formats: CameraDeviceFormat[];
+  // Settings can't change while a clip is being recorded
+  disabled: boolean;
+  onChange: (settings: RecordingSettings) => void;
+  onClose: () => void;
+}
+
+export const RecordingSettingsPanel: React.FC<RecordingSettingsPanelProps> = ({
+  settings,
+  formats,
+  disabled,
+  onChange,
+  onClose,
+}) => {
+  const resolutions = getVideoResolutions(formats);
+  const fpsOptions = getFpsOptions(formats, settings.resolution);
+  const stabilizationOptions = getStabilizationOptions(formats, settings.resolution, settings.fps);
+  const estimateSize = settings.resolution ?? resolutions[0];
+  const mbPerMinute = estimateSize
+    ? (estimateVideoBytesPerSecond(estimateSize, settings.fps, settings) * 60) / 1_000_000
+    : null;
+
+  // A new size or frame rate may not offer the current choices; fall back to
+  // what it does support
+  const update = (patch: Partial<RecordingSettings>) => {
+    const next = { ...settings, ...patch };
+    const nextFps = getFpsOptions(formats, next.resolution);
+    if (nextFps.length > 0 && !nextFps.includes(next.fps)) {
+      next.fps = nextFps.includes(30) ? 30 : nextFps[0];
+    }
+    if (!getStabilizationOptions(formats, next.resolution, next.fps).includes(next.stabilization)) {
+      next.stabilization = 'off';
+    }
+    onChange(next);
+  };
+
+  return (
+    <View style={styles.panel} onTouchStart={stopTouch} onTouchEnd={stopTouch}>
+      <View style={styles.header}>
+        <Feather name="film" size={14} color="#FCD34D" />
+        <Text style={styles.title}>Video</Text>
+        {mbPerMinute !== null && (
+          <Text style={styles.estimate}>≈{Math.round(mbPerMinute)} MB/min</Text>
+        )}
+        <TouchableOpacity style={styles.closeBtn} onPress={onClose}>
+          <Feather name="x" size={14} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        <ChipRow
+          label="Resolution"
+          options={[null, ...resolutions]}
+          selected={settings.resolution}
+          getLabel={(option) =>
+            option ? `${formatResolutionLabel(option)} ${option.width}x${option.height}` : 'Auto'
+          }
+          isSame={(a, b) => a?.width === b?.width && a?.height === b?.height}
+          onSelect={(resolution) => update({ resolution })}
+          disabled={disabled}
+        />
+        <ChipRow
+          label="Frame rate"
+          options={fpsOptions}
+          selected={settings.fps}
+          getLabel={(fps) => `${fps} fps`}
+          onSelect={(fps) => update({ fps })}
+          disabled={disabled}
+        />
+        <ChipRow
+          label="Codec"
+          options={CODEC_OPTIONS}
+          selected={settings.codec}
+          getLabel={(codec) => CODEC_LABELS[codec]}
+          onSelect={(codec) => update({ codec })}
+          disabled={disabled}
+        />
+        <ChipRow
+          label="Stabilization"
+          options={stabilizationOptions}
+          selected={settings.stabilization}
+          getLabel={(mode) => STABILIZATION_LABELS[mode]}
+          onSelect={(stabilization) => update({ stabilization })}
+          disabled={disabled}
+        />
+        <ChipRow
+          label="Bit rate"
+          options={BIT_RATE_OPTIONS}
+          selected={settings.bitRate}
+          getLabel={(level) => BIT_RATE_LABELS[level]}
+          onSelect={(bitRate) => update({ bitRate })}
+          disabled={disabled}
+        />
+        <ChipRow
+          label="Max length"
+          options={MAX_DURATION_OPTIONS}
+          selected={settings.maxDuration}
+          getLabel={(seconds) => (seconds === null ? 'No limit' : formatClipLength(seconds))}
+          onSelect={(maxDuration) => update({ maxDuration })}
+          disabled={disabled}
+        />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    top: 100,
+    left: 12,
+    width: 250,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  estimate: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 11,
+  },
+  closeBtn: {
+    padding: 4,
+  },
+  list: {
+    maxHeight: 280,
+    marginTop: 4,
+  },
+  section: {
+    marginTop: 6,
+  },
+  sectionLabel: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  chipActive: {
+    backgroundColor: '#FCD34D',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#111',
+  },
+});
+
+export default RecordingSettingsPanel;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, GestureResponderEvent } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { ScanRecord } from '../../services/inspectionStoreService';
+
+// Scans listed under the reticle; the full history stays in the store
+const VISIBLE_HISTORY = 4;
+
+interface ScanPanelProps {
+  history: ScanRecord[];
+  // Lot number (1-based) for a lot id, or null when the lot is gone
+  getLotNumber: (lotId: string) => number | null;
+  // Result of the last scan, e.g. "Jumped to Lot 3"
+  message: string | null;
+  onClose: () => void;
+}
+
+// Keeps taps on the panel from reaching the preview's focus handlers
+const stopTouch = (e: GestureResponderEvent) => e.stopPropagation();
+
+const describeScan = (scan: ScanRecord, lotNumber: number | null) => {
+  const lot = lotNumber ? `Lot ${lotNumber}` : 'removed lot';
+  if (scan.action === 'jump') return `→ ${lot}`;
+  if (scan.action === 'tagged') return `tagged ${lot}`;
+  return 'ignored';
+};
+
+export const ScanPanel: React.FC<ScanPanelProps> = ({
+  history,
+  getLotNumber,
+  message,
+  onClose,
+}) => {
+  return (
+    <>
+      <View style={styles.reticleContainer} pointerEvents="none">
+        <View style={styles.reticle}>
+          <View style={[styles.corner, styles.cornerTopLeft]} />
+          <View style={[styles.corner, styles.cornerTopRight]} />
+          <View style={[styles.corner, styles.cornerBottomLeft]} />
+          <View style={[styles.corner, styles.cornerBottomRight]} />
+        </View>
+        <Text style={styles.reticleHint}>QR · Code 128 · Code 39 · DataMatrix</Text>
+      </View>
+
+      <View style={styles.panel} onTouchStart={stopTouch} onTouchEnd={stopTouch}>
+        <View style={styles.header}>
+          <Feather name="maximize" size={14} color="#FCD34D" />
+          <Text style={styles.title}>{message ?? 'Point at an asset tag or lot label'}</Text>
+          <TouchableOpacity style={styles.closeBtn} onPress={onClose}>
+            <Feather name="x" size={14} color="#fff" />
+          </TouchableOpacity>
+        </View>
+        {history.slice(0, VISIBLE_HISTORY).map((scan) => (
+          <View key={scan.id} style={styles.row}>
+            <Text style={styles.rowValue} numberOfLines={1}>
+              {scan.value}
+            </Text>
+            <Text style={styles.rowAction}>
+              {describeScan(scan, scan.lotId ? getLotNumber(scan.lotId) : null)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </>
+  );
+};
+
+const CORNER = 26;
+
+const styles = StyleSheet.create({
+  reticleContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reticle: {
+    width: 220,
+    height: 220,
+  },
+  corner: {
+    position: 'absolute',
+    width: CORNER,
+    height: CORNER,
+    borderColor: '#FCD34D',
+  },
+  cornerTopLeft: {
+    top: 0,
+    left: 0,
+    borderTopWidth: 3,
+    borderLeftWidth: 3,
+  },
+  cornerTopRight: {
+    top: 0,
+    right: 0,
+    borderTopWidth: 3,
+    borderRightWidth: 3,
+  },
+  cornerBottomLeft: {
+    bottom: 0,
+    left: 0,
+    borderBottomWidth: 3,
+    borderLeftWidth: 3,
+  },
+  cornerBottomRight: {
+    bottom: 0,
+    right: 0,
+    borderBottomWidth: 3,
+    borderRightWidth: 3,
+  },
+  reticleHint: {
+    marginTop: 10,
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  panel: {
+    position: 'absolute',
+    top: 100,
+    alignSelf: 'center',
+    width: 280,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  closeBtn: {
+    padding: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginTop: 6,
+  },
+  rowValue: {
+    flex: 1,
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  rowAction: {
+    color: '#FCD34D',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
+
+export default ScanPanel;
@@ -0,0 +1,200 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  GestureResponderEvent,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { ShotListTemplate } from '../../services/shotListService';
+
+interface ShotListChecklistProps {
+  // Null when the lot has no shot list yet; the panel then offers the templates
+  template: ShotListTemplate | null;
+  templates: ShotListTemplate[];
+  takenShots: string[];
+  // Shot the next capture is assigned to
+  nextShot: string | null;
+  onPickShot: (shotId: string) => void;
+  onSelectTemplate: (templateId: string | null) => void;
+  onClose: () => void;
+}
+
+// Keeps taps on the panel from reaching the preview's focus handlers
+const stopTouch = (e: GestureResponderEvent) => e.stopPropagation();
+
+export const ShotListChecklist: React.FC<ShotListChecklistProps> = ({
+  template,
+  templates,
+  takenShots,
+  nextShot,
+  onPickShot,
+  onSelectTemplate,
+  onClose,
+}) => {
+  const [choosing, setChoosing] = React.useState(false);
+  const showTemplates = choosing || !template;
+  const taken = new Set(takenShots);
+  const takenCount = template ? template.shots.filter((shot) => taken.has(shot.id)).length : 0;
+
+  return (
+    <View style={styles.panel} onTouchStart={stopTouch} onTouchEnd={stopTouch}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.titleBtn}
+          onPress={() => setChoosing((value) => !value)}
+          disabled={!template}>
+          <Text style={styles.title} numberOfLines={1}>
+            {template ? template.name : 'Shot list'}
+          </Text>
+          {template && (
+            <Text style={styles.count}>
+              {takenCount}/{template.shots.length}
+            </Text>
+          )}
+          {template && (
+            <Feather name={choosing ? 'chevron-up' : 'chevron-down'} size={14} color="#fff" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.closeBtn} onPress={onClose}>
+          <Feather name="x" size={14} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        {showTemplates ? (
+          <>
+            {templates.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={styles.row}
+                onPress={() => {
+                  setChoosing(false);
+                  onSelectTemplate(option.id);
+                }}>
+                <Feather
+                  name={option.id === template?.id ? 'check-circle' : 'circle'}
+                  size={14}
+                  color={option.id === template?.id ? '#FCD34D' : 'rgba(255,255,255,0.6)'}
+                />
+                <Text style={styles.rowText} numberOfLines={1}>
+                  {option.name}
+                </Text>
+                <Text style={styles.rowHint}>{option.shots.length}</Text>
+              </TouchableOpacity>
+            ))}
+            {template && (
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => {
+                  setChoosing(false);
+                  onSelectTemplate(null);
+                }}>
+                <Feather name="slash" size={14} color="rgba(255,255,255,0.6)" />
+                <Text style={styles.rowText}>No shot list</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        ) : (
+          template.shots.map((shot) => {
+            const done = taken.has(shot.id);
+            const next = shot.id === nextShot;
+            return (
+              <TouchableOpacity
+                key={shot.id}
+                style={[styles.row, next && styles.rowNext]}
+                onPress={() => onPickShot(shot.id)}>
+                <Feather
+                  name={next ? 'chevrons-right' : done ? 'check-circle' : 'circle'}
+                  size={14}
+                  color={next ? '#111' : done ? '#22C55E' : 'rgba(255,255,255,0.6)'}
+                />
+                <Text
+                  style={[
+                    styles.rowText,
+                    done && !next && styles.rowTextDone,
+                    next && styles.rowTextNext,
+                  ]}
+                  numberOfLines={1}>
+                  {shot.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    top: 100,
+    left: 12,
+    width: 210,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  titleBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    flexShrink: 1,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  count: {
+    color: '#FCD34D',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  closeBtn: {
+    padding: 4,
+  },
+  list: {
+    maxHeight: 240,
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 5,
+    paddingHorizontal: 6,
+    borderRadius: 6,
+  },
+  rowNext: {
+    backgroundColor: '#FCD34D',
+  },
+  rowText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  rowTextDone: {
+    color: 'rgba(255,255,255,0.6)',
+  },
+  rowTextNext: {
+    color: '#111',
+  },
+  rowHint: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+  },
+});
+
+export default ShotListChecklist;
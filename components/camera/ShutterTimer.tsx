@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+
+// Self-timer delays a single shot; interval keeps shooting every `seconds` until stopped
+export type ShutterTimerSetting =
+  | { kind: 'off' }
+  | { kind: 'delay'; seconds: number }
+  | { kind: 'interval'; seconds: number };
+
+// Order the timer button cycles through
+export const SHUTTER_TIMER_OPTIONS: ShutterTimerSetting[] = [
+  { kind: 'off' },
+  { kind: 'delay', seconds: 3 },
+  { kind: 'delay', seconds: 5 },
+  { kind: 'delay', seconds: 10 },
+  { kind: 'interval', seconds: 5 },
+  { kind: 'interval', seconds: 10 },
+  { kind: 'interval', seconds: 30 },
+];
+
+export const getShutterTimerLabel = (setting: ShutterTimerSetting) => {
+  if (setting.kind === 'off') return null;
+  return setting.kind === 'interval' ? `↻${setting.seconds}s` : `${setting.seconds}s`;
+};
+
+export const nextShutterTimer = (current: ShutterTimerSetting): ShutterTimerSetting => {
+  const label = getShutterTimerLabel(current);
+  const idx = SHUTTER_TIMER_OPTIONS.findIndex((option) => getShutterTimerLabel(option) === label);
+  return SHUTTER_TIMER_OPTIONS[(idx + 1) % SHUTTER_TIMER_OPTIONS.length];
+};
+
+// A countdown or interval in progress
+export interface ShutterTimerRun {
+  kind: 'delay' | 'interval';
+  seconds: number;
+  // Seconds until the next shot
+  remaining: number;
+  // Shots taken so far (interval only)
+  shots: number;
+}
+
+interface ShutterTimerIndicatorProps {
+  run: ShutterTimerRun | null;
+  onStop: () => void;
+}
+
+export const ShutterTimerIndicator: React.FC<ShutterTimerIndicatorProps> = ({ run, onStop }) => {
+  if (!run) return null;
+
+  if (run.kind === 'delay') {
+    return (
+      <View style={styles.countdownContainer} pointerEvents="box-none">
+        <Text style={styles.countdownText}>{run.remaining}</Text>
+        <TouchableOpacity style={styles.stopBtn} onPress={onStop}>
+          <Feather name="x" size={14} color="#fff" />
+          <Text style={styles.stopText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.intervalContainer}>
+      <Feather name="repeat" size={14} color="#FCD34D" />
+      <Text style={styles.intervalText}>
+        Every {run.seconds}s · {run.shots} shot{run.shots !== 1 ? 's' : ''} · next in{' '}
+        {run.remaining}s
+      </Text>
+      <TouchableOpacity style={styles.stopBtn} onPress={onStop}>
+        <Feather name="square" size={12} color="#fff" />
+        <Text style={styles.stopText}>Stop</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  countdownContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countdownText: {
+    color: '#fff',
+    fontSize: 120,
+    fontWeight: 'bold',
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 8,
+  },
+  intervalContainer: {
+    position: 'absolute',
+    top: 100,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    paddingLeft: 14,
+    paddingRight: 6,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  intervalText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  stopBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'rgba(239, 68, 68, 0.85)',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  stopText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
+
+export default ShutterTimerIndicator;
@@ -1,14 +1,22 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-
-type FlashMode = 'off' | 'on' | 'auto';
+import { CameraFacing, FlashMode } from './types';
 
 interface TopControlsProps {
   flash: FlashMode;
   focusOn: boolean;
   onFlashToggle: () => void;
+  // No flash on this camera (e.g. most front cameras)
+  flashDisabled?: boolean;
+  // Leave torchOn undefined to hide the torch button (no torch)
+  torchOn?: boolean;
+  onTorchToggle?: () => void;
   onFocusToggle: () => void;
+  // Leave facing undefined to hide the switch (no front camera)
+  facing?: CameraFacing;
+  onFacingToggle?: () => void;
+  facingDisabled?: boolean;
   onDone: () => void;
   isLandscape?: boolean;
   compact?: boolean;
@@ -20,6 +28,12 @@ const FLASH_ICONS: Record<FlashMode, string> = {
   off: 'zap-off',
 };
 
+const FLASH_COLORS: Record<FlashMode, string> = {
+  on: '#FCD34D',
+  auto: '#60A5FA',
+  off: '#fff',
+};
+
 const FLASH_LABELS: Record<FlashMode, string> = {
   on: 'ON',
   auto: 'AUTO',
@@ -30,24 +44,57 @@ export const TopControls: React.FC<TopControlsProps> = ({
   flash,
   focusOn,
   onFlashToggle,
+  flashDisabled = false,
+  torchOn,
+  onTorchToggle,
   onFocusToggle,
+  facing,
+  onFacingToggle,
+  facingDisabled = false,
   onDone,
   isLandscape = false,
   compact = false,
 }) => {
   return (
     <View style={[styles.rightControls, compact && styles.rightControlsCompact]}>
-      <TouchableOpacity onPress={onFlashToggle} style={[styles.controlBtn, compact && styles.controlBtnCompact]}>
+      <TouchableOpacity
+        onPress={onFlashToggle}
+        disabled={flashDisabled}
+        style={[
+          styles.controlBtn,
+          compact && styles.controlBtnCompact,
+          flashDisabled && styles.controlBtnDisabled,
+        ]}>
         <Feather
           name={FLASH_ICONS[flash] as any}
           size={compact ? 18 : 22}
-          color={flash === 'on' ? '#FCD34D' : '#fff'}
+          color={FLASH_COLORS[flash]}
         />
         <Text style={[styles.controlLabel, compact && styles.controlLabelCompact]}>
           {FLASH_LABELS[flash]}
         </Text>
       </TouchableOpacity>
 
+      {torchOn !== undefined && (
+        <TouchableOpacity
+          onPress={onTorchToggle}
+          style={[
+            styles.controlBtn,
+            compact && styles.controlBtnCompact,
+            torchOn && styles.controlBtnTorch,
+          ]}>
+          <Feather name="sun" size={compact ? 18 : 22} color={torchOn ? '#1F2937' : '#fff'} />
+          <Text
+            style={[
+              styles.controlLabel,
+              compact && styles.controlLabelCompact,
+              torchOn && styles.controlLabelTorch,
+            ]}>
+            Torch
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <TouchableOpacity
         onPress={onFocusToggle}
         style={[
@@ -65,6 +112,26 @@ export const TopControls: React.FC<TopControlsProps> = ({
           Focus
         </Text>
       </TouchableOpacity>
+
+      {facing && (
+        <TouchableOpacity
+          onPress={onFacingToggle}
+          disabled={facingDisabled}
+          style={[
+            styles.controlBtn,
+            compact && styles.controlBtnCompact,
+            facingDisabled && styles.controlBtnDisabled,
+          ]}>
+          <Feather
+            name="refresh-cw"
+            size={compact ? 18 : 22}
+            color={facing === 'front' ? '#60A5FA' : '#fff'}
+          />
+          <Text style={[styles.controlLabel, compact && styles.controlLabelCompact]}>
+            {facing === 'front' ? 'Front' : 'Back'}
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -107,6 +174,12 @@ const styles = StyleSheet.create({
   controlBtnActive: {
     backgroundColor: 'rgba(239, 68, 68, 0.7)',
   },
+  controlBtnDisabled: {
+    opacity: 0.4,
+  },
+  controlBtnTorch: {
+    backgroundColor: '#FCD34D',
+  },
   controlLabel: {
     color: '#fff',
     fontSize: 10,
@@ -119,6 +192,10 @@ const styles = StyleSheet.create({
   controlLabelActive: {
     fontWeight: 'bold',
   },
+  controlLabelTorch: {
+    color: '#1F2937',
+    fontWeight: 'bold',
+  },
   doneBtn: {
     padding: 10,
     alignItems: 'center',
@@ -7,4 +7,12 @@ export { default as RecordButton } from './RecordButton';
 export { default as FocusBox } from './FocusBox';
 export { default as PhotoThumbnails } from './PhotoThumbnails';
 export { default as RecordingIndicator } from './RecordingIndicator';
+export { default as BurstReview } from './BurstReview';
+export { default as BracketReview } from './BracketReview';
+export * from './ShutterTimer';
+export * from './CompositionOverlay';
+export * from './RecordingSettings';
+export { default as ExposureControl } from './ExposureControl';
+export { default as ScanPanel } from './ScanPanel';
+export { default as ShotListChecklist } from './ShotListChecklist';
 export { default as CameraScreen } from './CameraScreen';
@@ -1,5 +1,37 @@
 export type CaptureMode = 'single_lot' | 'per_item' | 'per_photo';
 
+export interface BracketFrame {
+  uri: string;
+  name: string;
+  // Exposure offset (EV) from the base exposure the series was shot at
+  exposure: number;
+}
+
+// An exposure-bracketed series stored with the photo it produced
+export interface PhotoBracket {
+  id: string;
+  // Offsets of the whole series in capture order
+  exposures: number[];
+  // Individual frames kept with the photo; empty when only the merge was kept
+  frames: BracketFrame[];
+  // Whether `uri` is the tone-merged result rather than the 0 EV frame
+  merged: boolean;
+}
+
+// Where the device was when a photo or video was taken; accuracy and altitude
+// are in meters and only present when the platform reports them
+export interface CaptureLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  altitude?: number;
+}
+
+export type CameraFacing = 'front' | 'back';
+
+// Capture flash for photos; the torch is a separate on/off setting
+export type FlashMode = 'off' | 'on' | 'auto';
+
 export interface PhotoFile {
   uri: string;
   displayUri?: string;
@@ -15,6 +47,47 @@ export interface PhotoFile {
     sharpness: number;
     detail: number;
   };
+  bracket?: PhotoBracket;
+  // Laplacian variance of a downscaled copy, weighted toward focusBox; low means soft
+  sharpness?: number;
+  // Id of the shot-list shot this photo was taken for
+  shot?: string;
+  // ISO time the shutter fired (or the recording started)
+  capturedAt?: string;
+  location?: CaptureLocation;
+  // Camera the photo or video was taken with
+  facing?: CameraFacing;
+  // Videos only: length in seconds and file size on disk
+  duration?: number;
+  sizeBytes?: number;
+}
+
+// What a code or reading recorded against a lot identifies
+export type LotIdentifierKind = 'asset' | 'serial' | 'vin' | 'hour_meter' | 'odometer';
+
+export const LOT_IDENTIFIER_LABELS: Record<LotIdentifierKind, string> = {
+  asset: 'Asset ID',
+  serial: 'Serial No.',
+  vin: 'VIN',
+  hour_meter: 'Hour Meter',
+  odometer: 'Odometer',
+};
+
+// Kinds a lot holds at most one of, edited as fields in LotManager; asset IDs
+// are a list that grows as tags are scanned
+export const LOT_IDENTIFIER_FIELDS: LotIdentifierKind[] = [
+  'vin',
+  'serial',
+  'hour_meter',
+  'odometer',
+];
+
+export interface LotIdentifier {
+  kind: LotIdentifierKind;
+  value: string;
+  // Barcode symbology it was scanned from (e.g. 'qr', 'code-128'); absent when typed in
+  codeType?: string;
+  addedAt: string;
 }
 
 export interface MixedLot {
@@ -23,32 +96,40 @@ export interface MixedLot {
   files: PhotoFile[];
   extraFiles: PhotoFile[];
   coverIndex: number;
-  videoFile?: PhotoFile;
+  // Walk-around videos in display order
+  videos: PhotoFile[];
+  identifiers?: LotIdentifier[];
+  // Shot-list template (asset category) whose shots this lot is checked against
+  shotListId?: string;
 }
 
 export interface CameraSettings {
-  flash: 'off' | 'on' | 'auto';
+  flash: FlashMode;
+  torch: boolean;
   zoom: number;
   focusOn: boolean;
-  facing: 'front' | 'back';
+  facing: CameraFacing;
 }
 
 export const MODE_CONFIG = {
   single_lot: {
     label: 'Bundle',
     shortLabel: 'Bundle',
+    fileLabel: 'bundle',
     color: '#F43F5E',
     description: 'All images = 1 lot',
   },
   per_item: {
     label: 'Per Item',
     shortLabel: 'Item',
+    fileLabel: 'item',
     color: '#F43F5E',
     description: 'AI identifies items',
   },
   per_photo: {
     label: 'Per Photo',
     shortLabel: 'Photo',
+    fileLabel: 'photo',
     color: '#F43F5E',
     description: '1 image = 1 item',
   },
@@ -64,4 +145,5 @@ export const createNewLot = (): MixedLot => ({
   files: [],
   extraFiles: [],
   coverIndex: 0,
+  videos: [],
 });
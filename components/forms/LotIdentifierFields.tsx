@@ -0,0 +1,207 @@
+import React, { memo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, KeyboardTypeOptions } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import {
+  LOT_IDENTIFIER_FIELDS,
+  LOT_IDENTIFIER_LABELS,
+  LotIdentifier,
+  LotIdentifierKind,
+} from '../camera/types';
+import { IdentifierService } from '../../services/identifierService';
+import { InspectionStoreService } from '../../services/inspectionStoreService';
+
+const FIELD_PLACEHOLDERS: Partial<Record<LotIdentifierKind, string>> = {
+  vin: '17 characters',
+  serial: 'As on the serial plate',
+  hour_meter: 'Hours',
+  odometer: 'Miles / km',
+};
+
+const FIELD_KEYBOARDS: Partial<Record<LotIdentifierKind, KeyboardTypeOptions>> = {
+  hour_meter: 'decimal-pad',
+  odometer: 'decimal-pad',
+};
+
+interface LotIdentifierFieldsProps {
+  sessionId: string;
+  lotId: string;
+  identifiers: LotIdentifier[];
+}
+
+// VIN, serial and meter readings for one lot, typed in or filled by a scan.
+// Values are saved when editing ends; invalid ones stay saved but are flagged.
+const LotIdentifierFields = memo(function LotIdentifierFields({
+  sessionId,
+  lotId,
+  identifiers,
+}: LotIdentifierFieldsProps) {
+  // Text being edited, per field; cleared once it is saved
+  const [drafts, setDrafts] = useState<Partial<Record<LotIdentifierKind, string>>>({});
+
+  const assetIds = identifiers.filter((identifier) => identifier.kind === 'asset');
+
+  const commit = (kind: LotIdentifierKind) => {
+    const draft = drafts[kind];
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[kind];
+      return next;
+    });
+    if (draft === undefined) return;
+    const value = IdentifierService.normalizeIdentifier(kind, draft);
+    const current = identifiers.find((identifier) => identifier.kind === kind);
+    if (value === (current?.value ?? '')) return;
+    InspectionStoreService.setLotIdentifier(
+      sessionId,
+      lotId,
+      kind,
+      value ? { kind, value, addedAt: new Date().toISOString() } : null
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel}>Identifiers:</Text>
+      {LOT_IDENTIFIER_FIELDS.map((kind) => {
+        const stored = identifiers.find((identifier) => identifier.kind === kind);
+        const editing = drafts[kind] !== undefined;
+        const error =
+          stored && !editing ? IdentifierService.validateIdentifier(kind, stored.value) : null;
+        const vinInfo =
+          kind === 'vin' && stored && !editing && !error
+            ? IdentifierService.decodeVin(stored.value)
+            : null;
+        return (
+          <View key={kind} style={styles.field}>
+            <View style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{LOT_IDENTIFIER_LABELS[kind]}</Text>
+              <TextInput
+                style={[styles.input, error && styles.inputInvalid]}
+                value={drafts[kind] ?? stored?.value ?? ''}
+                placeholder={FIELD_PLACEHOLDERS[kind]}
+                placeholderTextColor="#9CA3AF"
+                keyboardType={FIELD_KEYBOARDS[kind] ?? 'default'}
+                autoCapitalize={kind === 'vin' ? 'characters' : 'none'}
+                autoCorrect={false}
+                returnKeyType="done"
+                onChangeText={(text) => setDrafts((prev) => ({ ...prev, [kind]: text }))}
+                onEndEditing={() => commit(kind)}
+              />
+              {stored?.codeType && !editing && (
+                <Feather name="maximize" size={14} color="#6B7280" style={styles.scannedIcon} />
+              )}
+            </View>
+            {error && (
+              <View style={styles.messageRow}>
+                <Feather name="alert-triangle" size={12} color="#DC2626" />
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            )}
+            {vinInfo && (
+              <Text style={styles.infoText}>{IdentifierService.describeVin(vinInfo)}</Text>
+            )}
+          </View>
+        );
+      })}
+      {assetIds.length > 0 && (
+        <View style={styles.assetRow}>
+          <Text style={styles.fieldLabel}>{LOT_IDENTIFIER_LABELS.asset}</Text>
+          <View style={styles.assetChips}>
+            {assetIds.map((identifier) => (
+              <View key={identifier.value} style={styles.assetChip}>
+                <Text style={styles.assetChipText}>{identifier.value}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  field: {
+    marginTop: 6,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  fieldLabel: {
+    width: 92,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+    backgroundColor: '#F9FAFB',
+  },
+  inputInvalid: {
+    borderColor: '#DC2626',
+    backgroundColor: '#FEF2F2',
+  },
+  scannedIcon: {
+    marginLeft: 8,
+  },
+  messageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+    marginLeft: 92,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 11,
+    color: '#DC2626',
+    fontWeight: '500',
+  },
+  infoText: {
+    fontSize: 11,
+    color: '#059669',
+    fontWeight: '500',
+    marginTop: 4,
+    marginLeft: 92,
+  },
+  assetRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 10,
+  },
+  assetChips: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  assetChip: {
+    backgroundColor: '#EFF6FF',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  assetChipText: {
+    fontSize: 12,
+    color: '#1D4ED8',
+    fontFamily: 'monospace',
+  },
+});
+
+export default LotIdentifierFields;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
 import {
   View,
   Text,
@@ -14,7 +14,23 @@ import {
 import { Feather } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
-import { MixedLot, CaptureMode } from './CameraCapture';
+import { CaptureMode, PhotoFile } from './CameraCapture';
+import LotIdentifierFields from './LotIdentifierFields';
+import LotShotList from './LotShotList';
+import LotVideoList from './LotVideoList';
+import { ShotListEditor } from './ShotListEditor';
+import { LOT_IDENTIFIER_LABELS, LotIdentifier } from '../camera/types';
+import {
+  useLot,
+  useSessionIdentifiers,
+  useSessionLots,
+} from '../../hooks/use-inspection-store';
+import { useShotListTemplates } from '../../hooks/use-shot-list-templates';
+import { IdentifierService } from '../../services/identifierService';
+import { InspectionStoreService, LotSummary } from '../../services/inspectionStoreService';
+import { LocationService } from '../../services/locationService';
+import { ShotListService } from '../../services/shotListService';
+import { WatermarkService } from '../../services/watermarkService';
 
 interface ImageInfo {
   uri: string;
@@ -26,8 +42,7 @@ interface ImageInfo {
 export type LotMode = CaptureMode;
 
 interface LotManagerProps {
-  lots: MixedLot[];
-  setLots: React.Dispatch<React.SetStateAction<MixedLot[]>>;
+  sessionId: string;
   activeLotIdx: number;
   setActiveLotIdx: React.Dispatch<React.SetStateAction<number>>;
   onOpenCamera: (lotIdx: number) => void;
@@ -35,6 +50,8 @@ interface LotManagerProps {
   hideSummary?: boolean; // Hide the internal summary bar (when parent has its own)
 }
 
+const NO_IDENTIFIERS: LotIdentifier[] = [];
+
 const MODE_INFO = {
   single_lot: {
     label: 'Bundle',
@@ -56,9 +73,68 @@ const MODE_INFO = {
   },
 };
 
+interface LotImageGridProps {
+  sessionId: string;
+  lotId: string;
+  lotIdx: number;
+  onOpen: (lotIdx: number, imgIdx: number, file: PhotoFile) => void;
+  onSetCover: (lotId: string, imgIdx: number) => void;
+  onRemove: (lotId: string, imgIdx: number) => void;
+}
+
+// Subscribes to a single lot's photo rows, so a capture in one lot doesn't
+// re-render the thumbnails of every other expanded lot.
+const LotImageGrid = memo(function LotImageGrid({
+  sessionId,
+  lotId,
+  lotIdx,
+  onOpen,
+  onSetCover,
+  onRemove,
+}: LotImageGridProps) {
+  const lot = useLot(sessionId, lotId);
+  if (!lot || lot.files.length === 0) return null;
+
+  return (
+    <View style={styles.imageGrid}>
+      {lot.files.map((file, imgIdx) => (
+        <TouchableOpacity
+          key={`${lot.id}-${imgIdx}`}
+          style={styles.imageItem}
+          onPress={() => onOpen(lotIdx, imgIdx, file)}
+          activeOpacity={0.8}>
+          <Image source={{ uri: file.uri }} style={styles.imageThumb} />
+          {lot.coverIndex === imgIdx && (
+            <View style={styles.coverBadge}>
+              <Feather name="star" size={12} color="#fff" />
+            </View>
+          )}
+          <View style={styles.imageOverlay}>
+            <TouchableOpacity
+              style={styles.imageBtn}
+              onPress={(e) => {
+                e.stopPropagation();
+                onSetCover(lot.id, imgIdx);
+              }}>
+              <Feather name="star" size={14} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.imageBtn, styles.imageBtnDelete]}
+              onPress={(e) => {
+                e.stopPropagation();
+                onRemove(lot.id, imgIdx);
+              }}>
+              <Feather name="x" size={14} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+});
+
 const LotManager = ({
-  lots,
-  setLots,
+  sessionId,
   activeLotIdx,
   setActiveLotIdx,
   onOpenCamera,
@@ -73,25 +149,18 @@ const LotManager = ({
   const [loadingImageInfo, setLoadingImageInfo] = useState(false);
   const [viewerLotIdx, setViewerLotIdx] = useState<number | null>(null);
   const [viewerImgIdx, setViewerImgIdx] = useState(0);
+  const [shotListEditorVisible, setShotListEditorVisible] = useState(false);
+  const [stampingLotId, setStampingLotId] = useState<string | null>(null);
 
+  const lots = useSessionLots(sessionId);
+  const identifiersByLot = useSessionIdentifiers(sessionId);
+  const shotLists = useShotListTemplates();
+  const viewerLot = useLot(sessionId, viewerLotIdx !== null ? lots[viewerLotIdx]?.id : null);
   const activeLot = activeLotIdx >= 0 ? lots[activeLotIdx] : null;
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
-  const viewerFiles = useMemo(() => {
-    if (viewerLotIdx === null) return [];
-    const lot = lots[viewerLotIdx];
-    return Array.isArray(lot?.files) ? lot.files : [];
-  }, [lots, viewerLotIdx]);
-
-  const resolveViewerUri = useCallback(
-    (lotIdx: number, imgIdx: number) => {
-      const lot = lots[lotIdx];
-      const file = lot?.files?.[imgIdx] as any;
-      const uri = (file?.displayUri as string | undefined) ?? (file?.uri as string | undefined);
-      return uri;
-    },
-    [lots]
-  );
+  const viewerFiles = useMemo(() => viewerLot?.files ?? [], [viewerLot]);
+  const viewerFile = viewerLotIdx !== null ? viewerFiles[viewerImgIdx] : undefined;
 
   const loadImageInfo = useCallback(async (uri: string) => {
     setLoadingImageInfo(true);
@@ -164,15 +233,15 @@ const LotManager = ({
   }, []);
 
   const openImageViewer = useCallback(
-    async (lotIdx: number, imgIdx: number) => {
-      const uri = resolveViewerUri(lotIdx, imgIdx);
+    async (lotIdx: number, imgIdx: number, file: PhotoFile) => {
+      const uri = file.displayUri ?? file.uri;
       if (!uri) return;
       setViewerLotIdx(lotIdx);
       setViewerImgIdx(imgIdx);
       setViewerVisible(true);
       await loadImageInfo(uri);
     },
-    [loadImageInfo, resolveViewerUri]
+    [loadImageInfo]
   );
 
   const goToViewerImage = useCallback(
@@ -181,12 +250,13 @@ const LotManager = ({
       const total = viewerFiles.length;
       if (total <= 0) return;
       const clamped = Math.max(0, Math.min(nextIdx, total - 1));
-      const uri = resolveViewerUri(viewerLotIdx, clamped);
+      const file = viewerFiles[clamped];
+      const uri = file?.displayUri ?? file?.uri;
       if (!uri) return;
       setViewerImgIdx(clamped);
       await loadImageInfo(uri);
     },
-    [viewerLotIdx, viewerFiles.length, resolveViewerUri, loadImageInfo]
+    [viewerLotIdx, viewerFiles, loadImageInfo]
   );
 
   const closeImageViewer = useCallback(() => {
@@ -204,16 +274,12 @@ const LotManager = ({
   };
 
   const setLotMode = (idx: number, mode: LotMode) => {
-    setLots((prev) => {
-      const updated = [...prev];
-      const lot = updated[idx];
-      if (lot.mode && lot.mode !== mode && lot.files.length > 0) {
-        Alert.alert('Warning', 'Cannot change mode after images are added');
-        return prev;
-      }
-      updated[idx] = { ...lot, mode };
-      return updated;
-    });
+    const lot = lots[idx];
+    if (lot.mode && lot.mode !== mode && lot.photoCount > 0) {
+      Alert.alert('Warning', 'Cannot change mode after images are added');
+      return;
+    }
+    InspectionStoreService.updateLot(sessionId, lot.id, { mode });
   };
 
   const removeLot = (idx: number) => {
@@ -223,7 +289,7 @@ const LotManager = ({
         text: 'Delete',
         style: 'destructive',
         onPress: () => {
-          setLots((prev) => prev.filter((_, i) => i !== idx));
+          InspectionStoreService.deleteLot(sessionId, lots[idx].id);
           if (activeLotIdx >= lots.length - 1) {
             setActiveLotIdx(Math.max(0, lots.length - 2));
           }
@@ -235,19 +301,15 @@ const LotManager = ({
     ]);
   };
 
-  const removeImage = (lotIdx: number, imgIdx: number) => {
-    setLots((prev) => {
-      const updated = [...prev];
-      const lot = updated[lotIdx];
-      const files = lot.files.filter((_, i) => i !== imgIdx);
-      const coverIndex = Math.max(0, Math.min(files.length - 1, lot.coverIndex));
-      updated[lotIdx] = { ...lot, files, coverIndex };
-      return updated;
-    });
-  };
+  const removeImage = useCallback(
+    (lotId: string, imgIdx: number) => {
+      InspectionStoreService.removePhoto(sessionId, lotId, 'main', imgIdx);
+    },
+    [sessionId]
+  );
 
   const deleteCurrentViewerImage = useCallback(() => {
-    if (viewerLotIdx === null) return;
+    if (viewerLotIdx === null || !viewerLot) return;
     
     Alert.alert('Delete Image', 'Are you sure you want to delete this image?', [
       { text: 'Cancel', style: 'cancel' },
@@ -259,7 +321,7 @@ const LotManager = ({
           const totalFiles = viewerFiles.length;
           
           // Remove the image
-          removeImage(viewerLotIdx, currentIdx);
+          removeImage(viewerLot.id, currentIdx);
           
           // If this was the last image, close the viewer
           if (totalFiles <= 1) {
@@ -274,15 +336,22 @@ const LotManager = ({
         },
       },
     ]);
-  }, [viewerLotIdx, viewerImgIdx, viewerFiles.length, closeImageViewer, goToViewerImage]);
+  }, [
+    viewerLotIdx,
+    viewerLot,
+    viewerImgIdx,
+    viewerFiles.length,
+    removeImage,
+    closeImageViewer,
+    goToViewerImage,
+  ]);
 
-  const setCoverImage = (lotIdx: number, imgIdx: number) => {
-    setLots((prev) => {
-      const updated = [...prev];
-      updated[lotIdx] = { ...updated[lotIdx], coverIndex: imgIdx };
-      return updated;
-    });
-  };
+  const setCoverImage = useCallback(
+    (lotId: string, imgIdx: number) => {
+      InspectionStoreService.updateLot(sessionId, lotId, { coverIndex: imgIdx });
+    },
+    [sessionId]
+  );
 
   const pickImages = async (lotIdx: number) => {
     const lot = lots[lotIdx];
@@ -305,20 +374,43 @@ const LotManager = ({
           type: asset.mimeType || 'image/jpeg',
         }));
 
-        setLots((prev) => {
-          const updated = [...prev];
-          updated[lotIdx] = {
-            ...updated[lotIdx],
-            files: [...updated[lotIdx].files, ...newFiles],
-          };
-          return updated;
-        });
+        InspectionStoreService.addPhotos(sessionId, lot.id, 'main', newFiles);
       }
     } catch (e) {
       console.error('Image picker error:', e);
     }
   };
 
+  // Stamped copies are made with the current watermark settings and replace
+  // any earlier ones; the originals are never changed
+  const stampLot = (idx: number) => {
+    const lotId = lots[idx].id;
+    const run = async () => {
+      setStampingLotId(lotId);
+      try {
+        const { stamped, failed } = await WatermarkService.stampLot(sessionId, lotId);
+        if (failed > 0) {
+          Alert.alert('Watermark', `Stamped ${stamped} photo(s); ${failed} could not be stamped.`);
+        }
+      } finally {
+        setStampingLotId(null);
+      }
+    };
+    Alert.alert(
+      'Stamp Photos',
+      `Make watermarked copies of the photos in Lot ${idx + 1}? The originals are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove Stamps',
+          style: 'destructive',
+          onPress: () => WatermarkService.clearLotStamps(sessionId, lotId),
+        },
+        { text: 'Stamp', onPress: () => void run() },
+      ]
+    );
+  };
+
   const handleOpenCamera = (lotIdx: number) => {
     // Camera now handles lot creation and mode selection internally
     onOpenCamera(lotIdx >= 0 ? lotIdx : 0);
@@ -329,10 +421,16 @@ const LotManager = ({
     onOpenCamera(activeLotIdx >= 0 ? activeLotIdx : 0);
   };
 
-  const renderLotCard = (lot: MixedLot, idx: number) => {
+  const openShotListEditor = useCallback(() => setShotListEditorVisible(true), []);
+
+  const renderLotCard = (lot: LotSummary, idx: number) => {
     const isExpanded = expandedLot === idx;
     const isActive = activeLotIdx === idx;
     const modeInfo = lot.mode ? MODE_INFO[lot.mode] : null;
+    const identifiers = identifiersByLot[lot.id] ?? NO_IDENTIFIERS;
+    const identifierIssues = IdentifierService.findIdentifierIssues(identifiers);
+    const shotList = shotLists.find((template) => template.id === lot.shotListId);
+    const shotProgress = shotList ? ShotListService.getProgress(shotList, lot.takenShots) : null;
 
     return (
       <View key={lot.id} style={[styles.lotCard, isActive && styles.lotCardActive]}>
@@ -352,9 +450,29 @@ const LotManager = ({
             <View>
               <Text style={styles.lotTitle}>Lot {idx + 1}</Text>
               <Text style={styles.lotSubtitle}>
-                {lot.files.length} image{lot.files.length !== 1 ? 's' : ''}
+                {lot.photoCount} image{lot.photoCount !== 1 ? 's' : ''}
+                {lot.videoCount > 0 &&
+                  ` • ${lot.videoCount} video${lot.videoCount !== 1 ? 's' : ''}`}
                 {modeInfo && ` • ${modeInfo.label}`}
+                {shotList && ` • ${shotProgress?.taken.length}/${shotList.shots.length} shots`}
               </Text>
+              {shotProgress && shotProgress.missing.length > 0 && (
+                <View style={styles.lotIssueRow}>
+                  <Feather name="camera-off" size={12} color="#B45309" />
+                  <Text style={[styles.lotIssueText, styles.lotMissingText]} numberOfLines={1}>
+                    Missing {shotProgress.missing.map((shot) => shot.label).join(', ')}
+                  </Text>
+                </View>
+              )}
+              {identifierIssues.length > 0 && (
+                <View style={styles.lotIssueRow}>
+                  <Feather name="alert-triangle" size={12} color="#DC2626" />
+                  <Text style={styles.lotIssueText}>
+                    Check{' '}
+                    {identifierIssues.map((issue) => LOT_IDENTIFIER_LABELS[issue.kind]).join(', ')}
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
           <View style={styles.lotHeaderRight}>
@@ -410,54 +528,52 @@ const LotManager = ({
                 <Feather name="image" size={20} color="#fff" />
                 <Text style={styles.actionBtnText}>Gallery</Text>
               </TouchableOpacity>
+              {lot.photoCount + lot.extraCount > 0 && (
+                <TouchableOpacity
+                  style={[styles.actionBtn, styles.stampBtn]}
+                  onPress={() => stampLot(idx)}
+                  disabled={stampingLotId !== null}>
+                  {stampingLotId === lot.id ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Feather name="droplet" size={20} color="#fff" />
+                  )}
+                  <Text style={styles.actionBtnText}>Stamp</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Image Grid */}
-            {lot.files.length > 0 && (
-              <View style={styles.imageGrid}>
-                {lot.files.map((file, imgIdx) => (
-                  <TouchableOpacity 
-                    key={`${lot.id}-${imgIdx}`} 
-                    style={styles.imageItem}
-                    onPress={() => openImageViewer(idx, imgIdx)}
-                    activeOpacity={0.8}>
-                    <Image source={{ uri: file.uri }} style={styles.imageThumb} />
-                    {lot.coverIndex === imgIdx && (
-                      <View style={styles.coverBadge}>
-                        <Feather name="star" size={12} color="#fff" />
-                      </View>
-                    )}
-                    <View style={styles.imageOverlay}>
-                      <TouchableOpacity
-                        style={styles.imageBtn}
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          setCoverImage(idx, imgIdx);
-                        }}>
-                        <Feather name="star" size={14} color="#fff" />
-                      </TouchableOpacity>
-                      <TouchableOpacity
-                        style={[styles.imageBtn, styles.imageBtnDelete]}
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          removeImage(idx, imgIdx);
-                        }}>
-                        <Feather name="x" size={14} color="#fff" />
-                      </TouchableOpacity>
-                    </View>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            )}
+            <LotImageGrid
+              sessionId={sessionId}
+              lotId={lot.id}
+              lotIdx={idx}
+              onOpen={openImageViewer}
+              onSetCover={setCoverImage}
+              onRemove={removeImage}
+            />
+
+            <LotVideoList sessionId={sessionId} lotId={lot.id} />
 
             {/* Empty State */}
-            {lot.files.length === 0 && lot.mode && (
+            {lot.photoCount === 0 && lot.mode && (
               <View style={styles.emptyState}>
                 <Feather name="image" size={40} color="#D1D5DB" />
                 <Text style={styles.emptyText}>No images yet</Text>
                 <Text style={styles.emptySubtext}>Use Camera or Gallery to add images</Text>
               </View>
             )}
+
+            <LotShotList
+              sessionId={sessionId}
+              lotId={lot.id}
+              shotListId={lot.shotListId}
+              takenShots={lot.takenShots}
+              templates={shotLists}
+              onEditTemplates={openShotListEditor}
+            />
+
+            <LotIdentifierFields sessionId={sessionId} lotId={lot.id} identifiers={identifiers} />
           </View>
         )}
       </View>
@@ -524,13 +640,19 @@ const LotManager = ({
           <View style={styles.summaryDivider} />
           <View style={styles.summaryItem}>
             <Text style={styles.summaryValue}>
-              {lots.reduce((sum, lot) => sum + lot.files.length, 0)}
+              {lots.reduce((sum, lot) => sum + lot.photoCount, 0)}
             </Text>
             <Text style={styles.summaryLabel}>Images</Text>
           </View>
         </View>
       )}
 
+      <ShotListEditor
+        visible={shotListEditorVisible}
+        templates={shotLists}
+        onClose={() => setShotListEditorVisible(false)}
+      />
+
       {/* Full-Screen Image Viewer Modal */}
       <Modal
         visible={viewerVisible}
@@ -622,23 +744,45 @@ const LotManager = ({
               style={styles.viewerInfoBar} 
               activeOpacity={1} 
               onPress={(e) => e.stopPropagation()}>
-              <View style={styles.viewerInfoItem}>
-                <Feather name="maximize-2" size={14} color="rgba(255,255,255,0.7)" />
-                <Text style={styles.viewerInfoLabel}>Resolution</Text>
-                <Text style={styles.viewerInfoValue}>
-                  {selectedImage.width > 0 
-                    ? `${selectedImage.width} × ${selectedImage.height}` 
-                    : 'Loading...'}
-                </Text>
-              </View>
-              <View style={styles.viewerInfoDivider} />
-              <View style={styles.viewerInfoItem}>
-                <Feather name="hard-drive" size={14} color="rgba(255,255,255,0.7)" />
-                <Text style={styles.viewerInfoLabel}>Size</Text>
-                <Text style={styles.viewerInfoValue}>
-                  {selectedImage.size > 0 ? formatFileSize(selectedImage.size) : 'Loading...'}
-                </Text>
+              <View style={styles.viewerInfoRow}>
+                <View style={styles.viewerInfoItem}>
+                  <Feather name="maximize-2" size={14} color="rgba(255,255,255,0.7)" />
+                  <Text style={styles.viewerInfoLabel}>Resolution</Text>
+                  <Text style={styles.viewerInfoValue}>
+                    {selectedImage.width > 0
+                      ? `${selectedImage.width} × ${selectedImage.height}`
+                      : 'Loading...'}
+                  </Text>
+                </View>
+                <View style={styles.viewerInfoDivider} />
+                <View style={styles.viewerInfoItem}>
+                  <Feather name="hard-drive" size={14} color="rgba(255,255,255,0.7)" />
+                  <Text style={styles.viewerInfoLabel}>Size</Text>
+                  <Text style={styles.viewerInfoValue}>
+                    {selectedImage.size > 0 ? formatFileSize(selectedImage.size) : 'Loading...'}
+                  </Text>
+                </View>
               </View>
+              {(viewerFile?.capturedAt || viewerFile?.location) && (
+                <View style={styles.viewerCaptureInfo}>
+                  {viewerFile.capturedAt && (
+                    <View style={styles.viewerCaptureRow}>
+                      <Feather name="clock" size={12} color="rgba(255,255,255,0.7)" />
+                      <Text style={styles.viewerCaptureText}>
+                        {new Date(viewerFile.capturedAt).toLocaleString()}
+                      </Text>
+                    </View>
+                  )}
+                  <View style={styles.viewerCaptureRow}>
+                    <Feather name="map-pin" size={12} color="rgba(255,255,255,0.7)" />
+                    <Text style={styles.viewerCaptureText}>
+                      {viewerFile.location
+                        ? LocationService.describeLocation(viewerFile.location)
+                        : 'No location recorded'}
+                    </Text>
+                  </View>
+                </View>
+              )}
             </TouchableOpacity>
           )}
         </TouchableOpacity>
@@ -789,6 +933,21 @@ const styles = StyleSheet.create({
     marginTop: 3,
     fontWeight: '500',
   },
+  lotIssueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 3,
+  },
+  lotIssueText: {
+    fontSize: 12,
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  lotMissingText: {
+    flexShrink: 1,
+    color: '#B45309',
+  },
   lotHeaderRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -866,6 +1025,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#8B5CF6',
     shadowColor: '#8B5CF6',
   },
+  stampBtn: {
+    backgroundColor: '#D97706',
+    shadowColor: '#D97706',
+  },
   actionBtnText: {
     color: '#fff',
     fontWeight: '600',
@@ -1078,10 +1241,12 @@ const styles = StyleSheet.create({
     bottom: 40,
     left: 20,
     right: 20,
-    flexDirection: 'row',
     backgroundColor: 'rgba(0, 0, 0, 0.6)',
     borderRadius: 16,
     padding: 16,
+  },
+  viewerInfoRow: {
+    flexDirection: 'row',
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -1108,6 +1273,24 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     marginHorizontal: 16,
   },
+  viewerCaptureInfo: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+    gap: 6,
+  },
+  viewerCaptureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  viewerCaptureText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: '#fff',
+    fontWeight: '500',
+  },
 });
 
 export default LotManager;
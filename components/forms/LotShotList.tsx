@@ -0,0 +1,173 @@
+import React, { memo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { InspectionStoreService } from '../../services/inspectionStoreService';
+import { ShotListService, ShotListTemplate } from '../../services/shotListService';
+
+interface LotShotListProps {
+  sessionId: string;
+  lotId: string;
+  shotListId?: string;
+  takenShots: string[];
+  templates: ShotListTemplate[];
+  onEditTemplates: () => void;
+}
+
+// Which shot list a lot follows, and the shots it is still missing
+const LotShotList = memo(function LotShotList({
+  sessionId,
+  lotId,
+  shotListId,
+  takenShots,
+  templates,
+  onEditTemplates,
+}: LotShotListProps) {
+  const template = templates.find((option) => option.id === shotListId);
+  const progress = template ? ShotListService.getProgress(template, takenShots) : null;
+
+  const select = (id: string | undefined) => {
+    if (id === shotListId) return;
+    InspectionStoreService.updateLot(sessionId, lotId, { shotListId: id });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.sectionLabel}>Shot List:</Text>
+        <TouchableOpacity style={styles.editBtn} onPress={onEditTemplates}>
+          <Feather name="edit-2" size={12} color="#2563EB" />
+          <Text style={styles.editBtnText}>Edit templates</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.chips}>
+        {templates.map((option) => {
+          const isSelected = option.id === shotListId;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => select(option.id)}>
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {option.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.chip, !template && styles.chipSelected]}
+          onPress={() => select(undefined)}>
+          <Text style={[styles.chipText, !template && styles.chipTextSelected]}>None</Text>
+        </TouchableOpacity>
+      </View>
+
+      {progress && (
+        <>
+          <Text style={styles.progressText}>
+            {progress.taken.length}/{progress.taken.length + progress.missing.length} shots taken
+          </Text>
+          {progress.missing.length > 0 ? (
+            <View style={styles.chips}>
+              {progress.missing.map((shot) => (
+                <View key={shot.id} style={styles.missingChip}>
+                  <Feather name="circle" size={10} color="#B45309" />
+                  <Text style={styles.missingChipText}>{shot.label}</Text>
+                </View>
+              ))}
+            </View>
+          ) : (
+            <View style={styles.completeRow}>
+              <Feather name="check-circle" size={12} color="#059669" />
+              <Text style={styles.completeText}>All shots taken</Text>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  editBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 4,
+  },
+  editBtnText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  chipSelected: {
+    borderColor: '#2563EB',
+    backgroundColor: '#EFF6FF',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextSelected: {
+    color: '#1D4ED8',
+  },
+  progressText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 10,
+  },
+  missingChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FFFBEB',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  missingChipText: {
+    fontSize: 12,
+    color: '#B45309',
+  },
+  completeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  completeText: {
+    fontSize: 12,
+    color: '#059669',
+    fontWeight: '500',
+  },
+});
+
+export default LotShotList;
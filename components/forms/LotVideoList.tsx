@@ -0,0 +1,270 @@
+import React, { memo, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { PhotoFile } from '../camera/types';
+import { useLot } from '../../hooks/use-inspection-store';
+import { InspectionStoreService } from '../../services/inspectionStoreService';
+import { SessionMediaService } from '../../services/sessionMediaService';
+
+// Generated frames by video URI; they live in the cache directory, so they
+// are made again after a restart
+const thumbnailCache = new Map<string, string>();
+
+const formatDuration = (seconds?: number) => {
+  if (seconds === undefined) return null;
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const formatSize = (bytes?: number) => {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const describeVideo = (file: PhotoFile) =>
+  [file.width && file.height ? `${file.width}x${file.height}` : null, formatSize(file.sizeBytes)]
+    .filter(Boolean)
+    .join(' • ');
+
+const VideoThumbnail = ({ uri }: { uri: string }) => {
+  const [thumbnail, setThumbnail] = useState(() => thumbnailCache.get(uri));
+
+  useEffect(() => {
+    if (thumbnailCache.has(uri)) return;
+    let cancelled = false;
+    VideoThumbnails.getThumbnailAsync(uri, { time: 500, quality: 0.6 })
+      .then((result) => {
+        thumbnailCache.set(uri, result.uri);
+        if (!cancelled) setThumbnail(result.uri);
+      })
+      .catch((error) => console.warn('[LotVideoList] Failed to make thumbnail:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  return thumbnail ? (
+    <Image source={{ uri: thumbnail }} style={styles.thumb} />
+  ) : (
+    <View style={[styles.thumb, styles.thumbEmpty]}>
+      <Feather name="video" size={24} color="#9CA3AF" />
+    </View>
+  );
+};
+
+// Mounted only while a video is open, so no player exists otherwise
+const VideoPlayerSheet = ({ file, onClose }: { file: PhotoFile; onClose: () => void }) => {
+  const player = useVideoPlayer(file.uri, (instance) => instance.play());
+
+  return (
+    <SafeAreaView style={styles.playerContainer} edges={['top', 'bottom']}>
+      <View style={styles.playerHeader}>
+        <Text style={styles.playerTitle} numberOfLines={1}>
+          {file.name}
+        </Text>
+        <TouchableOpacity onPress={onClose} style={styles.playerClose}>
+          <Feather name="x" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+      <VideoView player={player} style={styles.player} nativeControls contentFit="contain" />
+    </SafeAreaView>
+  );
+};
+
+interface LotVideoListProps {
+  sessionId: string;
+  lotId: string;
+}
+
+// A lot's walk-around videos in upload order, with play, reorder and delete
+const LotVideoList = memo(function LotVideoList({ sessionId, lotId }: LotVideoListProps) {
+  const lot = useLot(sessionId, lotId);
+  const [playing, setPlaying] = useState<PhotoFile | null>(null);
+  const videos = lot?.videos ?? [];
+  if (videos.length === 0) return null;
+
+  const move = (from: number, to: number) =>
+    InspectionStoreService.moveVideo(sessionId, lotId, from, to);
+
+  const remove = (index: number) => {
+    Alert.alert('Delete Video', 'Are you sure you want to delete this video?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          const removed = InspectionStoreService.removeVideo(sessionId, lotId, index);
+          if (removed) void SessionMediaService.deleteMedia(removed.uri);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel}>Videos ({videos.length}):</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        {videos.map((file, i) => {
+          const duration = formatDuration(file.duration);
+          const details = describeVideo(file);
+          return (
+            <View key={file.uri} style={styles.card}>
+              <TouchableOpacity onPress={() => setPlaying(file)} activeOpacity={0.8}>
+                <VideoThumbnail uri={file.uri} />
+                <View style={styles.playBadge}>
+                  <Feather name="play" size={18} color="#fff" />
+                </View>
+                {duration && (
+                  <View style={styles.durationBadge}>
+                    <Text style={styles.durationText}>{duration}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+              {details.length > 0 && (
+                <Text style={styles.details} numberOfLines={1}>
+                  {details}
+                </Text>
+              )}
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.actionBtn}
+                  onPress={() => move(i, i - 1)}
+                  disabled={i === 0}>
+                  <Feather name="chevron-left" size={16} color={i === 0 ? '#D1D5DB' : '#374151'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionBtn}
+                  onPress={() => move(i, i + 1)}
+                  disabled={i === videos.length - 1}>
+                  <Feather
+                    name="chevron-right"
+                    size={16}
+                    color={i === videos.length - 1 ? '#D1D5DB' : '#374151'}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionBtn} onPress={() => remove(i)}>
+                  <Feather name="trash-2" size={16} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <Modal
+        visible={playing !== null}
+        animationType="fade"
+        onRequestClose={() => setPlaying(null)}
+        supportedOrientations={['portrait', 'landscape']}>
+        {playing && <VideoPlayerSheet file={playing} onClose={() => setPlaying(null)} />}
+      </Modal>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  row: {
+    gap: 10,
+  },
+  card: {
+    width: 140,
+  },
+  thumb: {
+    width: 140,
+    height: 90,
+    borderRadius: 8,
+    backgroundColor: '#111827',
+  },
+  thumbEmpty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F3F4F6',
+  },
+  playBadge: {
+    position: 'absolute',
+    top: 29,
+    left: 54,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  durationBadge: {
+    position: 'absolute',
+    right: 6,
+    bottom: 6,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0,0,0,0.65)',
+  },
+  durationText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  details: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  actionBtn: {
+    padding: 6,
+  },
+  playerContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  playerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  playerTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  playerClose: {
+    padding: 6,
+  },
+  player: {
+    flex: 1,
+  },
+});
+
+export default LotVideoList;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { ShotListService, ShotListTemplate } from '../../services/shotListService';
+
+interface ShotListEditorProps {
+  visible: boolean;
+  templates: ShotListTemplate[];
+  onClose: () => void;
+}
+
+// Edits a copy of the shot-list templates; nothing is saved until Save.
+// Lots that use a deleted template simply stop showing a checklist.
+export const ShotListEditor: React.FC<ShotListEditorProps> = ({ visible, templates, onClose }) => {
+  const [draft, setDraft] = useState<ShotListTemplate[]>(templates);
+
+  useEffect(() => {
+    if (visible) setDraft(templates);
+  }, [visible, templates]);
+
+  const updateTemplate = (id: string, update: (template: ShotListTemplate) => ShotListTemplate) =>
+    setDraft((prev) => prev.map((template) => (template.id === id ? update(template) : template)));
+
+  const removeTemplate = (template: ShotListTemplate) => {
+    Alert.alert('Delete Shot List', `Delete "${template.name || 'Untitled'}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => setDraft((prev) => prev.filter((t) => t.id !== template.id)),
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    const cleaned = draft.map((template) => ({
+      ...template,
+      name: template.name.trim() || 'Untitled',
+      shots: template.shots
+        .map((shot) => ({ ...shot, label: shot.label.trim() }))
+        .filter((shot) => shot.label),
+    }));
+    void ShotListService.saveTemplates(cleaned);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerBtn}>
+            <Feather name="x" size={24} color="#374151" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Shot Lists</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.headerBtn}>
+            <Text style={styles.saveText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {draft.map((template) => (
+            <View key={template.id} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <TextInput
+                  style={styles.nameInput}
+                  value={template.name}
+                  placeholder="Asset category"
+                  placeholderTextColor="#9CA3AF"
+                  onChangeText={(name) => updateTemplate(template.id, (t) => ({ ...t, name }))}
+                />
+                <TouchableOpacity onPress={() => removeTemplate(template)} style={styles.iconBtn}>
+                  <Feather name="trash-2" size={18} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+
+              {template.shots.map((shot, i) => (
+                <View key={shot.id} style={styles.shotRow}>
+                  <Text style={styles.shotNumber}>{i + 1}</Text>
+                  <TextInput
+                    style={styles.shotInput}
+                    value={shot.label}
+                    placeholder="Shot, e.g. Front-left 3/4"
+                    placeholderTextColor="#9CA3AF"
+                    onChangeText={(label) =>
+                      updateTemplate(template.id, (t) => ({
+                        ...t,
+                        shots: t.shots.map((s) => (s.id === shot.id ? { ...s, label } : s)),
+                      }))
+                    }
+                  />
+                  <TouchableOpacity
+                    style={styles.iconBtn}
+                    onPress={() =>
+                      updateTemplate(template.id, (t) => ({
+                        ...t,
+                        shots: t.shots.filter((s) => s.id !== shot.id),
+                      }))
+                    }>
+                    <Feather name="minus-circle" size={18} color="#9CA3AF" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <TouchableOpacity
+                style={styles.addShotBtn}
+                onPress={() =>
+                  updateTemplate(template.id, (t) => ({
+                    ...t,
+                    shots: [...t.shots, ShotListService.createShot('')],
+                  }))
+                }>
+                <Feather name="plus" size={14} color="#2563EB" />
+                <Text style={styles.addShotText}>Add shot</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.addTemplateBtn}
+            onPress={() =>
+              setDraft((prev) => [...prev, ShotListService.createTemplate('New category')])
+            }>
+            <Feather name="plus" size={18} color="#fff" />
+            <Text style={styles.addTemplateText}>Add Shot List</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerBtn: {
+    padding: 6,
+    minWidth: 48,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563EB',
+    textAlign: 'right',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  nameInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    paddingVertical: 6,
+  },
+  iconBtn: {
+    padding: 6,
+  },
+  shotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  shotNumber: {
+    width: 22,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#9CA3AF',
+  },
+  shotInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+    backgroundColor: '#F9FAFB',
+  },
+  addShotBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    padding: 4,
+  },
+  addShotText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  addTemplateBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#2563EB',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  addTemplateText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
+
+export default ShotListEditor;
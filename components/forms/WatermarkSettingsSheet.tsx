@@ -0,0 +1,401 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Switch,
+  Image,
+  Alert,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useWatermarkSettings } from '../../hooks/use-watermark-settings';
+import {
+  DEFAULT_WATERMARK_SETTINGS,
+  TEMPLATE_TOKENS,
+  WatermarkPosition,
+  WatermarkService,
+  WatermarkSettings,
+} from '../../services/watermarkService';
+
+const POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const OPACITIES = [0.4, 0.6, 0.8, 1];
+
+// Stand-in photo for the preview
+const SAMPLE_PHOTO = {
+  uri: '',
+  name: 'IMG_0042.jpg',
+  type: 'image/jpeg',
+  capturedAt: new Date().toISOString(),
+  location: { latitude: 51.50735, longitude: -0.12776 },
+};
+
+interface WatermarkSettingsSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Session setting: export and upload the stamped copies instead of the originals
+  stampedCopies: boolean;
+  onStampedCopiesChange: (value: boolean) => void;
+}
+
+// Edits a copy of the watermark settings; nothing is saved until Save. The
+// settings apply to every session, stamped copies already made keep their
+// old stamp until the lot is stamped again.
+export const WatermarkSettingsSheet: React.FC<WatermarkSettingsSheetProps> = ({
+  visible,
+  onClose,
+  stampedCopies,
+  onStampedCopiesChange,
+}) => {
+  const settings = useWatermarkSettings();
+  const [draft, setDraft] = useState<WatermarkSettings>(settings);
+  const [importingLogo, setImportingLogo] = useState(false);
+
+  useEffect(() => {
+    if (visible) setDraft(settings);
+  }, [visible, settings]);
+
+  const preview = useMemo(
+    () =>
+      WatermarkService.formatStampLines(draft, SAMPLE_PHOTO, {
+        lotNumber: 3,
+        mode: 'single_lot',
+        shotLabel: 'Front',
+      }),
+    [draft]
+  );
+
+  const update = (patch: Partial<WatermarkSettings>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const handleCancel = () => {
+    if (draft.logoUri) WatermarkService.discardLogo(draft.logoUri);
+    onClose();
+  };
+
+  const handleSave = () => {
+    void WatermarkService.saveSettings({
+      ...draft,
+      template: draft.template.trim() || DEFAULT_WATERMARK_SETTINGS.template,
+    });
+    onClose();
+  };
+
+  const pickLogo = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 1,
+      });
+      if (result.canceled || result.assets.length === 0) return;
+      setImportingLogo(true);
+      const logoUri = await WatermarkService.importLogo(result.assets[0].uri);
+      if (draft.logoUri) WatermarkService.discardLogo(draft.logoUri);
+      update({ logoUri });
+    } catch (error) {
+      console.error('Logo picker error:', error);
+      Alert.alert('Error', 'Failed to use that image as the logo.');
+    } finally {
+      setImportingLogo(false);
+    }
+  };
+
+  const removeLogo = () => {
+    if (draft.logoUri) WatermarkService.discardLogo(draft.logoUri);
+    update({ logoUri: undefined });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleCancel}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleCancel} style={styles.headerBtn}>
+            <Feather name="x" size={24} color="#374151" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Watermark</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.headerBtn}>
+            <Text style={styles.saveText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.cardTitle}>Use stamped copies</Text>
+                <Text style={styles.hint}>
+                  Upload this inspection&apos;s photos with the watermark. Stamped copies are at
+                  most 4096 px on the long edge; originals are kept unchanged at full resolution
+                  and ZIP exports include both.
+                </Text>
+              </View>
+              <Switch value={stampedCopies} onValueChange={onStampedCopiesChange} />
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Text</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.companyName}
+              placeholder="Company name"
+              placeholderTextColor="#9CA3AF"
+              onChangeText={(companyName) => update({ companyName })}
+            />
+            <TextInput
+              style={[styles.input, styles.templateInput]}
+              value={draft.template}
+              placeholder={DEFAULT_WATERMARK_SETTINGS.template}
+              placeholderTextColor="#9CA3AF"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              onChangeText={(template) => update({ template })}
+            />
+            <View style={styles.chipRow}>
+              {TEMPLATE_TOKENS.map((token) => (
+                <TouchableOpacity
+                  key={token}
+                  style={styles.chip}
+                  onPress={() => update({ template: `${draft.template} ${token}`.trimStart() })}>
+                  <Text style={styles.chipText}>{token}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.preview}>
+              {preview.length > 0 ? (
+                preview.map((line, i) => (
+                  <Text key={i} style={styles.previewText}>
+                    {line}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.previewText}>No text</Text>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Position</Text>
+            <View style={styles.chipRow}>
+              {POSITIONS.map(({ value, label }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, draft.position === value && styles.chipActive]}
+                  onPress={() => update({ position: value })}>
+                  <Text
+                    style={[styles.chipText, draft.position === value && styles.chipTextActive]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={[styles.cardTitle, styles.sectionGap]}>Opacity</Text>
+            <View style={styles.chipRow}>
+              {OPACITIES.map((opacity) => (
+                <TouchableOpacity
+                  key={opacity}
+                  style={[styles.chip, draft.opacity === opacity && styles.chipActive]}
+                  onPress={() => update({ opacity })}>
+                  <Text
+                    style={[styles.chipText, draft.opacity === opacity && styles.chipTextActive]}>
+                    {Math.round(opacity * 100)}%
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Logo</Text>
+            <View style={styles.logoRow}>
+              {draft.logoUri ? (
+                <Image source={{ uri: draft.logoUri }} style={styles.logo} resizeMode="contain" />
+              ) : (
+                <View style={[styles.logo, styles.logoEmpty]}>
+                  <Feather name="image" size={20} color="#9CA3AF" />
+                </View>
+              )}
+              <TouchableOpacity style={styles.logoBtn} onPress={pickLogo} disabled={importingLogo}>
+                {importingLogo ? (
+                  <ActivityIndicator size="small" color="#2563EB" />
+                ) : (
+                  <Text style={styles.logoBtnText}>{draft.logoUri ? 'Change' : 'Choose'}</Text>
+                )}
+              </TouchableOpacity>
+              {draft.logoUri && (
+                <TouchableOpacity style={styles.logoBtn} onPress={removeLogo}>
+                  <Text style={styles.logoRemoveText}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.hint}>
+              Drawn next to the text at the same height. Transparent areas come out solid.
+            </Text>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerBtn: {
+    padding: 6,
+    minWidth: 48,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563EB',
+    textAlign: 'right',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  sectionGap: {
+    marginTop: 14,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+    backgroundColor: '#F9FAFB',
+    marginBottom: 8,
+  },
+  templateInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  preview: {
+    marginTop: 10,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#374151',
+  },
+  previewText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#fff',
+  },
+  logoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  logo: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+  },
+  logoEmpty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  logoBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  logoBtnText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  logoRemoveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
+
+export default WatermarkSettingsSheet;
@@ -0,0 +1,465 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { InspectionSessionSummary } from "../../services/inspectionSessionService";
+import { QueueItem, QueueItemStatus } from "../../services/offlineQueueService";
+
+interface SessionLibraryProps {
+  sessions: InspectionSessionSummary[];
+  loading: boolean;
+  onCreate: () => void;
+  onOpen: (id: string) => void;
+  onResume: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: () => void;
+  // Session currently being exported, if any
+  exportingId?: string | null;
+  importing?: boolean;
+  // Latest queued report submission per session id
+  uploads?: Record<string, QueueItem>;
+  onRetryUpload?: (queueItemId: string) => void;
+  onCancelUpload?: (queueItemId: string) => void;
+}
+
+const UPLOAD_STATUS: Record<
+  QueueItemStatus,
+  { label: string; icon: keyof typeof Feather.glyphMap; color: string }
+> = {
+  queued: { label: "Waiting to upload", icon: "clock", color: "#6B7280" },
+  uploading: { label: "Uploading…", icon: "upload-cloud", color: "#2563EB" },
+  failed: { label: "Upload failed", icon: "alert-circle", color: "#EF4444" },
+  done: { label: "Uploaded", icon: "check-circle", color: "#10B981" },
+};
+
+const formatSize = (bytes?: number) => {
+  if (!bytes) return "0 KB";
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const SessionLibrary = ({
+  sessions,
+  loading,
+  onCreate,
+  onOpen,
+  onResume,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  exportingId,
+  importing,
+  uploads,
+  onRetryUpload,
+  onCancelUpload,
+}: SessionLibraryProps) => {
+  const [renameTarget, setRenameTarget] =
+    useState<InspectionSessionSummary | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const startRename = (session: InspectionSessionSummary) => {
+    setRenameTarget(session);
+    setRenameText(session.name);
+  };
+
+  const submitRename = () => {
+    if (renameTarget) onRename(renameTarget.id, renameText);
+    setRenameTarget(null);
+  };
+
+  const confirmDelete = (session: InspectionSessionSummary) => {
+    Alert.alert(
+      "Delete Inspection",
+      `Delete "${session.name}" and its ${session.imageCount} image(s)? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => onDelete(session.id),
+        },
+      ],
+    );
+  };
+
+  const renderUploadStatus = (upload?: QueueItem) => {
+    if (!upload) return null;
+    const status = UPLOAD_STATUS[upload.status];
+    const willRetry = upload.status === "failed" && upload.nextAttemptAt;
+    return (
+      <View style={styles.uploadRow}>
+        <Feather name={status.icon} size={14} color={status.color} />
+        <Text style={[styles.uploadText, { color: status.color }]}>
+          {status.label}
+          {upload.status === "uploading" &&
+            upload.progress !== undefined &&
+            ` ${upload.progress}%`}
+          {willRetry &&
+            ` • retrying ${new Date(upload.nextAttemptAt as number).toLocaleTimeString()}`}
+        </Text>
+        {upload.status === "failed" && onRetryUpload && (
+          <TouchableOpacity onPress={() => onRetryUpload(upload.id)}>
+            <Text style={styles.uploadRetry}>Retry now</Text>
+          </TouchableOpacity>
+        )}
+        {upload.status === "uploading" && onCancelUpload && (
+          <TouchableOpacity onPress={() => onCancelUpload(upload.id)}>
+            <Text style={styles.uploadRetry}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderSession = ({ item }: { item: InspectionSessionSummary }) => (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.cardBody} onPress={() => onOpen(item.id)}>
+        {item.thumbnailUri ? (
+          <Image source={{ uri: item.thumbnailUri }} style={styles.thumb} />
+        ) : (
+          <View style={[styles.thumb, styles.thumbPlaceholder]}>
+            <Feather name="image" size={24} color="#9CA3AF" />
+          </View>
+        )}
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={styles.cardMeta}>{formatDate(item.updatedAt)}</Text>
+          <Text style={styles.cardMeta}>
+            {item.lotCount} lot(s) • {item.imageCount} image(s) •{" "}
+            {formatSize(item.sizeBytes)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {renderUploadStatus(uploads?.[item.id])}
+
+      <View style={styles.cardActions}>
+        <TouchableOpacity
+          style={[styles.actionBtn, styles.resumeBtn]}
+          onPress={() => onResume(item.id)}
+        >
+          <Feather name="camera" size={16} color="#FFFFFF" />
+          <Text style={styles.resumeBtnText}>Resume</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionBtn}
+          onPress={() => startRename(item)}
+        >
+          <Feather name="edit-2" size={16} color="#374151" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionBtn}
+          onPress={() => onExport(item.id)}
+          disabled={!!exportingId}
+        >
+          {exportingId === item.id ? (
+            <ActivityIndicator size="small" color="#374151" />
+          ) : (
+            <Feather name="share" size={16} color="#374151" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionBtn}
+          onPress={() => onDuplicate(item.id)}
+        >
+          <Feather name="copy" size={16} color="#374151" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionBtn}
+          onPress={() => confirmDelete(item)}
+        >
+          <Feather name="trash-2" size={16} color="#EF4444" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.topActions}>
+        <TouchableOpacity style={styles.createButton} onPress={onCreate}>
+          <Feather name="plus" size={18} color="#FFFFFF" />
+          <Text style={styles.createButtonText}>New Inspection</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.importButton}
+          onPress={onImport}
+          disabled={importing}
+        >
+          {importing ? (
+            <ActivityIndicator size="small" color="#2563EB" />
+          ) : (
+            <Feather name="download" size={18} color="#2563EB" />
+          )}
+          <Text style={styles.importButtonText}>Import</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading && sessions.length === 0 ? (
+        <ActivityIndicator style={styles.loader} color="#2563EB" />
+      ) : (
+        <FlatList
+          data={sessions}
+          keyExtractor={(item) => item.id}
+          renderItem={renderSession}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="folder" size={40} color="#D1D5DB" />
+              <Text style={styles.emptyText}>No inspections yet</Text>
+            </View>
+          }
+        />
+      )}
+
+      <Modal
+        visible={renameTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRenameTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Rename Inspection</Text>
+            <TextInput
+              style={styles.input}
+              value={renameText}
+              onChangeText={setRenameText}
+              onSubmitEditing={submitRename}
+              autoFocus
+              selectTextOnFocus
+              returnKeyType="done"
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.modalBtnCancel}
+                onPress={() => setRenameTarget(null)}
+              >
+                <Text style={styles.modalBtnCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalBtnSave}
+                onPress={submitRename}
+              >
+                <Text style={styles.modalBtnSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: "100%",
+  },
+  topActions: {
+    flexDirection: "row",
+    gap: 10,
+    marginBottom: 16,
+  },
+  createButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#2563EB",
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  createButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  importButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#2563EB",
+    backgroundColor: "#FFFFFF",
+  },
+  importButtonText: {
+    color: "#2563EB",
+    fontWeight: "600",
+  },
+  loader: {
+    marginTop: 40,
+  },
+  list: {
+    paddingBottom: 24,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    padding: 12,
+  },
+  cardBody: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  thumb: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: "#F3F4F6",
+  },
+  thumbPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  cardMeta: {
+    fontSize: 13,
+    color: "#6B7280",
+  },
+  uploadRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 10,
+  },
+  uploadText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  uploadRetry: {
+    color: "#2563EB",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  cardActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#F3F4F6",
+  },
+  resumeBtn: {
+    backgroundColor: "#2563EB",
+  },
+  resumeBtnText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 48,
+    gap: 8,
+  },
+  emptyText: {
+    color: "#9CA3AF",
+    fontSize: 15,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    width: "100%",
+    maxWidth: 360,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#111827",
+  },
+  modalButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+    marginTop: 16,
+  },
+  modalBtnCancel: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  modalBtnCancelText: {
+    color: "#6B7280",
+    fontWeight: "600",
+  },
+  modalBtnSave: {
+    backgroundColor: "#2563EB",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  modalBtnSaveText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+});
+
+export default SessionLibrary;
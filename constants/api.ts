@@ -0,0 +1,15 @@
+/**
+ * Report upload endpoint. Set EXPO_PUBLIC_API_URL to point at a real server; the default
+ * targets the bundled mock server (`npm run mock-server`) from a simulator/emulator.
+ */
+
+import { Platform } from 'react-native';
+
+const MOCK_SERVER_PORT = 4000;
+
+// The Android emulator reaches the host machine through 10.0.2.2
+const defaultHost = Platform.OS === 'android' ? '10.0.2.2' : 'localhost';
+
+export const API_BASE_URL = (
+  process.env.EXPO_PUBLIC_API_URL ?? `http://${defaultHost}:${MOCK_SERVER_PORT}`
+).replace(/\/+$/, '');
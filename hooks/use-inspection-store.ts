@@ -0,0 +1,67 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+import { InspectionStoreService } from '@/services/inspectionStoreService';
+
+/**
+ * Lot list of a session (ids, modes and counts only). Re-renders when a lot is
+ * added, removed or changes; unchanged lots keep their object identity.
+ */
+export function useSessionLots(sessionId: string) {
+  const subscribe = useCallback(
+    (listener: () => void) => InspectionStoreService.subscribeLots(sessionId, listener),
+    [sessionId]
+  );
+  const getSnapshot = useCallback(
+    () => InspectionStoreService.getLotSummaries(sessionId),
+    [sessionId]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * A single lot with its photos and video. Only writes to this lot re-render
+ * the caller; returns null when lotId is unset or the lot no longer exists.
+ */
+export function useLot(sessionId: string, lotId: string | null | undefined) {
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      lotId ? InspectionStoreService.subscribeLot(sessionId, lotId, listener) : () => {},
+    [sessionId, lotId]
+  );
+  const getSnapshot = useCallback(
+    () => (lotId ? InspectionStoreService.getLot(sessionId, lotId) : null),
+    [sessionId, lotId]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * Codes scanned in a session, newest first.
+ */
+export function useScanHistory(sessionId: string) {
+  const subscribe = useCallback(
+    (listener: () => void) => InspectionStoreService.subscribeScans(sessionId, listener),
+    [sessionId]
+  );
+  const getSnapshot = useCallback(
+    () => InspectionStoreService.getScanHistory(sessionId),
+    [sessionId]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * Identifiers (VIN, serial, readings, asset IDs) of every lot in a session,
+ * keyed by lot id. Photo writes don't re-render the caller.
+ */
+export function useSessionIdentifiers(sessionId: string) {
+  const subscribe = useCallback(
+    (listener: () => void) => InspectionStoreService.subscribeIdentifiers(sessionId, listener),
+    [sessionId]
+  );
+  const getSnapshot = useCallback(
+    () => InspectionStoreService.getSessionIdentifiers(sessionId),
+    [sessionId]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+
+import { ShotListService } from '@/services/shotListService';
+
+/**
+ * Shot-list templates, starting from the defaults until the saved ones have
+ * loaded. Re-renders when the templates are edited.
+ */
+export function useShotListTemplates() {
+  return useSyncExternalStore(ShotListService.subscribe, ShotListService.getTemplates);
+}
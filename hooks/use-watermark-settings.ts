@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+
+import { WatermarkService } from '@/services/watermarkService';
+
+/**
+ * Watermark settings, starting from the defaults until the saved ones have
+ * loaded. Re-renders when they are changed.
+ */
+export function useWatermarkSettings() {
+  return useSyncExternalStore(WatermarkService.subscribe, WatermarkService.getSettings);
+}
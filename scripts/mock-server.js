@@ -0,0 +1,310 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the report API so uploads and the offline queue can be exercised without a backend.
+ *
+ *   npm run mock-server
+ *
+ * Routes:
+ *   GET  /health                       reachability check
+ *   POST /reports                      JSON { details, lots } -> { reportId }
+ *   POST /reports/:id/files            multipart: lotId, role (main|extra|video|frame), index, file
+ *   POST /reports/:id/uploads          JSON { lotId, role, index, name, type, size } -> { uploadId, offset }
+ *                                      (returns the existing upload for the same lotId/role/index)
+ *   GET  /reports/:id/uploads/:uid     -> { uploadId, offset, size } so clients resume from the acked offset
+ *   PUT  /reports/:id/uploads/:uid     raw chunk with X-Chunk-Offset + X-Chunk-Sha256 headers
+ *                                      -> { offset }; 409 { offset } on a stale offset, 422 on checksum mismatch
+ *   POST /reports/:id/complete         -> { jobId } once every file in the manifest arrived
+ *   GET  /reports                      everything received so far
+ *
+ * Environment:
+ *   PORT              port to listen on (default 4000)
+ *   MOCK_FAIL_RATE    0..1 chance that a POST/PUT answers 503, to exercise retry/backoff and resume
+ *   MOCK_CORRUPT_RATE 0..1 chance that a chunk is treated as corrupted in transit (422)
+ *   MOCK_DELAY_MS     artificial latency added to every POST/PUT
+ *   MOCK_UPLOAD_DIR   when set, received files are written to <dir>/<reportId>/
+ */
+
+const { Buffer } = require("buffer");
+const crypto = require("crypto");
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+
+const port = Number(process.env.PORT) || 4000;
+const failRate = Math.min(1, Math.max(0, Number(process.env.MOCK_FAIL_RATE) || 0));
+const corruptRate = Math.min(1, Math.max(0, Number(process.env.MOCK_CORRUPT_RATE) || 0));
+const delayMs = Number(process.env.MOCK_DELAY_MS) || 0;
+const uploadDir = process.env.MOCK_UPLOAD_DIR;
+
+const reports = new Map();
+
+const createId = (prefix) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Minimal multipart/form-data parser: returns [{ name, filename, contentType, data }]
+const parseMultipart = (body, contentType) => {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || "");
+  if (!match) return null;
+  const boundary = Buffer.from(`--${match[1] || match[2]}`);
+  const parts = [];
+
+  let start = body.indexOf(boundary);
+  while (start !== -1) {
+    const next = body.indexOf(boundary, start + boundary.length);
+    if (next === -1) break;
+    // Skip the CRLF after the boundary and drop the CRLF before the next one
+    const part = body.subarray(start + boundary.length + 2, next - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString("utf8");
+      const disposition = /content-disposition:[^\r\n]*/i.exec(headers)?.[0] ?? "";
+      parts.push({
+        name: /\bname="([^"]*)"/i.exec(disposition)?.[1],
+        filename: /\bfilename="([^"]*)"/i.exec(disposition)?.[1],
+        contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1],
+        data: part.subarray(headerEnd + 4),
+      });
+    }
+    start = next;
+  }
+  return parts;
+};
+
+const expectedFileCount = (lots) =>
+  lots.reduce(
+    (sum, lot) =>
+      sum +
+      (lot.files?.length ?? 0) +
+      (lot.extraFiles?.length ?? 0) +
+      (lot.videos?.length ?? 0) +
+      (lot.frames?.length ?? 0),
+    0
+  );
+
+const handleCreateReport = async (req, res) => {
+  let payload;
+  try {
+    payload = JSON.parse((await readBody(req)).toString("utf8"));
+  } catch {
+    sendJson(res, 400, { error: "Invalid JSON body" });
+    return;
+  }
+
+  const lots = Array.isArray(payload.lots) ? payload.lots : [];
+  const report = {
+    reportId: createId("report"),
+    createdAt: new Date().toISOString(),
+    details: payload.details ?? {},
+    lots,
+    expectedFiles: expectedFileCount(lots),
+    files: {},
+    uploads: new Map(),
+    receivedBytes: 0,
+  };
+  reports.set(report.reportId, report);
+  console.log(`[mock] created ${report.reportId} (${lots.length} lots, ${report.expectedFiles} files expected)`);
+  sendJson(res, 201, { reportId: report.reportId });
+};
+
+const storeFile = (report, key, name, type, data) => {
+  report.files[key] = { name, type, size: data.length };
+  report.receivedBytes += data.length;
+  if (uploadDir) {
+    const dir = path.join(uploadDir, report.reportId);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${key.replace(/[^a-zA-Z0-9._-]/g, "_")}-${path.basename(name)}`), data);
+  }
+};
+
+const handleUploadFile = async (req, res, report) => {
+  const parts = parseMultipart(await readBody(req), req.headers["content-type"]);
+  if (!parts) {
+    sendJson(res, 400, { error: "Expected multipart/form-data" });
+    return;
+  }
+  const fields = Object.fromEntries(parts.filter((p) => !p.filename).map((p) => [p.name, p.data.toString("utf8")]));
+  const filePart = parts.find((p) => p.name === "file" && p.filename !== undefined);
+  if (!filePart || !fields.lotId || !fields.role) {
+    sendJson(res, 400, { error: "Missing lotId, role or file" });
+    return;
+  }
+
+  const key = `${fields.lotId}:${fields.role}:${fields.index ?? 0}`;
+  storeFile(report, key, filePart.filename, filePart.contentType, filePart.data);
+  console.log(`[mock] ${report.reportId} <- ${key} ${filePart.filename} (${filePart.data.length} bytes)`);
+  sendJson(res, 201, { key, size: filePart.data.length });
+};
+
+const uploadStatus = (upload) => ({ uploadId: upload.uploadId, offset: upload.offset, size: upload.size });
+
+const handleCreateUpload = async (req, res, report) => {
+  let payload;
+  try {
+    payload = JSON.parse((await readBody(req)).toString("utf8"));
+  } catch {
+    sendJson(res, 400, { error: "Invalid JSON body" });
+    return;
+  }
+  if (!payload.lotId || !payload.role || !(payload.size > 0)) {
+    sendJson(res, 400, { error: "Missing lotId, role or size" });
+    return;
+  }
+
+  const key = `${payload.lotId}:${payload.role}:${payload.index ?? 0}`;
+  let upload = [...report.uploads.values()].find((u) => u.key === key);
+  if (!upload) {
+    upload = {
+      uploadId: createId("upload"),
+      key,
+      name: payload.name || "file",
+      type: payload.type,
+      size: payload.size,
+      offset: 0,
+      chunks: [],
+    };
+    report.uploads.set(upload.uploadId, upload);
+    console.log(`[mock] ${report.reportId} upload ${upload.uploadId} for ${key} (${upload.size} bytes)`);
+  }
+  sendJson(res, 201, uploadStatus(upload));
+};
+
+const handleChunk = async (req, res, report, upload) => {
+  const chunk = await readBody(req);
+  const offset = Number(req.headers["x-chunk-offset"]);
+  const expected = String(req.headers["x-chunk-sha256"] || "").toLowerCase();
+
+  if (offset !== upload.offset) {
+    sendJson(res, 409, { error: "Offset mismatch", offset: upload.offset });
+    return;
+  }
+  const actual = crypto.createHash("sha256").update(chunk).digest("hex");
+  if (!expected || actual !== expected || Math.random() < corruptRate) {
+    console.log(`[mock] ${upload.uploadId} chunk @${offset} -> 422 (checksum mismatch)`);
+    sendJson(res, 422, { error: "Checksum mismatch", offset: upload.offset });
+    return;
+  }
+  if (offset + chunk.length > upload.size) {
+    sendJson(res, 400, { error: "Chunk exceeds declared size", offset: upload.offset });
+    return;
+  }
+
+  upload.chunks.push(chunk);
+  upload.offset += chunk.length;
+  if (upload.offset === upload.size) {
+    storeFile(report, upload.key, upload.name, upload.type, Buffer.concat(upload.chunks));
+    upload.chunks = [];
+    console.log(`[mock] ${report.reportId} <- ${upload.key} ${upload.name} (${upload.size} bytes, chunked)`);
+  }
+  sendJson(res, 200, uploadStatus(upload));
+};
+
+const handleComplete = (res, report) => {
+  const received = Object.keys(report.files).length;
+  if (received < report.expectedFiles) {
+    sendJson(res, 409, { error: `Missing files: received ${received} of ${report.expectedFiles}` });
+    return;
+  }
+  report.jobId = report.jobId ?? createId("job");
+  report.completedAt = new Date().toISOString();
+  console.log(`[mock] ${report.reportId} complete -> ${report.jobId} (${report.receivedBytes} bytes)`);
+  sendJson(res, 200, { reportId: report.reportId, jobId: report.jobId });
+};
+
+const route = async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+  if (req.method === "GET" && url.pathname === "/reports") {
+    sendJson(
+      res,
+      200,
+      [...reports.values()].map(({ uploads, ...report }) => ({
+        ...report,
+        uploads: [...uploads.values()].map(uploadStatus),
+      }))
+    );
+    return;
+  }
+  if (segments[0] !== "reports" || segments.length > 4) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  if (req.method !== "GET") {
+    if (delayMs > 0) await wait(delayMs);
+    if (Math.random() < failRate) {
+      req.resume();
+      console.log(`[mock] ${req.method} ${url.pathname} -> 503 (simulated failure)`);
+      sendJson(res, 503, { error: "Simulated outage" });
+      return;
+    }
+  }
+
+  if (segments.length === 1 && req.method === "POST") {
+    await handleCreateReport(req, res);
+    return;
+  }
+  const report = reports.get(decodeURIComponent(segments[1]));
+  if (!report) {
+    req.resume();
+    sendJson(res, 404, { error: "Unknown report" });
+    return;
+  }
+
+  const [, , action, uploadId] = segments;
+  if (req.method === "POST" && action === "files" && !uploadId) {
+    await handleUploadFile(req, res, report);
+  } else if (req.method === "POST" && action === "complete" && !uploadId) {
+    handleComplete(res, report);
+  } else if (req.method === "POST" && action === "uploads" && !uploadId) {
+    await handleCreateUpload(req, res, report);
+  } else if (action === "uploads" && uploadId) {
+    const upload = report.uploads.get(decodeURIComponent(uploadId));
+    if (!upload) {
+      req.resume();
+      sendJson(res, 404, { error: "Unknown upload" });
+    } else if (req.method === "GET") {
+      sendJson(res, 200, uploadStatus(upload));
+    } else if (req.method === "PUT") {
+      await handleChunk(req, res, report, upload);
+    } else {
+      sendJson(res, 405, { error: "Method not allowed" });
+    }
+  } else {
+    req.resume();
+    sendJson(res, 404, { error: "Not found" });
+  }
+};
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch((error) => {
+    console.error("[mock] Request failed:", error);
+    sendJson(res, 500, { error: "Internal error" });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[mock] Report server listening on http://localhost:${port}`);
+  if (failRate > 0) console.log(`[mock] Failing ${Math.round(failRate * 100)}% of POST/PUT requests`);
+  if (corruptRate > 0) console.log(`[mock] Rejecting ${Math.round(corruptRate * 100)}% of chunks as corrupted`);
+  if (uploadDir) console.log(`[mock] Writing uploads to ${uploadDir}`);
+});
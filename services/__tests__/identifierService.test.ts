@@ -0,0 +1,74 @@
+import { IdentifierService } from "../identifierService";
+
+describe("IdentifierService.vinCheckDigit", () => {
+  it("computes the ISO 3779 check digit", () => {
+    expect(IdentifierService.vinCheckDigit("1HGCM82633A004352")).toBe("3");
+    expect(IdentifierService.vinCheckDigit("WVWZZZ1JZXW000001")).toBe("0");
+  });
+
+  it("uses X for a remainder of 10", () => {
+    expect(IdentifierService.vinCheckDigit("1M8GDM9AXKP042788")).toBe("X");
+  });
+
+  it("returns null for VINs that are not well formed", () => {
+    expect(IdentifierService.vinCheckDigit("1HGCM82633A00435")).toBeNull();
+    expect(IdentifierService.vinCheckDigit("1HGCM82633A00435I")).toBeNull();
+  });
+
+  it("reports a wrong check digit as a validation issue", () => {
+    expect(
+      IdentifierService.validateIdentifier("vin", "1HGCM82643A004352"),
+    ).toBe("VIN check digit is 4, expected 3");
+    expect(
+      IdentifierService.validateIdentifier("vin", "1HGCM82633A004352"),
+    ).toBeNull();
+  });
+
+  it("accepts scanned VINs with separators and a Code 39 prefix", () => {
+    expect(IdentifierService.looksLikeVin("1hgcm8-2633a 004352")).toBe(true);
+    expect(IdentifierService.looksLikeVin("I1HGCM82633A004352")).toBe(true);
+    expect(IdentifierService.looksLikeVin("1HGCM82643A004352")).toBe(false);
+  });
+});
+
+describe("IdentifierService.decodeVin", () => {
+  // Which year cycles count as "not in the future" depends on today
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date("2026-06-01T00:00:00Z") });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it("decodes the model year, region and country", () => {
+    expect(IdentifierService.decodeVin("1HGCM82633A004352")).toEqual({
+      modelYear: 2003,
+      region: "North America",
+      country: "United States",
+    });
+  });
+
+  it("tells the 30-year cycles apart by position 7 when the check digit is valid", () => {
+    expect(IdentifierService.decodeVin("1FTFW1E59AFA00001")?.modelYear).toBe(
+      2010,
+    );
+    expect(IdentifierService.decodeVin("1FTFW1253AFA00001")?.modelYear).toBe(
+      1980,
+    );
+  });
+
+  it("assumes the latest past cycle when the check digit is not valid", () => {
+    expect(IdentifierService.decodeVin("WVWZZZ1KZAW000001")).toEqual({
+      modelYear: 2010,
+      region: "Europe",
+      country: "Germany",
+    });
+  });
+
+  it("leaves the year empty for an unknown year code", () => {
+    expect(IdentifierService.decodeVin("WVWZZZ1KZUW000001")?.modelYear).toBe(
+      null,
+    );
+  });
+});
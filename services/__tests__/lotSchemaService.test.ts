@@ -0,0 +1,151 @@
+import { LOT_SCHEMA_VERSION, LotSchemaService } from "../lotSchemaService";
+
+describe("LotSchemaService.deserializeLots", () => {
+  it("keeps every video of a lot restored from the report app", () => {
+    const { lots, invalidLots } = LotSchemaService.deserializeLots([
+      {
+        id: "lot-1",
+        mode: "single_lot",
+        mainImages: ["file:///main-0.jpg"],
+        extraImages: [],
+        videoFiles: ["file:///walk-around.mp4", "file:///engine.mp4"],
+        coverIndex: 0,
+      },
+    ]);
+
+    expect(invalidLots).toEqual([]);
+    expect(lots).toHaveLength(1);
+    expect(lots[0].videos).toEqual([
+      {
+        uri: "file:///walk-around.mp4",
+        name: "restored-video-0.mp4",
+        type: "video/mp4",
+      },
+      {
+        uri: "file:///engine.mp4",
+        name: "restored-video-1.mp4",
+        type: "video/mp4",
+      },
+    ]);
+    expect(lots[0]).not.toHaveProperty("videoFile");
+  });
+
+  it("turns the single video of a version 2 lot into a list", () => {
+    const video = {
+      uri: "file:///clip.mp4",
+      name: "clip.mp4",
+      type: "video/mp4",
+    };
+    const { lots } = LotSchemaService.deserializeLots(
+      [
+        {
+          id: "lot-2",
+          files: [],
+          extraFiles: [],
+          videoFile: video,
+          coverIndex: 0,
+        },
+      ],
+      LOT_SCHEMA_VERSION - 1,
+    );
+
+    expect(lots[0].videos).toEqual([video]);
+    expect(lots[0]).not.toHaveProperty("videoFile");
+  });
+
+  it("normalizes the metadata of an unversioned lot on the way to the current schema", () => {
+    const { lots, invalidLots } = LotSchemaService.deserializeLots([
+      {
+        id: "lot-3",
+        mode: null,
+        files: [
+          {
+            uri: "file:///a.jpg",
+            displayUri: "file:///a.jpg",
+            name: "a.jpg",
+            type: "image/jpeg",
+            width: 4000,
+            height: 3000,
+            focusBox: { x: 0.5, y: "0.5" },
+            adjustments: null,
+          },
+        ],
+        extraFiles: [],
+        videoFile: {
+          uri: "file:///clip.mp4",
+          name: "clip.mp4",
+          type: "video/mp4",
+        },
+        coverIndex: 4.7,
+      },
+    ]);
+
+    expect(invalidLots).toEqual([]);
+    expect(lots[0]).toEqual({
+      id: "lot-3",
+      files: [
+        {
+          uri: "file:///a.jpg",
+          name: "a.jpg",
+          type: "image/jpeg",
+          width: 4000,
+          height: 3000,
+          megapixels: 12,
+        },
+      ],
+      extraFiles: [],
+      videos: [
+        { uri: "file:///clip.mp4", name: "clip.mp4", type: "video/mp4" },
+      ],
+      coverIndex: 0,
+    });
+  });
+
+  it("leaves lots saved with the current schema as they are", () => {
+    const lot = {
+      id: "lot-4",
+      mode: "per_item",
+      files: [{ uri: "file:///b.jpg", name: "b.jpg", type: "image/jpeg" }],
+      extraFiles: [],
+      videos: [],
+      coverIndex: 0,
+      shotListId: "walkaround",
+    };
+
+    expect(
+      LotSchemaService.deserializeLots([lot], LOT_SCHEMA_VERSION).lots,
+    ).toEqual([lot]);
+  });
+
+  it("sets aside lots from a newer schema or that fail validation", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const newer = { id: "lot-5", files: [], extraFiles: [], videos: [] };
+    const broken = { id: "lot-6", files: [{ name: "c.jpg" }], extraFiles: [] };
+
+    const { lots, invalidLots } = LotSchemaService.deserializeLots(
+      [newer],
+      LOT_SCHEMA_VERSION + 1,
+    );
+    expect(lots).toEqual([]);
+    expect(invalidLots).toEqual([
+      {
+        index: 0,
+        id: "lot-5",
+        fromVersion: LOT_SCHEMA_VERSION + 1,
+        errors: [`saved by a newer version (schema ${LOT_SCHEMA_VERSION + 1})`],
+        data: newer,
+      },
+    ]);
+
+    const result = LotSchemaService.deserializeLots([broken]);
+    expect(result.invalidLots[0]).toMatchObject({
+      id: "lot-6",
+      fromVersion: 1,
+    });
+    expect(result.invalidLots[0].errors).toEqual([
+      "files[0] has no uri",
+      "files[0] has no type",
+    ]);
+    jest.restoreAllMocks();
+  });
+});
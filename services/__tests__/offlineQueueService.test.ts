@@ -0,0 +1,110 @@
+import { assetService, UploadCancelledError } from "../assetService";
+import { OfflineQueueService, ReportUploader } from "../offlineQueueService";
+
+const NOW = new Date("2026-06-01T12:00:00Z").getTime();
+
+const failWith = (error: Error) =>
+  OfflineQueueService.setUploader(async () => {
+    throw error;
+  });
+
+const getItem = async (id: string) =>
+  (await OfflineQueueService.getItems()).find((item) => item.id === id);
+
+// Waits for the retry timer of an item and the upload attempt it starts
+const runNextRetry = async (id: string) => {
+  const item = await getItem(id);
+  await jest.advanceTimersByTimeAsync(
+    (item?.nextAttemptAt ?? NOW) - Date.now(),
+  );
+  await OfflineQueueService.processQueue();
+  return getItem(id);
+};
+
+describe("OfflineQueueService retries", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    // No jitter, so the delays are exact
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(async () => {
+    for (const item of await OfflineQueueService.getItems()) {
+      await OfflineQueueService.removeItem(item.id);
+    }
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("doubles the delay after each failure until attempts run out", async () => {
+    failWith(new Error("Request failed with status 500"));
+    const { id } = await OfflineQueueService.enqueueAssetReport({}, []);
+    await OfflineQueueService.processQueue();
+
+    const delays: number[] = [];
+    let item = await getItem(id);
+    while (item?.nextAttemptAt !== undefined) {
+      delays.push(item.nextAttemptAt - Date.now());
+      item = await runNextRetry(id);
+    }
+
+    expect(delays).toEqual([
+      5_000, 10_000, 20_000, 40_000, 80_000, 160_000, 320_000,
+    ]);
+    expect(item).toMatchObject({ status: "failed", attempts: 8 });
+  });
+
+  it("stops retrying network failures after the same number of attempts", async () => {
+    failWith(new TypeError("Network request failed"));
+    const { id } = await OfflineQueueService.enqueueAssetReport({}, []);
+    await OfflineQueueService.processQueue();
+
+    let item = await getItem(id);
+    while (item?.nextAttemptAt !== undefined) item = await runNextRetry(id);
+
+    expect(item).toMatchObject({
+      status: "failed",
+      attempts: 8,
+      lastError: "Network request failed",
+    });
+  });
+
+  it("waits for a manual retry after a cancelled upload", async () => {
+    failWith(new UploadCancelledError());
+    const { id } = await OfflineQueueService.enqueueAssetReport({}, []);
+    await OfflineQueueService.processQueue();
+
+    expect(await getItem(id)).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      nextAttemptAt: undefined,
+    });
+
+    OfflineQueueService.setUploader(async () => undefined);
+    await OfflineQueueService.retryItem(id);
+    expect(await getItem(id)).toMatchObject({ status: "done" });
+  });
+
+  it("clears resume state again once an upload removed mid-flight ends", async () => {
+    let started: () => void = () => {};
+    const uploading = new Promise<void>((resolve) => (started = resolve));
+    const uploader: ReportUploader = (details, lots, { signal }) =>
+      new Promise((_, reject) => {
+        signal.addEventListener("abort", () =>
+          reject(new UploadCancelledError()),
+        );
+        started();
+      });
+    OfflineQueueService.setUploader(uploader);
+    const clearResumeState = jest.spyOn(assetService, "clearResumeState");
+
+    const { id } = await OfflineQueueService.enqueueAssetReport({}, []);
+    await uploading;
+    await OfflineQueueService.removeItem(id);
+    await OfflineQueueService.processQueue();
+
+    expect(clearResumeState).toHaveBeenCalledTimes(2);
+    expect(clearResumeState).toHaveBeenLastCalledWith(id);
+    expect(await getItem(id)).toBeUndefined();
+  });
+});
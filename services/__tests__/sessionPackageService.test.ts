@@ -0,0 +1,342 @@
+import { MixedLot } from "../../components/camera/types";
+import { InspectionSessionService } from "../inspectionSessionService";
+import { SessionMediaService } from "../sessionMediaService";
+import {
+  ManifestFile,
+  ManifestLot,
+  PACKAGE_FORMAT,
+  PACKAGE_VERSION,
+  SessionPackageService,
+} from "../sessionPackageService";
+
+// Paths are plain strings; a file exists while it has bytes in the map
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock("expo-file-system", () => {
+  const join = (parts: (string | { uri: string })[]) =>
+    parts
+      .map((part) => (typeof part === "string" ? part : part.uri))
+      .join("/")
+      .replace(/\/+/g, "/");
+
+  class File {
+    uri: string;
+
+    constructor(...parts: (string | { uri: string })[]) {
+      this.uri = join(parts);
+    }
+
+    get exists() {
+      return mockFiles.has(this.uri);
+    }
+
+    get size() {
+      return mockFiles.get(this.uri)?.length ?? 0;
+    }
+
+    get name() {
+      return this.uri.split("/").pop() as string;
+    }
+
+    get parentDirectory() {
+      return { uri: this.uri.slice(0, this.uri.lastIndexOf("/")) };
+    }
+
+    async text() {
+      return new TextDecoder().decode(mockFiles.get(this.uri));
+    }
+
+    open() {
+      const data = mockFiles.get(this.uri) as Uint8Array;
+      let offset = 0;
+      return {
+        size: data.length,
+        readBytes: (length: number) => {
+          const chunk = data.slice(offset, offset + length);
+          offset += chunk.length;
+          return chunk;
+        },
+        close: () => {},
+      };
+    }
+  }
+
+  return { File, Directory: File, Paths: { cache: "/cache" } };
+});
+
+jest.mock("../inspectionSessionService", () => ({
+  InspectionSessionService: {
+    getSession: jest.fn(),
+    createSession: jest.fn(),
+    saveSessionLots: jest.fn(),
+    deleteSession: jest.fn(),
+  },
+}));
+
+jest.mock("../sessionMediaService", () => ({
+  SessionMediaService: {
+    copyIntoSession: jest.fn(),
+    deleteMedia: jest.fn(),
+  },
+}));
+
+const sessions = jest.mocked(InspectionSessionService);
+const media = jest.mocked(SessionMediaService);
+
+const PACKAGE_DIR = "/downloads/package";
+
+const writeFile = (path: string, text: string) =>
+  mockFiles.set(`${PACKAGE_DIR}/${path}`, new TextEncoder().encode(text));
+
+const manifestFile = (name: string, size = 4): ManifestFile => ({
+  path: `lots/lot-1/${name}`,
+  originalName: name,
+  size,
+  type: "image/jpeg",
+});
+
+const manifestLot = (patch: Partial<ManifestLot> = {}): ManifestLot => ({
+  id: "lot-1",
+  number: 1,
+  mode: "single_lot",
+  modeLabel: "Bundle",
+  coverIndex: 0,
+  cover: null,
+  files: [],
+  extraFiles: [],
+  videos: [],
+  ...patch,
+});
+
+const manifestWith = (
+  lots: unknown[],
+  patch: Record<string, unknown> = {},
+) => ({
+  format: PACKAGE_FORMAT,
+  version: PACKAGE_VERSION,
+  exportedAt: "2026-06-01T12:00:00.000Z",
+  session: {
+    id: "session-1",
+    name: "Yard sale",
+    createdAt: "2026-06-01T09:00:00.000Z",
+    updatedAt: "2026-06-01T11:00:00.000Z",
+  },
+  lots,
+  ...patch,
+});
+
+// Writes the manifest next to its files and stages it like a picked manifest.json
+const stage = (manifest: unknown) => {
+  writeFile("manifest.json", JSON.stringify(manifest));
+  return SessionPackageService.stagePackage(`${PACKAGE_DIR}/manifest.json`);
+};
+
+beforeEach(() => {
+  mockFiles.clear();
+  jest.clearAllMocks();
+});
+
+describe("SessionPackageService.stagePackage", () => {
+  it("rejects files that are not inspection packages", async () => {
+    await expect(stage({ lots: [] })).rejects.toThrow(
+      "Not an inspection package",
+    );
+    await expect(
+      stage(manifestWith([], { version: PACKAGE_VERSION + 1 })),
+    ).rejects.toThrow("newer than this app supports");
+    await expect(stage(manifestWith([], { session: null }))).rejects.toThrow(
+      "missing session information",
+    );
+  });
+
+  it("names the first malformed lot", async () => {
+    await expect(
+      stage(manifestWith([manifestLot(), { ...manifestLot(), mode: "drone" }])),
+    ).rejects.toThrow("Lot 2 in the manifest is malformed");
+    await expect(
+      stage(
+        manifestWith([
+          manifestLot({
+            files: [{ ...manifestFile("a.jpg"), stampedCopy: { size: 4 } }],
+          } as Partial<ManifestLot>),
+        ]),
+      ),
+    ).rejects.toThrow("Lot 1 in the manifest is malformed");
+  });
+
+  it("reads the single video of a version 1 lot into the video list", async () => {
+    const video = { ...manifestFile("walk.mp4"), type: "video/mp4" };
+    writeFile(video.path as string, "mp4!");
+    const { videos, ...lot } = manifestLot({ video });
+
+    const staged = await stage(manifestWith([lot], { version: 1 }));
+
+    expect(staged.manifest.lots[0].videos).toEqual([video]);
+    expect(staged.manifest.lots[0]).not.toHaveProperty("video");
+    expect(staged.fileCount).toBe(1);
+  });
+
+  it("lists missing and corrupt files, stamped copies and frames included", async () => {
+    writeFile("lots/lot-1/a.jpg", "jpeg");
+    writeFile("lots/lot-1/b.jpg", "jpeg-but-longer");
+    writeFile("lots/lot-1/c.jpg", "jpeg");
+    writeFile("lots/lot-1/a-stamped.jpg", "jpeg");
+
+    const staged = await stage(
+      manifestWith([
+        manifestLot({
+          files: [
+            {
+              ...manifestFile("a.jpg"),
+              stampedCopy: {
+                path: "lots/lot-1/a-stamped.jpg",
+                originalName: "a-stamped.jpg",
+                size: 4,
+              },
+              bracket: {
+                id: "bracket-1",
+                exposures: [-1, 1],
+                merged: false,
+                frames: [
+                  { ...manifestFile("a-frame-1.jpg"), exposure: -1 },
+                  { ...manifestFile("a-frame-2.jpg"), exposure: 1 },
+                ],
+              },
+            },
+            manifestFile("b.jpg"),
+            { ...manifestFile("c.jpg"), crc32: "00000000" },
+          ],
+        }),
+      ]),
+    );
+
+    expect(staged.fileCount).toBe(2);
+    expect(
+      staged.problems.map(({ originalName, reason }) => [originalName, reason]),
+    ).toEqual([
+      ["a-frame-1.jpg", "missing"],
+      ["a-frame-2.jpg", "missing"],
+      ["b.jpg", "corrupt"],
+      ["c.jpg", "corrupt"],
+    ]);
+  });
+});
+
+describe("SessionPackageService.importStagedPackage", () => {
+  const existingLot: MixedLot = {
+    id: "lot-1",
+    mode: "single_lot",
+    files: [{ uri: "/store/lot-1/a.jpg", name: "a.jpg", type: "image/jpeg" }],
+    extraFiles: [],
+    videos: [],
+    coverIndex: 0,
+    identifiers: [{ kind: "vin", value: "VIN-1", addedAt: "2026-06-01" }],
+  };
+
+  const stageIncoming = () => {
+    writeFile("lots/lot-1/a.jpg", "jpeg");
+    writeFile("lots/lot-1/b.jpg", "jpeg");
+    return stage(
+      manifestWith([
+        manifestLot({
+          files: [manifestFile("a.jpg"), manifestFile("b.jpg")],
+          identifiers: [
+            { kind: "vin", value: "VIN-1", addedAt: "2026-06-02" },
+            { kind: "serial", value: "SN-2", addedAt: "2026-06-02" },
+          ],
+        }),
+      ]),
+    );
+  };
+
+  beforeEach(() => {
+    sessions.getSession.mockResolvedValue({
+      id: "session-1",
+      name: "Yard sale",
+      createdAt: "2026-06-01T09:00:00.000Z",
+      updatedAt: "2026-06-01T10:00:00.000Z",
+      lots: [existingLot],
+      activeLotIdx: 0,
+    });
+    media.copyIntoSession.mockImplementation(
+      async (_source, { lotId, fileName }) => `/store/${lotId}/new-${fileName}`,
+    );
+  });
+
+  it("merges into a lot with the same id, skipping files it already has", async () => {
+    const result = await SessionPackageService.importStagedPackage(
+      await stageIncoming(),
+      "session-1",
+      "merge",
+    );
+
+    expect(result).toMatchObject({ lotsMerged: 1, filesImported: 1 });
+    expect(media.copyIntoSession).toHaveBeenCalledTimes(1);
+    expect(media.copyIntoSession).toHaveBeenCalledWith(
+      `${PACKAGE_DIR}/lots/lot-1/b.jpg`,
+      expect.objectContaining({ lotId: "lot-1", keepExisting: true }),
+    );
+    const [, lots] = sessions.saveSessionLots.mock.calls[0];
+    expect(lots).toHaveLength(1);
+    expect(lots[0].files.map((f) => f.name)).toEqual(["a.jpg", "b.jpg"]);
+    expect(lots[0].identifiers?.map((i) => i.value)).toEqual(["VIN-1", "SN-2"]);
+  });
+
+  it("adds a lot with the same id as a new lot when renaming", async () => {
+    const result = await SessionPackageService.importStagedPackage(
+      await stageIncoming(),
+      "session-1",
+      "rename",
+    );
+
+    expect(result).toMatchObject({ lotsRenamed: 1, filesImported: 2 });
+    const [, lots] = sessions.saveSessionLots.mock.calls[0];
+    expect(lots[0]).toBe(existingLot);
+    expect(lots[1].id).not.toBe("lot-1");
+    expect(lots[1].files.map((f) => f.name)).toEqual(["a.jpg", "b.jpg"]);
+    expect(media.copyIntoSession).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ lotId: lots[1].id, keepExisting: false }),
+    );
+  });
+
+  it("removes the copied media when the import fails", async () => {
+    sessions.saveSessionLots.mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(
+      SessionPackageService.importStagedPackage(
+        await stageIncoming(),
+        "session-1",
+        "rename",
+      ),
+    ).rejects.toThrow("disk full");
+    const copied = await Promise.all(
+      media.copyIntoSession.mock.results.map((r) => r.value),
+    );
+    expect(copied).toHaveLength(2);
+    expect(media.deleteMedia.mock.calls.map(([uri]) => uri)).toEqual(copied);
+    expect(sessions.deleteSession).not.toHaveBeenCalled();
+  });
+
+  it("deletes a session it created when the import fails", async () => {
+    sessions.getSession.mockResolvedValueOnce(null);
+    sessions.createSession.mockResolvedValueOnce({
+      id: "session-2",
+      name: "Yard sale",
+      createdAt: "2026-06-01T12:00:00.000Z",
+      updatedAt: "2026-06-01T12:00:00.000Z",
+      lots: [],
+      activeLotIdx: -1,
+    });
+    sessions.saveSessionLots.mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(
+      SessionPackageService.importStagedPackage(
+        await stageIncoming(),
+        "session-2",
+        "merge",
+      ),
+    ).rejects.toThrow("disk full");
+    expect(sessions.deleteSession).toHaveBeenCalledWith("session-2");
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  DEFAULT_WATERMARK_SETTINGS,
+  WatermarkService,
+  WatermarkSettings,
+} from "../watermarkService";
+
+const photo = {
+  uri: "file:///lot-1/IMG_0042.jpg",
+  name: "IMG_0042.jpg",
+  type: "image/jpeg",
+  // No zone, so it is read as local time like a capture timestamp shown on the device
+  capturedAt: "2026-03-04T09:05:00",
+  location: { latitude: 51.5074123, longitude: -0.1277589 },
+};
+
+const withTemplate = (template: string): WatermarkSettings => ({
+  ...DEFAULT_WATERMARK_SETTINGS,
+  companyName: "  Acme Auctions ",
+  template,
+});
+
+describe("WatermarkService.formatStampLines", () => {
+  it("fills the default template", () => {
+    expect(
+      WatermarkService.formatStampLines(
+        withTemplate(DEFAULT_WATERMARK_SETTINGS.template),
+        photo,
+        { lotNumber: 3, mode: "single_lot" },
+      ),
+    ).toEqual(["Acme Auctions | Lot 3 | Bundle", "2026-03-04 09:05"]);
+  });
+
+  it("fills the shot, location and file tokens", () => {
+    expect(
+      WatermarkService.formatStampLines(
+        withTemplate("{shot} {location}\n{file}"),
+        photo,
+        { lotNumber: 1, shotLabel: "Front" },
+      ),
+    ).toEqual(["Front 51.50741, -0.12776", "IMG_0042.jpg"]);
+  });
+
+  it("drops separators and lines left empty by missing values", () => {
+    const { capturedAt, location, ...undated } = photo;
+    expect(
+      WatermarkService.formatStampLines(
+        {
+          ...withTemplate("{mode} | {company} | {shot}\n{date} {time}"),
+          companyName: "",
+        },
+        undated,
+        { lotNumber: 2, mode: "per_item" },
+      ),
+    ).toEqual(["Per Item"]);
+  });
+
+  it("keeps unknown tokens and strips accents the stamp font can't draw", () => {
+    expect(
+      WatermarkService.formatStampLines(
+        { ...withTemplate("{company} {vin}"), companyName: "Enchères Côte" },
+        photo,
+        { lotNumber: 1 },
+      ),
+    ).toEqual(["Encheres Cote {vin}"]);
+  });
+});
@@ -0,0 +1,607 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { File } from "expo-file-system";
+
+import { MixedLot, PhotoFile } from "../components/camera/types";
+import { API_BASE_URL } from "../constants/api";
+
+export type AssetCreateDetails = Record<string, any>;
+
+// Frames are the kept exposure-bracket shots of main and extra photos
+export type UploadFileRole = "main" | "extra" | "video" | "frame";
+
+export type UploadFileProgress = {
+  key: string;
+  lotId: string;
+  role: UploadFileRole;
+  index: number;
+  name: string;
+  loadedBytes: number;
+  totalBytes: number;
+  status: "pending" | "uploading" | "done";
+};
+
+export type ProgressData = {
+  serverProgress01?: number;
+  message?: string;
+  steps?: Array<{
+    key?: string;
+    label: string;
+    endedAt?: string;
+    durationMs?: number;
+  }>;
+  loadedBytes?: number;
+  totalBytes?: number;
+  files?: UploadFileProgress[];
+};
+
+export type CreateAssetReportOptions = {
+  // Overrides API_BASE_URL, e.g. for a staging server
+  endpoint?: string;
+  signal?: AbortSignal;
+  onProgressData?: (data: ProgressData) => void;
+  // Stable key (e.g. the queue item id) under which acknowledged chunks are
+  // remembered, so a retry continues where the last attempt stopped
+  resumeKey?: string;
+};
+
+export type CreateAssetReportResult = {
+  reportId: string;
+  jobId?: string;
+};
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
+
+export class UploadHttpError extends Error {
+  status: number;
+  body?: any;
+
+  constructor(status: number, body?: any) {
+    super(`Request failed with status ${status}`);
+    this.name = "UploadHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// The server answered a chunked upload with an offset we can't continue from
+export class UploadOffsetError extends Error {
+  offset: unknown;
+
+  constructor(offset: unknown) {
+    super(`Server returned an invalid upload offset: ${String(offset)}`);
+    this.name = "UploadOffsetError";
+    this.offset = offset;
+  }
+}
+
+const RESUME_STATE_KEY = "@camera_upload_resume";
+
+// Files above this size are sent in acknowledged chunks instead of one request
+const CHUNK_SIZE = 2 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+
+type FileResumeState = {
+  uploadId?: string;
+  ackedOffset: number;
+  done: boolean;
+};
+
+type ReportResumeState = {
+  reportId?: string;
+  files: Record<string, FileResumeState>;
+};
+
+type UploadEntry = {
+  progress: UploadFileProgress;
+  file: PhotoFile;
+};
+
+const getFileSize = (uri: string) => {
+  try {
+    const file = new File(uri);
+    return file.exists ? file.size : 0;
+  } catch {
+    // content:// and ph:// URIs can't be inspected; progress falls back to XHR totals
+    return 0;
+  }
+};
+
+const readResumeStates = async (): Promise<
+  Record<string, ReportResumeState>
+> => {
+  try {
+    const stored = await AsyncStorage.getItem(RESUME_STATE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn("[AssetService] Failed to read resume state:", error);
+    return {};
+  }
+};
+
+const saveResumeState = async (key: string, state: ReportResumeState) => {
+  try {
+    const states = await readResumeStates();
+    states[key] = state;
+    await AsyncStorage.setItem(RESUME_STATE_KEY, JSON.stringify(states));
+  } catch (error) {
+    console.warn("[AssetService] Failed to save resume state:", error);
+  }
+};
+
+const clearResumeState = async (key: string) => {
+  try {
+    const states = await readResumeStates();
+    if (!(key in states)) return;
+    delete states[key];
+    await AsyncStorage.setItem(RESUME_STATE_KEY, JSON.stringify(states));
+  } catch (error) {
+    console.warn("[AssetService] Failed to clear resume state:", error);
+  }
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+
+// Bracket frames of a lot's photos in upload order, each with its photo
+const bracketFramesOf = (lot: MixedLot) =>
+  [...lot.files, ...lot.extraFiles].flatMap((photo) =>
+    (photo.bracket?.frames ?? []).map((frame) => ({ photo, frame })),
+  );
+
+const collectUploads = (lots: MixedLot[]): UploadEntry[] => {
+  const entries: UploadEntry[] = [];
+  const add = (
+    lot: MixedLot,
+    role: UploadFileRole,
+    file: PhotoFile,
+    index: number,
+  ) =>
+    entries.push({
+      file,
+      progress: {
+        key: `${lot.id}:${role}:${index}`,
+        lotId: lot.id,
+        role,
+        index,
+        name: file.name,
+        loadedBytes: 0,
+        totalBytes: getFileSize(file.uri),
+        status: "pending",
+      },
+    });
+
+  lots.forEach((lot) => {
+    lot.files.forEach((file, i) => add(lot, "main", file, i));
+    lot.extraFiles.forEach((file, i) => add(lot, "extra", file, i));
+    lot.videos.forEach((file, i) => add(lot, "video", file, i));
+    bracketFramesOf(lot).forEach(({ photo, frame }, i) =>
+      add(
+        lot,
+        "frame",
+        {
+          uri: frame.uri,
+          name: frame.name,
+          type: "image/jpeg",
+          capturedAt: photo.capturedAt,
+          location: photo.location,
+          facing: photo.facing,
+        },
+        i,
+      ),
+    );
+  });
+  return entries;
+};
+
+// When, where and with which camera a file was taken, sent along with its bytes
+const captureDetails = (file: PhotoFile) => ({
+  capturedAt: file.capturedAt,
+  location: file.location,
+  facing: file.facing,
+});
+
+// Lot structure sent up front; media is matched to it by lotId/role/index
+const toLotManifest = (lot: MixedLot) => ({
+  id: lot.id,
+  mode: lot.mode,
+  coverIndex: lot.coverIndex,
+  files: lot.files.map((f) => f.name),
+  extraFiles: lot.extraFiles.map((f) => f.name),
+  videos: lot.videos.map((f) => f.name),
+  frames: bracketFramesOf(lot).map(({ photo, frame }) => ({
+    photo: photo.name,
+    name: frame.name,
+    exposure: frame.exposure,
+  })),
+});
+
+const parseJson = (text: string) => {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+const requestJson = async <T>(
+  method: "GET" | "POST",
+  url: string,
+  body: unknown,
+  signal?: AbortSignal,
+) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new UploadCancelledError();
+    throw error;
+  }
+  const data = parseJson(await response.text());
+  if (!response.ok) throw new UploadHttpError(response.status, data);
+  return data as T;
+};
+
+// fetch() has no upload progress in React Native, so media goes through XHR
+const sendWithProgress = (
+  method: "POST" | "PUT",
+  url: string,
+  body: FormData | Uint8Array,
+  headers: Record<string, string>,
+  onUploadProgress: (loaded: number, total: number) => void,
+  signal?: AbortSignal,
+) =>
+  new Promise<any>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadCancelledError());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort);
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value),
+    );
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      cleanup();
+      const data = parseJson(xhr.responseText);
+      if (xhr.status >= 200 && xhr.status < 300) resolve(data);
+      else reject(new UploadHttpError(xhr.status, data));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error("Network request failed"));
+    };
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(new Error("Network request timed out"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new UploadCancelledError());
+    };
+    xhr.send(body);
+  });
+
+const uploadWholeFile = (
+  baseUrl: string,
+  reportId: string,
+  { file, progress }: UploadEntry,
+  onBytes: () => void,
+  signal?: AbortSignal,
+) => {
+  const form = new FormData();
+  form.append("lotId", progress.lotId);
+  form.append("role", progress.role);
+  form.append("index", String(progress.index));
+  const { capturedAt, location, facing } = captureDetails(file);
+  if (capturedAt) form.append("capturedAt", capturedAt);
+  if (location) form.append("location", JSON.stringify(location));
+  if (facing) form.append("facing", facing);
+  // React Native's FormData streams {uri, name, type} entries from disk
+  form.append("file", {
+    uri: file.uri,
+    name: file.name,
+    type: file.type,
+  } as any);
+
+  return sendWithProgress(
+    "POST",
+    `${baseUrl}/reports/${encodeURIComponent(reportId)}/files`,
+    form,
+    {},
+    (loaded, total) => {
+      // The request total includes multipart headers; scale to the file size
+      if (progress.totalBytes === 0) progress.totalBytes = total;
+      progress.loadedBytes = Math.min(
+        progress.totalBytes,
+        Math.round((loaded / total) * progress.totalBytes),
+      );
+      onBytes();
+    },
+    signal,
+  );
+};
+
+// Offsets come from the server; anything that is not a whole byte position
+// inside the file (NaN, negative, past the end) would loop or corrupt the upload
+const checkOffset = (offset: unknown, totalBytes: number, after = -1) => {
+  if (
+    typeof offset !== "number" ||
+    !Number.isInteger(offset) ||
+    offset <= after ||
+    offset < 0 ||
+    offset > totalBytes
+  ) {
+    throw new UploadOffsetError(offset);
+  }
+  return offset;
+};
+
+// Sends a large file in CHUNK_SIZE pieces. The server only advances its offset
+// for a chunk whose SHA-256 matches, and that offset is what we resume from.
+const uploadChunkedFile = async (
+  baseUrl: string,
+  reportId: string,
+  { file, progress }: UploadEntry,
+  state: FileResumeState,
+  persist: () => Promise<void>,
+  onBytes: () => void,
+  signal?: AbortSignal,
+) => {
+  const uploadsUrl = `${baseUrl}/reports/${encodeURIComponent(reportId)}/uploads`;
+  let offset = 0;
+
+  if (state.uploadId) {
+    try {
+      const status = await requestJson<{ offset: number }>(
+        "GET",
+        `${uploadsUrl}/${encodeURIComponent(state.uploadId)}`,
+        undefined,
+        signal,
+      );
+      offset = checkOffset(status.offset, progress.totalBytes);
+    } catch (error) {
+      // The server forgot this upload; start the file over
+      if (!(error instanceof UploadHttpError && error.status === 404)) {
+        throw error;
+      }
+      state.uploadId = undefined;
+    }
+  }
+  if (!state.uploadId) {
+    const created = await requestJson<{ uploadId: string; offset: number }>(
+      "POST",
+      uploadsUrl,
+      {
+        lotId: progress.lotId,
+        role: progress.role,
+        index: progress.index,
+        name: file.name,
+        type: file.type,
+        size: progress.totalBytes,
+        ...captureDetails(file),
+      },
+      signal,
+    );
+    state.uploadId = created.uploadId;
+    offset = checkOffset(created.offset, progress.totalBytes);
+  }
+  state.ackedOffset = offset;
+  await persist();
+
+  const chunkUrl = `${uploadsUrl}/${encodeURIComponent(state.uploadId)}`;
+  const handle = new File(file.uri).open();
+  try {
+    let attempts = 0;
+    while (offset < progress.totalBytes) {
+      handle.offset = offset;
+      const chunk = handle.readBytes(
+        Math.min(CHUNK_SIZE, progress.totalBytes - offset),
+      );
+      const checksum = toHex(
+        await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, chunk),
+      );
+      const chunkStart = offset;
+      progress.loadedBytes = chunkStart;
+      onBytes();
+
+      try {
+        const ack = await sendWithProgress(
+          "PUT",
+          chunkUrl,
+          chunk,
+          {
+            "Content-Type": "application/octet-stream",
+            "X-Chunk-Offset": String(chunkStart),
+            "X-Chunk-Sha256": checksum,
+          },
+          (loaded) => {
+            progress.loadedBytes = chunkStart + loaded;
+            onBytes();
+          },
+          signal,
+        );
+        // An ack must move past the chunk it acknowledges
+        offset = checkOffset(ack.offset, progress.totalBytes, chunkStart);
+        attempts = 0;
+      } catch (error) {
+        if (!(error instanceof UploadHttpError)) throw error;
+        // 409: our offset is stale (e.g. an ack was lost); the server says where to continue
+        if (error.status === 409 && typeof error.body?.offset === "number") {
+          offset = checkOffset(error.body.offset, progress.totalBytes);
+        } else if (error.status === 422 && ++attempts < MAX_CHUNK_ATTEMPTS) {
+          // Checksum mismatch: the chunk was corrupted in transit, send it again
+          continue;
+        } else {
+          throw error;
+        }
+      }
+      state.ackedOffset = offset;
+      progress.loadedBytes = offset;
+      await persist();
+      onBytes();
+    }
+  } finally {
+    handle.close();
+  }
+};
+
+// Creates the report, uploads every lot file (small ones as a single multipart
+// request, large ones in resumable chunks), then asks the server to start
+// processing. With a resumeKey, files and chunks the server already
+// acknowledged are skipped on the next attempt.
+const createAssetReport = async (
+  details: AssetCreateDetails,
+  lots: MixedLot[],
+  onProgress?: (progress: number) => void,
+  options: CreateAssetReportOptions = {},
+): Promise<CreateAssetReportResult> => {
+  const baseUrl = (options.endpoint ?? API_BASE_URL).replace(/\/+$/, "");
+  const { signal, onProgressData, resumeKey } = options;
+  const uploads = collectUploads(lots);
+  const resumed = resumeKey ? (await readResumeStates())[resumeKey] : undefined;
+  const state: ReportResumeState = resumed ?? { files: {} };
+  const persist = () =>
+    resumeKey ? saveResumeState(resumeKey, state) : Promise.resolve();
+  const steps: NonNullable<ProgressData["steps"]> = [];
+  let stepStartedAt = Date.now();
+
+  const emit = (message: string) => {
+    const loadedBytes = uploads.reduce((s, u) => s + u.progress.loadedBytes, 0);
+    const totalBytes = uploads.reduce((s, u) => s + u.progress.totalBytes, 0);
+    const doneCount = uploads.filter(
+      (u) => u.progress.status === "done",
+    ).length;
+    const overall01 =
+      totalBytes > 0
+        ? loadedBytes / totalBytes
+        : uploads.length > 0
+          ? doneCount / uploads.length
+          : 1;
+    onProgress?.(Math.round(overall01 * 100));
+    onProgressData?.({
+      serverProgress01: overall01,
+      message,
+      steps: [...steps],
+      loadedBytes,
+      totalBytes,
+      files: uploads.map((u) => ({ ...u.progress })),
+    });
+  };
+
+  const endStep = (key: string, label: string) => {
+    const now = Date.now();
+    steps.push({
+      key,
+      label,
+      endedAt: new Date(now).toISOString(),
+      durationMs: now - stepStartedAt,
+    });
+    stepStartedAt = now;
+  };
+
+  let reportId = state.reportId;
+  if (!reportId) {
+    emit("Creating report");
+    const created = await requestJson<{ reportId: string }>(
+      "POST",
+      `${baseUrl}/reports`,
+      { details, lots: lots.map(toLotManifest) },
+      signal,
+    );
+    reportId = created.reportId;
+    state.reportId = reportId;
+    await persist();
+  }
+  endStep("create", resumed ? "Report resumed" : "Report created");
+
+  try {
+    for (const entry of uploads) {
+      const { progress } = entry;
+      const fileState = (state.files[progress.key] ??= {
+        ackedOffset: 0,
+        done: false,
+      });
+      if (fileState.done) {
+        progress.loadedBytes = progress.totalBytes;
+        progress.status = "done";
+        continue;
+      }
+
+      progress.status = "uploading";
+      progress.loadedBytes = fileState.ackedOffset;
+      const message = `Uploading ${progress.name}`;
+      emit(message);
+
+      if (progress.totalBytes > CHUNK_SIZE) {
+        await uploadChunkedFile(
+          baseUrl,
+          reportId,
+          entry,
+          fileState,
+          persist,
+          () => emit(message),
+          signal,
+        );
+      } else {
+        await uploadWholeFile(
+          baseUrl,
+          reportId,
+          entry,
+          () => emit(message),
+          signal,
+        );
+      }
+      progress.loadedBytes = progress.totalBytes;
+      progress.status = "done";
+      fileState.done = true;
+      await persist();
+    }
+    endStep("upload", `Uploaded ${uploads.length} file(s)`);
+    emit("Finalizing report");
+
+    const { jobId } = await requestJson<{ jobId?: string }>(
+      "POST",
+      `${baseUrl}/reports/${encodeURIComponent(reportId)}/complete`,
+      {},
+      signal,
+    );
+    endStep("complete", "Report submitted");
+    emit("Report submitted");
+    if (resumeKey) await clearResumeState(resumeKey);
+
+    return { reportId, jobId };
+  } catch (error) {
+    // The server no longer knows this report; the next attempt starts fresh
+    if (resumeKey && error instanceof UploadHttpError && error.status === 404) {
+      await clearResumeState(resumeKey);
+    }
+    throw error;
+  }
+};
+
+export const assetService = {
+  createAssetReport,
+  clearResumeState,
+};
+
+export default assetService;
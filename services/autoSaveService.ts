@@ -0,0 +1,137 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { MixedLot } from "../components/camera/types";
+import {
+  InvalidLot,
+  LOT_SCHEMA_VERSION,
+  LotSchemaService,
+} from "./lotSchemaService";
+
+const AUTO_SAVE_KEY = "@camera_check_autosave";
+
+export type AutoSaveFormType = "asset" | "realEstate";
+export type AutoSaveFormData = Record<string, any>;
+
+// Lot shape written by the original report app (URIs only, no metadata);
+// LotSchemaService migrates it to MixedLot on load
+export type RestoredLotData = {
+  id: string;
+  mode?: MixedLot["mode"];
+  mainImages: string[];
+  extraImages: string[];
+  videoFiles: string[];
+  coverIndex: number;
+};
+
+export type AutoSaveData = {
+  formData: AutoSaveFormData;
+  lots: MixedLot[];
+  activeLotIdx: number;
+  formType: AutoSaveFormType;
+  savedAt: string;
+  // Stored lots that failed validation; not restored but reported to the user
+  invalidLots: InvalidLot[];
+};
+
+export type AutoSaveSummary = {
+  exists: boolean;
+  totalImages: number;
+  totalLots: number;
+  savedAt?: string;
+};
+
+const EMPTY_SUMMARY: AutoSaveSummary = {
+  exists: false,
+  totalImages: 0,
+  totalLots: 0,
+  savedAt: undefined,
+};
+
+const countImages = (lots: MixedLot[]) =>
+  lots.reduce((sum, lot) => sum + lot.files.length + lot.extraFiles.length, 0);
+
+const hasContent = (lots: MixedLot[]) =>
+  lots.some(
+    (lot) =>
+      lot.files.length > 0 ||
+      lot.extraFiles.length > 0 ||
+      lot.videos.length > 0,
+  );
+
+const getAutoSave = async (): Promise<AutoSaveData | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(AUTO_SAVE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    const { lots, invalidLots } = LotSchemaService.deserializeLots(
+      parsed?.lots,
+      parsed?.schemaVersion,
+    );
+    const activeLotIdx =
+      typeof parsed?.activeLotIdx === "number" ? parsed.activeLotIdx : -1;
+    return {
+      formData: parsed?.formData ?? {},
+      lots,
+      activeLotIdx: Math.min(activeLotIdx, lots.length - 1),
+      formType: parsed?.formType === "realEstate" ? "realEstate" : "asset",
+      savedAt: parsed?.savedAt ?? new Date(0).toISOString(),
+      invalidLots,
+    };
+  } catch (error) {
+    console.warn("[AutoSave] Failed to load:", error);
+    return null;
+  }
+};
+
+const getAutoSaveSummary = async (): Promise<AutoSaveSummary> => {
+  const data = await getAutoSave();
+  if (!data || !hasContent(data.lots)) return EMPTY_SUMMARY;
+  return {
+    exists: true,
+    totalImages: countImages(data.lots),
+    totalLots: data.lots.filter(
+      (lot) => lot.files.length > 0 || lot.extraFiles.length > 0,
+    ).length,
+    savedAt: data.savedAt,
+  };
+};
+
+const saveAutoSave = async (
+  formData: AutoSaveFormData,
+  lots: MixedLot[],
+  activeLotIdx: number,
+  formType: AutoSaveFormType,
+) => {
+  // Never overwrite a recoverable session with an empty one
+  if (!hasContent(lots)) return;
+  const data = {
+    schemaVersion: LOT_SCHEMA_VERSION,
+    formData,
+    lots,
+    activeLotIdx,
+    formType,
+    savedAt: new Date().toISOString(),
+  };
+  try {
+    await AsyncStorage.setItem(AUTO_SAVE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.warn("[AutoSave] Failed to save:", error);
+  }
+};
+
+const deleteAutoSave = async () => {
+  try {
+    await AsyncStorage.removeItem(AUTO_SAVE_KEY);
+  } catch (error) {
+    console.warn("[AutoSave] Failed to delete:", error);
+  }
+};
+
+export const AutoSaveService = {
+  getAutoSaveSummary,
+  getAutoSave,
+  saveAutoSave,
+  deleteAutoSave,
+};
+
+export default AutoSaveService;
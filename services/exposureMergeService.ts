@@ -0,0 +1,156 @@
+import { File, Paths } from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as jpeg from "jpeg-js";
+
+import { SessionMediaService } from "./sessionMediaService";
+
+// Offsets (EV) a bracketed capture is shot at, relative to the current exposure
+export const BRACKET_EXPOSURES = [-2, 0, 2];
+
+// Frames are merged at a reduced size: decoding full-resolution frames in JS
+// would need several hundred MB for a 48 MP sensor.
+const MERGE_MAX_EDGE = 3072;
+
+// Width of the well-exposedness curve (Mertens et al.): how quickly a pixel's
+// weight drops as its luminance moves away from mid-grey
+const WELL_EXPOSED_SIGMA = 0.2;
+
+const ROWS_PER_CHUNK = 256;
+
+type DecodedFrame = {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Uint8Array;
+};
+
+export type MergedImage = {
+  uri: string;
+  width: number;
+  height: number;
+};
+
+// Weight per 8-bit luminance value
+const WEIGHT_BY_LUMA = Array.from({ length: 256 }, (_, luma) => {
+  const offset = luma / 255 - 0.5;
+  return (
+    Math.exp(
+      -(offset * offset) / (2 * WELL_EXPOSED_SIGMA * WELL_EXPOSED_SIGMA),
+    ) + 1e-6
+  );
+});
+
+const breathe = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const deleteQuietly = (uri: string) => {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn("[ExposureMerge] Failed to delete temp file:", error);
+  }
+};
+
+// Decodes a frame, scaled down so its longer edge is at most MERGE_MAX_EDGE
+const loadFrame = async (uri: string): Promise<DecodedFrame> => {
+  const full = await ImageManipulator.manipulate(uri).renderAsync();
+  const scale = Math.min(1, MERGE_MAX_EDGE / Math.max(full.width, full.height));
+  const image =
+    scale < 1
+      ? await ImageManipulator.manipulate(full)
+          .resize({ width: Math.round(full.width * scale) })
+          .renderAsync()
+      : full;
+  const saved = await image.saveAsync({ format: SaveFormat.JPEG, compress: 1 });
+  try {
+    const bytes = await new File(saved.uri).bytes();
+    return jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+  } finally {
+    deleteQuietly(saved.uri);
+  }
+};
+
+// Single-scale exposure fusion: every output pixel is the average of the
+// frames' pixels, weighted by how close each is to mid-grey. Written straight
+// into a 24-bit bottom-up BMP, which the native encoder turns into a JPEG.
+const fuseToBmp = async (frames: DecodedFrame[]) => {
+  const { width, height } = frames[0];
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const headerSize = 54;
+  const bmp = new Uint8Array(headerSize + rowSize * height);
+  const header = new DataView(bmp.buffer);
+  header.setUint8(0, 0x42); // "B"
+  header.setUint8(1, 0x4d); // "M"
+  header.setUint32(2, bmp.length, true);
+  header.setUint32(10, headerSize, true);
+  header.setUint32(14, 40, true);
+  header.setInt32(18, width, true);
+  header.setInt32(22, height, true);
+  header.setUint16(26, 1, true);
+  header.setUint16(28, 24, true);
+  header.setUint32(34, rowSize * height, true);
+
+  for (let y = 0; y < height; y++) {
+    let out = headerSize + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let total = 0;
+      for (const { data } of frames) {
+        const luma = (77 * data[i] + 150 * data[i + 1] + 29 * data[i + 2]) >> 8;
+        const weight = WEIGHT_BY_LUMA[luma];
+        r += weight * data[i];
+        g += weight * data[i + 1];
+        b += weight * data[i + 2];
+        total += weight;
+      }
+      bmp[out++] = Math.round(b / total);
+      bmp[out++] = Math.round(g / total);
+      bmp[out++] = Math.round(r / total);
+    }
+    if (y % ROWS_PER_CHUNK === ROWS_PER_CHUNK - 1) await breathe();
+  }
+  return bmp;
+};
+
+// Tone-merges a bracketed series into one JPEG stored next to the frames.
+// Throws if a frame can't be read or the frames differ in size.
+const mergeBracket = async (
+  frameUris: string[],
+  target: { sessionId: string; lotId: string; fileName: string },
+): Promise<MergedImage> => {
+  const frames: DecodedFrame[] = [];
+  for (const uri of frameUris) {
+    frames.push(await loadFrame(uri));
+    await breathe();
+  }
+  const { width, height } = frames[0];
+  if (frames.some((f) => f.width !== width || f.height !== height)) {
+    throw new Error("Bracket frames differ in size");
+  }
+
+  const bmpFile = new File(Paths.cache, `bracket-${Date.now()}.bmp`);
+  bmpFile.create({ overwrite: true });
+  bmpFile.write(await fuseToBmp(frames));
+  frames.length = 0;
+
+  try {
+    const merged = await ImageManipulator.manipulate(bmpFile.uri).renderAsync();
+    const saved = await merged.saveAsync({
+      format: SaveFormat.JPEG,
+      compress: 0.92,
+    });
+    const uri = await SessionMediaService.persistCapture(saved.uri, target);
+    return { uri, width: saved.width, height: saved.height };
+  } finally {
+    deleteQuietly(bmpFile.uri);
+  }
+};
+
+export const ExposureMergeService = {
+  mergeBracket,
+};
+
+export default ExposureMergeService;
@@ -0,0 +1,197 @@
+import {
+  LOT_IDENTIFIER_LABELS,
+  LotIdentifier,
+  LotIdentifierKind,
+} from "../components/camera/types";
+
+export type VinInfo = {
+  // Null when the year code is not a valid one
+  modelYear: number | null;
+  region: string;
+  // Only for manufacturer codes that map to a single country
+  country?: string;
+};
+
+export type IdentifierIssue = {
+  kind: LotIdentifierKind;
+  value: string;
+  message: string;
+};
+
+// Letters I, O and Q are never used so they can't be misread as 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// ISO 3779 transliteration of letters to digits for the check digit sum
+const VIN_LETTER_VALUES: Record<string, number> = {
+  A: 1,
+  B: 2,
+  C: 3,
+  D: 4,
+  E: 5,
+  F: 6,
+  G: 7,
+  H: 8,
+  J: 1,
+  K: 2,
+  L: 3,
+  M: 4,
+  N: 5,
+  P: 7,
+  R: 9,
+  S: 2,
+  T: 3,
+  U: 4,
+  V: 5,
+  W: 6,
+  X: 7,
+  Y: 8,
+  Z: 9,
+};
+
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles through these every 30 years, starting with A = 1980
+const MODEL_YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+// First character of the manufacturer code (ISO 3780)
+const VIN_REGIONS: [RegExp, string][] = [
+  [/^[A-H]/, "Africa"],
+  [/^[J-R]/, "Asia"],
+  [/^[S-Z]/, "Europe"],
+  [/^[1-5]/, "North America"],
+  [/^[67]/, "Oceania"],
+  [/^[89]/, "South America"],
+];
+
+const VIN_COUNTRIES: Record<string, string> = {
+  "1": "United States",
+  "4": "United States",
+  "5": "United States",
+  "2": "Canada",
+  J: "Japan",
+  L: "China",
+  W: "Germany",
+};
+
+const MAX_SERIAL_LENGTH = 64;
+
+// Case, spacing and separators as printed on plates and labels; the stored
+// value is what gets validated and matched against scans
+const normalizeIdentifier = (kind: LotIdentifierKind, value: string) => {
+  const trimmed = value.trim();
+  switch (kind) {
+    case "vin": {
+      const vin = trimmed.toUpperCase().replace(/[\s-]/g, "");
+      // Code 39 VIN labels on imported vehicles carry a leading "I"
+      return vin.length === 18 && vin.startsWith("I") ? vin.slice(1) : vin;
+    }
+    case "hour_meter":
+    case "odometer":
+      return trimmed.replace(/[\s,]/g, "");
+    default:
+      return trimmed;
+  }
+};
+
+// Expected check digit (position 9) for a well-formed VIN, else null
+const vinCheckDigit = (vin: string): string | null => {
+  if (!VIN_PATTERN.test(vin)) return null;
+  const sum = [...vin].reduce((total, char, i) => {
+    const value = VIN_LETTER_VALUES[char] ?? Number(char);
+    return total + value * VIN_WEIGHTS[i];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+};
+
+const isValidVin = (vin: string) => vinCheckDigit(vin) === vin[8];
+
+// Whether a scanned code should be offered as a VIN rather than an asset tag
+const looksLikeVin = (value: string) =>
+  isValidVin(normalizeIdentifier("vin", value));
+
+// Model year and where the manufacturer is registered, decoded offline from
+// the VIN itself. The year code repeats every 30 years: VINs built to the
+// North American rules (the ones with a valid check digit) use a letter in
+// position 7 from 2010 on; otherwise the latest year that is not in the
+// future is assumed.
+const decodeVin = (vin: string): VinInfo | null => {
+  if (!VIN_PATTERN.test(vin)) return null;
+  const region =
+    VIN_REGIONS.find(([pattern]) => pattern.test(vin))?.[1] ?? "Unknown";
+  const yearIndex = MODEL_YEAR_CODES.indexOf(vin[9]);
+  let modelYear: number | null = null;
+  if (yearIndex >= 0) {
+    const latest = new Date().getFullYear() + 1;
+    const candidates = [0, 30, 60]
+      .map((offset) => 1980 + yearIndex + offset)
+      .filter((year) => year <= latest);
+    if (isValidVin(vin) && candidates.length > 1) {
+      modelYear = /[0-9]/.test(vin[6]) ? candidates[0] : candidates[1];
+    } else {
+      modelYear = candidates[candidates.length - 1] ?? null;
+    }
+  }
+  return { modelYear, region, country: VIN_COUNTRIES[vin[0]] };
+};
+
+const describeVin = (info: VinInfo) =>
+  [
+    info.modelYear ? String(info.modelYear) : null,
+    info.country ? `${info.region} (${info.country})` : info.region,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// Why a stored value is not acceptable for its kind, or null when it is
+const validateIdentifier = (
+  kind: LotIdentifierKind,
+  value: string,
+): string | null => {
+  const label = LOT_IDENTIFIER_LABELS[kind];
+  if (!value) return `${label} is empty`;
+  switch (kind) {
+    case "vin":
+      if (value.length !== 17) {
+        return `VIN must be 17 characters (has ${value.length})`;
+      }
+      if (!VIN_PATTERN.test(value)) {
+        return "VIN has characters that are not allowed (I, O, Q or symbols)";
+      }
+      if (!isValidVin(value)) {
+        return `VIN check digit is ${value[8]}, expected ${vinCheckDigit(value)}`;
+      }
+      return null;
+    case "hour_meter":
+    case "odometer":
+      return /^\d+(\.\d+)?$/.test(value) ? null : `${label} must be a number`;
+    case "serial":
+      return value.length > MAX_SERIAL_LENGTH
+        ? `${label} is longer than ${MAX_SERIAL_LENGTH} characters`
+        : null;
+    default:
+      return null;
+  }
+};
+
+const findIdentifierIssues = (
+  identifiers: LotIdentifier[] = [],
+): IdentifierIssue[] =>
+  identifiers.flatMap((identifier) => {
+    const message = validateIdentifier(identifier.kind, identifier.value);
+    return message
+      ? [{ kind: identifier.kind, value: identifier.value, message }]
+      : [];
+  });
+
+export const IdentifierService = {
+  normalizeIdentifier,
+  validateIdentifier,
+  findIdentifierIssues,
+  vinCheckDigit,
+  looksLikeVin,
+  decodeVin,
+  describeVin,
+};
+
+export default IdentifierService;
@@ -0,0 +1,275 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { MixedLot, PhotoFile } from "../components/camera/types";
+import { InspectionStoreService } from "./inspectionStoreService";
+import { InvalidLot, LotSchemaService } from "./lotSchemaService";
+import { SessionMediaService } from "./sessionMediaService";
+
+// Pre-SQLite storage, migrated into InspectionStoreService on first use
+const SESSION_INDEX_KEY = "@inspection_sessions";
+const SESSION_KEY_PREFIX = "@inspection_session:";
+
+export type InspectionSession = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  lots: MixedLot[];
+  activeLotIdx: number;
+  enhanceImages?: boolean;
+  // Export and upload the watermarked copies of photos instead of the originals
+  stampedCopies?: boolean;
+  // Stored lots that failed validation. They are kept with the session so
+  // nothing is lost, but never handed to the editor.
+  invalidLots?: InvalidLot[];
+};
+
+export type InspectionSessionSummary = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  lotCount: number;
+  imageCount: number;
+  thumbnailUri?: string;
+  sizeBytes?: number;
+};
+
+type SessionPatch = Partial<
+  Pick<
+    InspectionSession,
+    "name" | "lots" | "activeLotIdx" | "enhanceImages" | "stampedCopies"
+  >
+>;
+
+export type SessionState = Partial<
+  Pick<InspectionSession, "activeLotIdx" | "enhanceImages" | "stampedCopies">
+>;
+
+const sessionKey = (id: string) => `${SESSION_KEY_PREFIX}${id}`;
+
+const defaultSessionName = (date = new Date()) =>
+  `Inspection - ${date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+
+// Sessions used to be whole JSON documents in AsyncStorage; move them into
+// the SQLite store once, then drop the old keys.
+const migrateFromAsyncStorage = async () => {
+  const stored = await AsyncStorage.getItem(SESSION_INDEX_KEY);
+  if (!stored) return;
+  const index: { id: string }[] = JSON.parse(stored);
+  for (const { id } of Array.isArray(index) ? index : []) {
+    const raw = await AsyncStorage.getItem(sessionKey(id));
+    if (raw && !InspectionStoreService.getSession(id)) {
+      const { schemaVersion, lots: storedLots, ...parsed } = JSON.parse(raw);
+      const { lots, invalidLots } = LotSchemaService.deserializeLots(
+        storedLots,
+        schemaVersion,
+      );
+      const carried: InvalidLot[] = Array.isArray(parsed.invalidLots)
+        ? parsed.invalidLots
+        : [];
+      InspectionStoreService.saveSession({
+        id,
+        name: parsed.name ?? defaultSessionName(),
+        createdAt: parsed.createdAt ?? new Date().toISOString(),
+        updatedAt: parsed.updatedAt ?? new Date().toISOString(),
+        activeLotIdx:
+          typeof parsed.activeLotIdx === "number"
+            ? Math.min(parsed.activeLotIdx, lots.length - 1)
+            : -1,
+        enhanceImages: parsed.enhanceImages,
+        invalidLots: [...carried, ...invalidLots],
+      });
+      // Keep the stored updatedAt so the library order doesn't change
+      InspectionStoreService.replaceLots(id, lots, { touch: false });
+    }
+    await AsyncStorage.removeItem(sessionKey(id));
+  }
+  await AsyncStorage.removeItem(SESSION_INDEX_KEY);
+};
+
+let migrated: Promise<void> | null = null;
+const ensureMigrated = () => {
+  if (!migrated) {
+    migrated = migrateFromAsyncStorage().catch((error) =>
+      console.warn("[Sessions] Failed to migrate stored sessions:", error),
+    );
+  }
+  return migrated;
+};
+
+const listSessions = async (): Promise<InspectionSessionSummary[]> => {
+  await ensureMigrated();
+  try {
+    const sessions = InspectionStoreService.listSessions();
+    return await Promise.all(
+      sessions.map(async (session) => ({
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        lotCount: session.lotCount,
+        imageCount: session.imageCount,
+        thumbnailUri: session.thumbnailUri,
+        sizeBytes: await SessionMediaService.getSessionSize(session.id).catch(
+          () => 0,
+        ),
+      })),
+    );
+  } catch (error) {
+    console.warn("[Sessions] Failed to list sessions:", error);
+    return [];
+  }
+};
+
+// Session details without its lots; the editor subscribes to lot rows itself
+const getSessionInfo = async (
+  id: string,
+): Promise<Omit<InspectionSession, "lots"> | null> => {
+  await ensureMigrated();
+  try {
+    return InspectionStoreService.getSession(id);
+  } catch (error) {
+    console.warn("[Sessions] Failed to load session:", id, error);
+    return null;
+  }
+};
+
+const getSession = async (id: string): Promise<InspectionSession | null> => {
+  const info = await getSessionInfo(id);
+  if (!info) return null;
+  try {
+    return { ...info, lots: InspectionStoreService.getLots(id) };
+  } catch (error) {
+    console.warn("[Sessions] Failed to load session lots:", id, error);
+    return null;
+  }
+};
+
+const createSession = async (
+  name?: string,
+  initial?: SessionPatch & { id?: string },
+): Promise<InspectionSession> => {
+  await ensureMigrated();
+  const now = new Date();
+  const session: InspectionSession = {
+    id: initial?.id ?? SessionMediaService.createSessionId(),
+    name: name?.trim() || defaultSessionName(now),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    lots: initial?.lots ?? [],
+    activeLotIdx: initial?.activeLotIdx ?? -1,
+    enhanceImages: initial?.enhanceImages,
+    stampedCopies: initial?.stampedCopies,
+  };
+  try {
+    const { lots, ...record } = session;
+    InspectionStoreService.saveSession(record);
+    if (lots.length > 0) InspectionStoreService.replaceLots(session.id, lots);
+  } catch (error) {
+    console.warn("[Sessions] Failed to save session:", session.id, error);
+  }
+  return session;
+};
+
+const updateSession = async (id: string, patch: SessionPatch) => {
+  const current = await getSessionInfo(id);
+  if (!current) {
+    console.warn("[Sessions] Cannot update missing session:", id);
+    return null;
+  }
+  const { lots, ...fields } = patch;
+  const session = {
+    ...current,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+  };
+  try {
+    InspectionStoreService.saveSession(session);
+    if (lots) InspectionStoreService.replaceLots(id, lots);
+  } catch (error) {
+    console.warn("[Sessions] Failed to save session:", id, error);
+  }
+  return session;
+};
+
+// Replaces every lot of the session; captures write single rows instead
+const saveSessionLots = (
+  id: string,
+  lots: MixedLot[],
+  activeLotIdx: number,
+  enhanceImages?: boolean,
+) => updateSession(id, { lots, activeLotIdx, enhanceImages });
+
+const updateSessionState = (id: string, state: SessionState) =>
+  updateSession(id, state);
+
+const renameSession = (id: string, name: string) =>
+  updateSession(id, { name: name.trim() || defaultSessionName() });
+
+const duplicateSession = async (id: string) => {
+  const source = await getSession(id);
+  if (!source) return null;
+
+  const newId = SessionMediaService.createSessionId();
+  const uriMap = await SessionMediaService.duplicateSession(id, newId);
+  const remap = (file: PhotoFile): PhotoFile => ({
+    ...file,
+    uri: uriMap.get(file.uri) ?? file.uri,
+    displayUri: file.displayUri
+      ? (uriMap.get(file.displayUri) ?? file.displayUri)
+      : undefined,
+    bracket: file.bracket
+      ? {
+          ...file.bracket,
+          frames: file.bracket.frames.map((frame) => ({
+            ...frame,
+            uri: uriMap.get(frame.uri) ?? frame.uri,
+          })),
+        }
+      : undefined,
+  });
+  const lots = source.lots.map((lot) => ({
+    ...lot,
+    files: lot.files.map(remap),
+    extraFiles: lot.extraFiles.map(remap),
+    videos: lot.videos.map(remap),
+  }));
+
+  return createSession(`${source.name} (copy)`, {
+    id: newId,
+    lots,
+    activeLotIdx: source.activeLotIdx,
+    enhanceImages: source.enhanceImages,
+    stampedCopies: source.stampedCopies,
+  });
+};
+
+const deleteSession = async (id: string) => {
+  await ensureMigrated();
+  try {
+    InspectionStoreService.deleteSession(id);
+  } catch (error) {
+    console.warn("[Sessions] Failed to delete session:", error);
+  }
+  await SessionMediaService.deleteSession(id);
+};
+
+export const InspectionSessionService = {
+  listSessions,
+  getSession,
+  getSessionInfo,
+  createSession,
+  saveSessionLots,
+  updateSessionState,
+  renameSession,
+  duplicateSession,
+  deleteSession,
+};
+
+export default InspectionSessionService;
@@ -0,0 +1,1213 @@
+import * as SQLite from "expo-sqlite";
+
+import {
+  CameraFacing,
+  CaptureMode,
+  createNewLot,
+  LotIdentifier,
+  LotIdentifierKind,
+  MixedLot,
+  PhotoFile,
+} from "../components/camera/types";
+import { InvalidLot } from "./lotSchemaService";
+
+const DATABASE_NAME = "inspections.db";
+
+export type PhotoRole = "main" | "extra";
+
+// One row per session, as stored (lots live in their own tables)
+export type SessionRecord = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  activeLotIdx: number;
+  enhanceImages?: boolean;
+  stampedCopies?: boolean;
+  invalidLots?: InvalidLot[];
+};
+
+export type SessionRecordWithCounts = SessionRecord & {
+  lotCount: number;
+  imageCount: number;
+  thumbnailUri?: string;
+};
+
+// What a lot list needs without loading any photo rows
+export type LotSummary = {
+  id: string;
+  mode?: CaptureMode;
+  coverIndex: number;
+  photoCount: number;
+  extraCount: number;
+  videoCount: number;
+  coverUri?: string;
+  shotListId?: string;
+  // Shot-list shots with at least one photo, sorted
+  takenShots: string[];
+};
+
+// What a scan did: jumped to the lot it matched, tagged the current lot, or
+// nothing (the user dismissed the tag prompt)
+export type ScanAction = "jump" | "tagged" | "ignored";
+
+// One entry in a session's scan history, newest first
+export type ScanRecord = {
+  id: number;
+  value: string;
+  codeType: string;
+  lotId?: string;
+  action: ScanAction;
+  scannedAt: string;
+};
+
+type SessionRow = {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  active_lot_idx: number;
+  enhance_images: number | null;
+  stamped_copies: number | null;
+  invalid_lots: string | null;
+};
+
+type LotRow = {
+  id: string;
+  mode: string | null;
+  cover_index: number;
+  shot_list_id: string | null;
+};
+
+type IdentifierRow = {
+  lot_id: string;
+  kind: string;
+  value: string;
+  code_type: string | null;
+  added_at: string;
+};
+
+type ScanRow = {
+  id: number;
+  value: string;
+  code_type: string;
+  lot_id: string | null;
+  action: string;
+  scanned_at: string;
+};
+
+type FileRow = {
+  lot_id: string;
+  role?: PhotoRole;
+  uri: string;
+  display_uri: string | null;
+  name: string;
+  type: string;
+  width: number | null;
+  height: number | null;
+  megapixels: number | null;
+  focus_box: string | null;
+  adjustments: string | null;
+  bracket: string | null;
+  sharpness: number | null;
+  shot: string | null;
+  captured_at: string | null;
+  location: string | null;
+  facing: string | null;
+  duration: number | null;
+  size_bytes: number | null;
+};
+
+// Each entry upgrades the schema by one version (PRAGMA user_version)
+const SCHEMA_MIGRATIONS = [
+  `
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    active_lot_idx INTEGER NOT NULL DEFAULT -1,
+    enhance_images INTEGER,
+    invalid_lots TEXT
+  );
+  CREATE INDEX sessions_by_updated ON sessions (updated_at);
+
+  CREATE TABLE lots (
+    session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    mode TEXT,
+    cover_index INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (session_id, id)
+  );
+  CREATE INDEX lots_by_position ON lots (session_id, position);
+
+  CREATE TABLE photos (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    lot_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    uri TEXT NOT NULL,
+    display_uri TEXT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    megapixels REAL,
+    focus_box TEXT,
+    adjustments TEXT,
+    FOREIGN KEY (session_id, lot_id) REFERENCES lots (session_id, id) ON DELETE CASCADE
+  );
+  CREATE INDEX photos_by_lot ON photos (session_id, lot_id, role, position);
+
+  CREATE TABLE videos (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    lot_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    uri TEXT NOT NULL,
+    display_uri TEXT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    megapixels REAL,
+    focus_box TEXT,
+    adjustments TEXT,
+    FOREIGN KEY (session_id, lot_id) REFERENCES lots (session_id, id) ON DELETE CASCADE
+  );
+  CREATE INDEX videos_by_lot ON videos (session_id, lot_id, position);
+  `,
+  // Exposure bracket sets (JSON) on photos; videos share the file columns
+  `
+  ALTER TABLE photos ADD COLUMN bracket TEXT;
+  ALTER TABLE videos ADD COLUMN bracket TEXT;
+  `,
+  // Post-capture sharpness scores
+  `
+  ALTER TABLE photos ADD COLUMN sharpness REAL;
+  ALTER TABLE videos ADD COLUMN sharpness REAL;
+  `,
+  // Codes tagged on lots, and every code scanned in a session
+  `
+  CREATE TABLE lot_identifiers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    lot_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    value TEXT NOT NULL,
+    code_type TEXT,
+    added_at TEXT NOT NULL,
+    FOREIGN KEY (session_id, lot_id) REFERENCES lots (session_id, id) ON DELETE CASCADE
+  );
+  CREATE INDEX lot_identifiers_by_lot ON lot_identifiers (session_id, lot_id, position);
+  CREATE INDEX lot_identifiers_by_value ON lot_identifiers (session_id, value);
+
+  CREATE TABLE scans (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+    value TEXT NOT NULL,
+    code_type TEXT NOT NULL,
+    lot_id TEXT,
+    action TEXT NOT NULL,
+    scanned_at TEXT NOT NULL
+  );
+  CREATE INDEX scans_by_session ON scans (session_id, id);
+  `,
+  // Shot-list template per lot, and the shot each photo was taken for
+  `
+  ALTER TABLE lots ADD COLUMN shot_list_id TEXT;
+  ALTER TABLE photos ADD COLUMN shot TEXT;
+  ALTER TABLE videos ADD COLUMN shot TEXT;
+  `,
+  // When and where each photo and video was taken
+  `
+  ALTER TABLE photos ADD COLUMN captured_at TEXT;
+  ALTER TABLE photos ADD COLUMN location TEXT;
+  ALTER TABLE videos ADD COLUMN captured_at TEXT;
+  ALTER TABLE videos ADD COLUMN location TEXT;
+  `,
+  // Whether exports and uploads use the watermarked copies of photos
+  `
+  ALTER TABLE sessions ADD COLUMN stamped_copies INTEGER;
+  `,
+  // Which camera (front or back) took each photo and video
+  `
+  ALTER TABLE photos ADD COLUMN facing TEXT;
+  ALTER TABLE videos ADD COLUMN facing TEXT;
+  `,
+  // Length and file size of videos (photos share the file columns)
+  `
+  ALTER TABLE photos ADD COLUMN duration REAL;
+  ALTER TABLE photos ADD COLUMN size_bytes INTEGER;
+  ALTER TABLE videos ADD COLUMN duration REAL;
+  ALTER TABLE videos ADD COLUMN size_bytes INTEGER;
+  `,
+];
+
+let database: SQLite.SQLiteDatabase | null = null;
+
+const getDatabase = () => {
+  if (database) return database;
+  const db = SQLite.openDatabaseSync(DATABASE_NAME);
+  db.execSync("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+  const version =
+    db.getFirstSync<{ user_version: number }>("PRAGMA user_version")
+      ?.user_version ?? 0;
+  if (version < SCHEMA_MIGRATIONS.length) {
+    db.withTransactionSync(() => {
+      SCHEMA_MIGRATIONS.slice(version).forEach((sql) => db.execSync(sql));
+      db.execSync(`PRAGMA user_version = ${SCHEMA_MIGRATIONS.length}`);
+    });
+  }
+  database = db;
+  return db;
+};
+
+// Row subscriptions. Each topic caches its last snapshot so hooks get a stable
+// reference until a write touches that topic.
+type Listener = () => void;
+const listeners = new Map<string, Set<Listener>>();
+const snapshots = new Map<string, unknown>();
+
+const lotsTopic = (sessionId: string) => `lots:${sessionId}`;
+const lotTopic = (sessionId: string, lotId: string) =>
+  `lot:${sessionId}:${lotId}`;
+const scansTopic = (sessionId: string) => `scans:${sessionId}`;
+const identifiersTopic = (sessionId: string) => `identifiers:${sessionId}`;
+
+const notify = (...topics: string[]) => {
+  topics.forEach((topic) => {
+    snapshots.delete(topic);
+    listeners.get(topic)?.forEach((listener) => listener());
+  });
+};
+
+// Lot-level writes also change the lot list counts
+const notifyLot = (sessionId: string, lotId: string) =>
+  notify(lotsTopic(sessionId), lotTopic(sessionId, lotId));
+
+const notifySession = (sessionId: string) => {
+  const prefix = `lot:${sessionId}:`;
+  notify(
+    lotsTopic(sessionId),
+    scansTopic(sessionId),
+    identifiersTopic(sessionId),
+    ...[...listeners.keys()].filter((topic) => topic.startsWith(prefix)),
+  );
+};
+
+const subscribeTopic = (topic: string, listener: Listener) => {
+  const set = listeners.get(topic) ?? new Set<Listener>();
+  set.add(listener);
+  listeners.set(topic, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) {
+      listeners.delete(topic);
+      snapshots.delete(topic);
+    }
+  };
+};
+
+const cached = <T>(topic: string, read: () => T): T => {
+  if (!snapshots.has(topic)) snapshots.set(topic, read());
+  return snapshots.get(topic) as T;
+};
+
+const parseJson = <T>(value: string | null): T | undefined => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const rowToSession = (row: SessionRow): SessionRecord => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  activeLotIdx: row.active_lot_idx,
+  enhanceImages:
+    row.enhance_images === null ? undefined : row.enhance_images === 1,
+  stampedCopies:
+    row.stamped_copies === null ? undefined : row.stamped_copies === 1,
+  invalidLots: parseJson<InvalidLot[]>(row.invalid_lots),
+});
+
+const rowToFile = (row: FileRow): PhotoFile => {
+  const file: PhotoFile = { uri: row.uri, name: row.name, type: row.type };
+  if (row.display_uri) file.displayUri = row.display_uri;
+  if (row.width !== null) file.width = row.width;
+  if (row.height !== null) file.height = row.height;
+  if (row.megapixels !== null) file.megapixels = row.megapixels;
+  const focusBox = parseJson<PhotoFile["focusBox"]>(row.focus_box);
+  if (focusBox) file.focusBox = focusBox;
+  const adjustments = parseJson<PhotoFile["adjustments"]>(row.adjustments);
+  if (adjustments) file.adjustments = adjustments;
+  const bracket = parseJson<PhotoFile["bracket"]>(row.bracket);
+  if (bracket) file.bracket = bracket;
+  if (row.sharpness !== null) file.sharpness = row.sharpness;
+  if (row.shot) file.shot = row.shot;
+  if (row.captured_at) file.capturedAt = row.captured_at;
+  const location = parseJson<PhotoFile["location"]>(row.location);
+  if (location) file.location = location;
+  if (row.facing) file.facing = row.facing as CameraFacing;
+  if (row.duration !== null) file.duration = row.duration;
+  if (row.size_bytes !== null) file.sizeBytes = row.size_bytes;
+  return file;
+};
+
+const rowToIdentifier = (row: IdentifierRow): LotIdentifier => {
+  const identifier: LotIdentifier = {
+    kind: row.kind as LotIdentifierKind,
+    value: row.value,
+    addedAt: row.added_at,
+  };
+  if (row.code_type) identifier.codeType = row.code_type;
+  return identifier;
+};
+
+const rowToScan = (row: ScanRow): ScanRecord => ({
+  id: row.id,
+  value: row.value,
+  codeType: row.code_type,
+  lotId: row.lot_id ?? undefined,
+  action: row.action as ScanAction,
+  scannedAt: row.scanned_at,
+});
+
+const IDENTIFIER_COLUMNS = "lot_id, kind, value, code_type, added_at";
+
+const FILE_COLUMNS =
+  "uri, display_uri, name, type, width, height, megapixels, focus_box, adjustments, bracket, sharpness, shot, captured_at, location, facing, duration, size_bytes";
+const FILE_PLACEHOLDERS = FILE_COLUMNS.split(",")
+  .map(() => "?")
+  .join(", ");
+
+const fileValues = (file: PhotoFile) => [
+  file.uri,
+  file.displayUri ?? null,
+  file.name,
+  file.type,
+  file.width ?? null,
+  file.height ?? null,
+  file.megapixels ?? null,
+  file.focusBox ? JSON.stringify(file.focusBox) : null,
+  file.adjustments ? JSON.stringify(file.adjustments) : null,
+  file.bracket ? JSON.stringify(file.bracket) : null,
+  file.sharpness ?? null,
+  file.shot ?? null,
+  file.capturedAt ?? null,
+  file.location ? JSON.stringify(file.location) : null,
+  file.facing ?? null,
+  file.duration ?? null,
+  file.sizeBytes ?? null,
+];
+
+const touchSession = (db: SQLite.SQLiteDatabase, sessionId: string) =>
+  db.runSync(
+    "UPDATE sessions SET updated_at = ? WHERE id = ?",
+    new Date().toISOString(),
+    sessionId,
+  );
+
+// ---- Sessions ----
+
+const SESSION_COUNTS = `
+  (SELECT COUNT(*) FROM lots l WHERE l.session_id = s.id AND EXISTS (
+    SELECT 1 FROM photos p WHERE p.session_id = l.session_id AND p.lot_id = l.id
+  )) AS lot_count,
+  (SELECT COUNT(*) FROM photos p WHERE p.session_id = s.id) AS image_count`;
+
+// A session's thumbnail is the cover of its first lot that has photos, picked
+// for every session at once. Per lot the cover candidates are the same as in
+// COVER_QUERY; the rank prefers earlier lots, then the cover over the
+// fallback, and SQLite returns the uri from the row with the lowest rank.
+const SESSION_THUMBNAIL_QUERY = `
+  SELECT r.session_id, r.uri,
+    MIN(l.position * 2 + NOT (r.role = 'main' AND r.rn = l.cover_index)) AS rank
+  FROM (
+    SELECT p.session_id, p.lot_id, p.role, COALESCE(p.display_uri, p.uri) AS uri,
+      ROW_NUMBER() OVER (
+        PARTITION BY p.session_id, p.lot_id ORDER BY p.role = 'extra', p.position
+      ) - 1 AS rn
+    FROM photos p
+  ) r
+  JOIN lots l ON l.session_id = r.session_id AND l.id = r.lot_id
+  WHERE r.rn = 0 OR (r.role = 'main' AND r.rn = l.cover_index)
+  GROUP BY r.session_id`;
+
+const listSessions = (): SessionRecordWithCounts[] => {
+  const db = getDatabase();
+  const thumbnails = new Map(
+    db
+      .getAllSync<{ session_id: string; uri: string }>(SESSION_THUMBNAIL_QUERY)
+      .map((row) => [row.session_id, row.uri]),
+  );
+  return db
+    .getAllSync<SessionRow & { lot_count: number; image_count: number }>(
+      `SELECT s.*, ${SESSION_COUNTS} FROM sessions s ORDER BY s.updated_at DESC`,
+    )
+    .map((row) => ({
+      ...rowToSession(row),
+      lotCount: row.lot_count,
+      imageCount: row.image_count,
+      thumbnailUri: thumbnails.get(row.id),
+    }));
+};
+
+const getSession = (id: string): SessionRecord | null => {
+  const row = getDatabase().getFirstSync<SessionRow>(
+    "SELECT * FROM sessions WHERE id = ?",
+    id,
+  );
+  return row ? rowToSession(row) : null;
+};
+
+const saveSession = (session: SessionRecord) => {
+  getDatabase().runSync(
+    `INSERT INTO sessions (id, name, created_at, updated_at, active_lot_idx, enhance_images, stamped_copies, invalid_lots)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       name = excluded.name,
+       updated_at = excluded.updated_at,
+       active_lot_idx = excluded.active_lot_idx,
+       enhance_images = excluded.enhance_images,
+       stamped_copies = excluded.stamped_copies,
+       invalid_lots = excluded.invalid_lots`,
+    session.id,
+    session.name,
+    session.createdAt,
+    session.updatedAt,
+    session.activeLotIdx,
+    session.enhanceImages === undefined ? null : session.enhanceImages ? 1 : 0,
+    session.stampedCopies === undefined ? null : session.stampedCopies ? 1 : 0,
+    session.invalidLots?.length ? JSON.stringify(session.invalidLots) : null,
+  );
+};
+
+const deleteSession = (id: string) => {
+  getDatabase().runSync("DELETE FROM sessions WHERE id = ?", id);
+  lastSummaries.delete(id);
+  notifySession(id);
+};
+
+// ---- Lots ----
+
+const LOT_SUMMARY_QUERY = `
+  SELECT l.id, l.mode, l.cover_index, l.shot_list_id,
+    (SELECT COUNT(*) FROM photos p
+      WHERE p.session_id = l.session_id AND p.lot_id = l.id AND p.role = 'main') AS photo_count,
+    (SELECT COUNT(*) FROM photos p
+      WHERE p.session_id = l.session_id AND p.lot_id = l.id AND p.role = 'extra') AS extra_count,
+    (SELECT COUNT(*) FROM videos v
+      WHERE v.session_id = l.session_id AND v.lot_id = l.id) AS video_count,
+    (SELECT GROUP_CONCAT(DISTINCT p.shot) FROM photos p
+      WHERE p.session_id = l.session_id AND p.lot_id = l.id) AS taken_shots
+  FROM lots l
+  WHERE l.session_id = ?
+  ORDER BY l.position`;
+
+// Candidate covers per lot: the main photo at cover_index, and the first photo
+// (main before extra) as a fallback
+const COVER_QUERY = `
+  SELECT r.lot_id, r.rn, r.uri FROM (
+    SELECT p.lot_id, p.role, COALESCE(p.display_uri, p.uri) AS uri,
+      ROW_NUMBER() OVER (
+        PARTITION BY p.lot_id ORDER BY p.role = 'extra', p.position
+      ) - 1 AS rn
+    FROM photos p WHERE p.session_id = ?
+  ) r
+  JOIN lots l ON l.session_id = ? AND l.id = r.lot_id
+  WHERE r.rn = 0 OR (r.role = 'main' AND r.rn = l.cover_index)`;
+
+// Shallow equality that also compares arrays element by element
+const sameValue = (a: unknown, b: unknown) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((value, i) => value === b[i])
+    : a === b;
+
+const readLotSummaries = (
+  sessionId: string,
+  previous?: LotSummary[],
+): LotSummary[] => {
+  const db = getDatabase();
+  const rows = db.getAllSync<
+    LotRow & {
+      photo_count: number;
+      extra_count: number;
+      video_count: number;
+      taken_shots: string | null;
+    }
+  >(LOT_SUMMARY_QUERY, sessionId);
+  const coverIndexes = new Map(rows.map((row) => [row.id, row.cover_index]));
+  const covers = new Map<string, { first?: string; cover?: string }>();
+  db.getAllSync<{ lot_id: string; rn: number; uri: string }>(
+    COVER_QUERY,
+    sessionId,
+    sessionId,
+  ).forEach((row) => {
+    const entry = covers.get(row.lot_id) ?? {};
+    if (row.rn === 0) entry.first = row.uri;
+    if (row.rn === coverIndexes.get(row.lot_id)) entry.cover = row.uri;
+    covers.set(row.lot_id, entry);
+  });
+
+  const byId = new Map(previous?.map((lot) => [lot.id, lot]));
+  return rows.map((row) => {
+    const cover = covers.get(row.id);
+    const next: LotSummary = {
+      id: row.id,
+      mode: (row.mode as CaptureMode | null) ?? undefined,
+      coverIndex: row.cover_index,
+      photoCount: row.photo_count,
+      extraCount: row.extra_count,
+      videoCount: row.video_count,
+      coverUri: cover?.cover ?? cover?.first,
+      shotListId: row.shot_list_id ?? undefined,
+      // Shot ids are generated and never contain the separator
+      takenShots: row.taken_shots ? row.taken_shots.split(",").sort() : [],
+    };
+    // Keep the previous object for unchanged lots so memoized rows skip rendering
+    const prev = byId.get(row.id);
+    const unchanged =
+      prev &&
+      (Object.keys(next) as (keyof LotSummary)[]).every((key) =>
+        sameValue(prev[key], next[key]),
+      );
+    return unchanged ? prev : next;
+  });
+};
+
+// Same shape for lots held in memory (e.g. screens not backed by the store)
+const summarizeLot = (lot: MixedLot): LotSummary => {
+  const cover = lot.files[lot.coverIndex] ?? lot.files[0] ?? lot.extraFiles[0];
+  return {
+    id: lot.id,
+    mode: lot.mode,
+    coverIndex: lot.coverIndex,
+    photoCount: lot.files.length,
+    extraCount: lot.extraFiles.length,
+    videoCount: lot.videos.length,
+    coverUri: cover ? (cover.displayUri ?? cover.uri) : undefined,
+    shotListId: lot.shotListId,
+    takenShots: [
+      ...new Set(
+        [...lot.files, ...lot.extraFiles].flatMap((file) =>
+          file.shot ? [file.shot] : [],
+        ),
+      ),
+    ].sort(),
+  };
+};
+
+// Last list read per session, kept across invalidations for row reuse
+const lastSummaries = new Map<string, LotSummary[]>();
+
+const getLotSummaries = (sessionId: string): LotSummary[] =>
+  cached(lotsTopic(sessionId), () => {
+    const summaries = readLotSummaries(sessionId, lastSummaries.get(sessionId));
+    lastSummaries.set(sessionId, summaries);
+    return summaries;
+  });
+
+const buildLots = (
+  lotRows: LotRow[],
+  photoRows: FileRow[],
+  videoRows: FileRow[],
+  identifierRows: IdentifierRow[],
+): MixedLot[] => {
+  const lots = new Map<string, MixedLot>(
+    lotRows.map((row) => [
+      row.id,
+      {
+        id: row.id,
+        mode: (row.mode as CaptureMode | null) ?? undefined,
+        files: [],
+        extraFiles: [],
+        coverIndex: row.cover_index,
+        videos: [],
+        ...(row.shot_list_id ? { shotListId: row.shot_list_id } : {}),
+      },
+    ]),
+  );
+  photoRows.forEach((row) => {
+    const lot = lots.get(row.lot_id);
+    if (!lot) return;
+    (row.role === "extra" ? lot.extraFiles : lot.files).push(rowToFile(row));
+  });
+  videoRows.forEach((row) => {
+    const lot = lots.get(row.lot_id);
+    lot?.videos.push(rowToFile(row));
+  });
+  identifierRows.forEach((row) => {
+    const lot = lots.get(row.lot_id);
+    if (lot) (lot.identifiers ??= []).push(rowToIdentifier(row));
+  });
+  return [...lots.values()];
+};
+
+// Full lots with every photo; for submission/export, not for rendering lists
+const getLots = (sessionId: string): MixedLot[] => {
+  const db = getDatabase();
+  return buildLots(
+    db.getAllSync<LotRow>(
+      "SELECT id, mode, cover_index, shot_list_id FROM lots WHERE session_id = ? ORDER BY position",
+      sessionId,
+    ),
+    db.getAllSync<FileRow>(
+      `SELECT lot_id, role, ${FILE_COLUMNS} FROM photos WHERE session_id = ? ORDER BY position`,
+      sessionId,
+    ),
+    db.getAllSync<FileRow>(
+      `SELECT lot_id, ${FILE_COLUMNS} FROM videos WHERE session_id = ? ORDER BY position`,
+      sessionId,
+    ),
+    db.getAllSync<IdentifierRow>(
+      `SELECT ${IDENTIFIER_COLUMNS} FROM lot_identifiers WHERE session_id = ? ORDER BY position`,
+      sessionId,
+    ),
+  );
+};
+
+const readLot = (sessionId: string, lotId: string): MixedLot | null => {
+  const db = getDatabase();
+  const lotRow = db.getFirstSync<LotRow>(
+    "SELECT id, mode, cover_index, shot_list_id FROM lots WHERE session_id = ? AND id = ?",
+    sessionId,
+    lotId,
+  );
+  if (!lotRow) return null;
+  return buildLots(
+    [lotRow],
+    db.getAllSync<FileRow>(
+      `SELECT lot_id, role, ${FILE_COLUMNS} FROM photos
+       WHERE session_id = ? AND lot_id = ? ORDER BY position`,
+      sessionId,
+      lotId,
+    ),
+    db.getAllSync<FileRow>(
+      `SELECT lot_id, ${FILE_COLUMNS} FROM videos
+       WHERE session_id = ? AND lot_id = ? ORDER BY position`,
+      sessionId,
+      lotId,
+    ),
+    db.getAllSync<IdentifierRow>(
+      `SELECT ${IDENTIFIER_COLUMNS} FROM lot_identifiers
+       WHERE session_id = ? AND lot_id = ? ORDER BY position`,
+      sessionId,
+      lotId,
+    ),
+  )[0];
+};
+
+const getLot = (sessionId: string, lotId: string): MixedLot | null =>
+  cached(lotTopic(sessionId, lotId), () => readLot(sessionId, lotId));
+
+const insertIdentifier = (
+  db: SQLite.SQLiteDatabase,
+  sessionId: string,
+  lotId: string,
+  identifier: LotIdentifier,
+  position: number,
+) =>
+  db.runSync(
+    `INSERT INTO lot_identifiers (session_id, lot_id, position, kind, value, code_type, added_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    sessionId,
+    lotId,
+    position,
+    identifier.kind,
+    identifier.value,
+    identifier.codeType ?? null,
+    identifier.addedAt,
+  );
+
+const insertLot = (
+  db: SQLite.SQLiteDatabase,
+  sessionId: string,
+  lot: MixedLot,
+  position: number,
+) => {
+  db.runSync(
+    "INSERT INTO lots (session_id, id, position, mode, cover_index, shot_list_id) VALUES (?, ?, ?, ?, ?, ?)",
+    sessionId,
+    lot.id,
+    position,
+    lot.mode ?? null,
+    lot.coverIndex,
+    lot.shotListId ?? null,
+  );
+  const insertPhoto = (file: PhotoFile, role: PhotoRole, i: number) =>
+    db.runSync(
+      `INSERT INTO photos (session_id, lot_id, role, position, ${FILE_COLUMNS})
+       VALUES (?, ?, ?, ?, ${FILE_PLACEHOLDERS})`,
+      sessionId,
+      lot.id,
+      role,
+      i,
+      ...fileValues(file),
+    );
+  lot.files.forEach((file, i) => insertPhoto(file, "main", i));
+  lot.extraFiles.forEach((file, i) => insertPhoto(file, "extra", i));
+  lot.videos.forEach((file, i) =>
+    db.runSync(
+      `INSERT INTO videos (session_id, lot_id, position, ${FILE_COLUMNS})
+       VALUES (?, ?, ?, ${FILE_PLACEHOLDERS})`,
+      sessionId,
+      lot.id,
+      i,
+      ...fileValues(file),
+    ),
+  );
+  lot.identifiers?.forEach((identifier, i) =>
+    insertIdentifier(db, sessionId, lot.id, identifier, i),
+  );
+};
+
+// Bulk write used for restores, imports and duplicates
+const replaceLots = (
+  sessionId: string,
+  lots: MixedLot[],
+  { touch = true }: { touch?: boolean } = {},
+) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    db.runSync("DELETE FROM lots WHERE session_id = ?", sessionId);
+    lots.forEach((lot, i) => insertLot(db, sessionId, lot, i));
+    if (touch) touchSession(db, sessionId);
+  });
+  notifySession(sessionId);
+};
+
+// Appends a lot and returns its index in the session
+const createLot = (sessionId: string, lot: MixedLot = createNewLot()) => {
+  const db = getDatabase();
+  let index = 0;
+  db.withTransactionSync(() => {
+    const stats = db.getFirstSync<{ next: number; count: number }>(
+      "SELECT COALESCE(MAX(position), -1) + 1 AS next, COUNT(*) AS count FROM lots WHERE session_id = ?",
+      sessionId,
+    );
+    insertLot(db, sessionId, lot, stats?.next ?? 0);
+    touchSession(db, sessionId);
+    index = stats?.count ?? 0;
+  });
+  notifyLot(sessionId, lot.id);
+  if (lot.identifiers?.length) notify(identifiersTopic(sessionId));
+  return index;
+};
+
+const deleteLot = (sessionId: string, lotId: string) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    db.runSync(
+      "DELETE FROM lots WHERE session_id = ? AND id = ?",
+      sessionId,
+      lotId,
+    );
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+  notify(identifiersTopic(sessionId));
+};
+
+const updateLot = (
+  sessionId: string,
+  lotId: string,
+  patch: Partial<Pick<MixedLot, "mode" | "coverIndex" | "shotListId">>,
+) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    if ("shotListId" in patch) {
+      db.runSync(
+        "UPDATE lots SET shot_list_id = ? WHERE session_id = ? AND id = ?",
+        patch.shotListId ?? null,
+        sessionId,
+        lotId,
+      );
+    }
+    if ("mode" in patch) {
+      db.runSync(
+        "UPDATE lots SET mode = ? WHERE session_id = ? AND id = ?",
+        patch.mode ?? null,
+        sessionId,
+        lotId,
+      );
+    }
+    if (patch.coverIndex !== undefined) {
+      db.runSync(
+        "UPDATE lots SET cover_index = ? WHERE session_id = ? AND id = ?",
+        patch.coverIndex,
+        sessionId,
+        lotId,
+      );
+    }
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+};
+
+// Adds photos to a lot; the camera prepends so the newest shot comes first.
+// Passing mode sets the lot's capture mode in the same transaction.
+const addPhotos = (
+  sessionId: string,
+  lotId: string,
+  role: PhotoRole,
+  files: PhotoFile[],
+  options: { prepend?: boolean; mode?: CaptureMode } = {},
+) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    const bounds = db.getFirstSync<{ min: number | null; max: number | null }>(
+      `SELECT MIN(position) AS min, MAX(position) AS max FROM photos
+       WHERE session_id = ? AND lot_id = ? AND role = ?`,
+      sessionId,
+      lotId,
+      role,
+    );
+    // Prepended files keep their given order ahead of the existing ones
+    const start = options.prepend
+      ? (bounds?.min ?? 0) - files.length
+      : (bounds?.max ?? -1) + 1;
+    files.forEach((file, i) =>
+      db.runSync(
+        `INSERT INTO photos (session_id, lot_id, role, position, ${FILE_COLUMNS})
+         VALUES (?, ?, ?, ?, ${FILE_PLACEHOLDERS})`,
+        sessionId,
+        lotId,
+        role,
+        start + i,
+        ...fileValues(file),
+      ),
+    );
+    if (options.mode) {
+      db.runSync(
+        "UPDATE lots SET mode = ? WHERE session_id = ? AND id = ?",
+        options.mode,
+        sessionId,
+        lotId,
+      );
+    }
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+};
+
+// Removes the photo at index (in display order) and keeps the cover in range
+const removePhoto = (
+  sessionId: string,
+  lotId: string,
+  role: PhotoRole,
+  index: number,
+) => {
+  const db = getDatabase();
+  let removed: PhotoFile | null = null;
+  db.withTransactionSync(() => {
+    const row = db.getFirstSync<FileRow & { id: number }>(
+      `SELECT id, lot_id, ${FILE_COLUMNS} FROM photos
+       WHERE session_id = ? AND lot_id = ? AND role = ?
+       ORDER BY position LIMIT 1 OFFSET ?`,
+      sessionId,
+      lotId,
+      role,
+      index,
+    );
+    if (!row) return;
+    removed = rowToFile(row);
+    db.runSync("DELETE FROM photos WHERE id = ?", row.id);
+    if (role === "main") {
+      db.runSync(
+        `UPDATE lots SET cover_index = MAX(0, MIN(cover_index, (
+           SELECT COUNT(*) - 1 FROM photos
+           WHERE session_id = ? AND lot_id = ? AND role = 'main')))
+         WHERE session_id = ? AND id = ?`,
+        sessionId,
+        lotId,
+        sessionId,
+        lotId,
+      );
+    }
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+  return removed as PhotoFile | null;
+};
+
+const updatePhoto = (
+  sessionId: string,
+  lotId: string,
+  uri: string,
+  patch: Partial<Omit<PhotoFile, "uri">>,
+) => {
+  const db = getDatabase();
+  const rows = db.getAllSync<FileRow & { id: number }>(
+    `SELECT id, lot_id, ${FILE_COLUMNS} FROM photos
+     WHERE session_id = ? AND lot_id = ? AND uri = ?`,
+    sessionId,
+    lotId,
+    uri,
+  );
+  if (rows.length === 0) return;
+  db.withTransactionSync(() => {
+    rows.forEach((row) => {
+      const [, ...values] = fileValues({ ...rowToFile(row), ...patch });
+      db.runSync(
+        `UPDATE photos SET display_uri = ?, name = ?, type = ?, width = ?, height = ?,
+           megapixels = ?, focus_box = ?, adjustments = ?, bracket = ?, sharpness = ?,
+           shot = ?, captured_at = ?, location = ?, facing = ?, duration = ?,
+           size_bytes = ?
+         WHERE id = ?`,
+        ...values,
+        row.id,
+      );
+    });
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+};
+
+// Appends a video after the lot's existing ones
+const addVideo = (sessionId: string, lotId: string, file: PhotoFile) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    const bounds = db.getFirstSync<{ max: number | null }>(
+      "SELECT MAX(position) AS max FROM videos WHERE session_id = ? AND lot_id = ?",
+      sessionId,
+      lotId,
+    );
+    db.runSync(
+      `INSERT INTO videos (session_id, lot_id, position, ${FILE_COLUMNS})
+       VALUES (?, ?, ?, ${FILE_PLACEHOLDERS})`,
+      sessionId,
+      lotId,
+      (bounds?.max ?? -1) + 1,
+      ...fileValues(file),
+    );
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+};
+
+// Removes the video at index (in display order); the caller deletes the file
+const removeVideo = (sessionId: string, lotId: string, index: number) => {
+  const db = getDatabase();
+  let removed: PhotoFile | null = null;
+  db.withTransactionSync(() => {
+    const row = db.getFirstSync<FileRow & { id: number }>(
+      `SELECT id, lot_id, ${FILE_COLUMNS} FROM videos
+       WHERE session_id = ? AND lot_id = ?
+       ORDER BY position LIMIT 1 OFFSET ?`,
+      sessionId,
+      lotId,
+      index,
+    );
+    if (!row) return;
+    removed = rowToFile(row);
+    db.runSync("DELETE FROM videos WHERE id = ?", row.id);
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+  return removed as PhotoFile | null;
+};
+
+// Moves the video at `from` to `to` (display order), renumbering the lot's videos
+const moveVideo = (
+  sessionId: string,
+  lotId: string,
+  from: number,
+  to: number,
+) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    const ids = db
+      .getAllSync<{ id: number }>(
+        "SELECT id FROM videos WHERE session_id = ? AND lot_id = ? ORDER BY position",
+        sessionId,
+        lotId,
+      )
+      .map((row) => row.id);
+    if (from < 0 || from >= ids.length || to < 0 || to >= ids.length) return;
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    ids.forEach((id, position) =>
+      db.runSync("UPDATE videos SET position = ? WHERE id = ?", position, id),
+    );
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+};
+
+// ---- Identifiers & scans ----
+
+// Appends a code to a lot; a value the lot already carries is not added twice
+const addLotIdentifier = (
+  sessionId: string,
+  lotId: string,
+  identifier: LotIdentifier,
+) => {
+  const db = getDatabase();
+  let added = false;
+  db.withTransactionSync(() => {
+    const existing = db.getFirstSync<{ count: number; next: number }>(
+      `SELECT SUM(value = ?) AS count, COALESCE(MAX(position), -1) + 1 AS next
+       FROM lot_identifiers WHERE session_id = ? AND lot_id = ?`,
+      identifier.value,
+      sessionId,
+      lotId,
+    );
+    if (existing?.count) return;
+    insertIdentifier(db, sessionId, lotId, identifier, existing?.next ?? 0);
+    touchSession(db, sessionId);
+    added = true;
+  });
+  if (added) {
+    notifyLot(sessionId, lotId);
+    notify(identifiersTopic(sessionId));
+  }
+  return added;
+};
+
+// Sets the lot's one value of a field kind (VIN, serial, readings), replacing
+// any earlier ones; null clears it
+const setLotIdentifier = (
+  sessionId: string,
+  lotId: string,
+  kind: LotIdentifierKind,
+  identifier: LotIdentifier | null,
+) => {
+  const db = getDatabase();
+  db.withTransactionSync(() => {
+    db.runSync(
+      "DELETE FROM lot_identifiers WHERE session_id = ? AND lot_id = ? AND kind = ?",
+      sessionId,
+      lotId,
+      kind,
+    );
+    if (identifier) {
+      const stats = db.getFirstSync<{ next: number }>(
+        `SELECT COALESCE(MAX(position), -1) + 1 AS next
+         FROM lot_identifiers WHERE session_id = ? AND lot_id = ?`,
+        sessionId,
+        lotId,
+      );
+      insertIdentifier(
+        db,
+        sessionId,
+        lotId,
+        { ...identifier, kind },
+        stats?.next ?? 0,
+      );
+    }
+    touchSession(db, sessionId);
+  });
+  notifyLot(sessionId, lotId);
+  notify(identifiersTopic(sessionId));
+};
+
+// Identifiers of every lot in the session by lot id, without the photo rows
+const getSessionIdentifiers = (
+  sessionId: string,
+): Record<string, LotIdentifier[]> =>
+  cached(identifiersTopic(sessionId), () => {
+    const byLot: Record<string, LotIdentifier[]> = {};
+    getDatabase()
+      .getAllSync<IdentifierRow>(
+        `SELECT ${IDENTIFIER_COLUMNS} FROM lot_identifiers WHERE session_id = ? ORDER BY position`,
+        sessionId,
+      )
+      .forEach((row) => {
+        (byLot[row.lot_id] ??= []).push(rowToIdentifier(row));
+      });
+    return byLot;
+  });
+
+// Id of the lot a scanned code refers to: the lot's own id, or a code
+// previously tagged on it
+const findLotByCode = (sessionId: string, code: string): string | null => {
+  const row = getDatabase().getFirstSync<{ id: string }>(
+    `SELECT l.id FROM lots l
+     WHERE l.session_id = ? AND (l.id = ? OR EXISTS (
+       SELECT 1 FROM lot_identifiers i
+       WHERE i.session_id = l.session_id AND i.lot_id = l.id AND i.value = ?))
+     ORDER BY l.position LIMIT 1`,
+    sessionId,
+    code,
+    code,
+  );
+  return row?.id ?? null;
+};
+
+const addScan = (sessionId: string, scan: Omit<ScanRecord, "id">) => {
+  getDatabase().runSync(
+    `INSERT INTO scans (session_id, value, code_type, lot_id, action, scanned_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    sessionId,
+    scan.value,
+    scan.codeType,
+    scan.lotId ?? null,
+    scan.action,
+    scan.scannedAt,
+  );
+  notify(scansTopic(sessionId));
+};
+
+const getScanHistory = (sessionId: string): ScanRecord[] =>
+  cached(scansTopic(sessionId), () =>
+    getDatabase()
+      .getAllSync<ScanRow>(
+        "SELECT * FROM scans WHERE session_id = ? ORDER BY id DESC",
+        sessionId,
+      )
+      .map(rowToScan),
+  );
+
+const subscribeScans = (sessionId: string, listener: Listener) =>
+  subscribeTopic(scansTopic(sessionId), listener);
+
+const subscribeIdentifiers = (sessionId: string, listener: Listener) =>
+  subscribeTopic(identifiersTopic(sessionId), listener);
+
+const subscribeLots = (sessionId: string, listener: Listener) =>
+  subscribeTopic(lotsTopic(sessionId), listener);
+
+const subscribeLot = (sessionId: string, lotId: string, listener: Listener) =>
+  subscribeTopic(lotTopic(sessionId, lotId), listener);
+
+export const InspectionStoreService = {
+  listSessions,
+  getSession,
+  saveSession,
+  deleteSession,
+  getLotSummaries,
+  summarizeLot,
+  getLots,
+  getLot,
+  replaceLots,
+  createLot,
+  deleteLot,
+  updateLot,
+  addPhotos,
+  removePhoto,
+  updatePhoto,
+  addVideo,
+  removeVideo,
+  moveVideo,
+  addLotIdentifier,
+  setLotIdentifier,
+  getSessionIdentifiers,
+  findLotByCode,
+  addScan,
+  getScanHistory,
+  subscribeLots,
+  subscribeLot,
+  subscribeScans,
+  subscribeIdentifiers,
+};
+
+export default InspectionStoreService;
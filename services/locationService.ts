@@ -0,0 +1,104 @@
+import * as Location from "expo-location";
+
+import type { CaptureLocation } from "../components/camera/types";
+
+// A fix older than this says little about where the shot was taken, so it is
+// not attached to the capture
+const MAX_FIX_AGE_MS = 2 * 60 * 1000;
+
+let lastFix: { location: CaptureLocation; at: number } | null = null;
+let subscription: Location.LocationSubscription | null = null;
+let active = false;
+// Bumped by stop(), so a start() still waiting on permission knows to give up
+let generation = 0;
+
+const toCaptureLocation = (
+  coords: Location.LocationObjectCoords,
+): CaptureLocation => {
+  const location: CaptureLocation = {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+  };
+  if (coords.accuracy !== null) location.accuracy = coords.accuracy;
+  if (coords.altitude !== null) location.altitude = coords.altitude;
+  return location;
+};
+
+const remember = (position: Location.LocationObject) => {
+  lastFix = {
+    location: toCaptureLocation(position.coords),
+    at: position.timestamp,
+  };
+};
+
+// Keeps a recent fix while the camera is open so captures never wait on GPS.
+// Without location permission photos are simply taken without a location.
+const start = async () => {
+  if (active) return;
+  active = true;
+  const run = generation;
+  try {
+    const { granted } = await Location.requestForegroundPermissionsAsync();
+    if (run !== generation) return;
+    if (!granted) {
+      active = false;
+      return;
+    }
+    const known = await Location.getLastKnownPositionAsync({
+      maxAge: MAX_FIX_AGE_MS,
+    });
+    if (known) remember(known);
+    const watch = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: 5000,
+        distanceInterval: 5,
+      },
+      remember,
+    );
+    if (run === generation) {
+      subscription = watch;
+    } else {
+      watch.remove();
+    }
+  } catch (error) {
+    console.warn("[Location] Failed to start location updates:", error);
+    if (run === generation) active = false;
+  }
+};
+
+const stop = () => {
+  active = false;
+  generation += 1;
+  subscription?.remove();
+  subscription = null;
+};
+
+// The latest fix, or undefined when there is none recent enough
+const getCaptureLocation = (): CaptureLocation | undefined =>
+  lastFix && Date.now() - lastFix.at <= MAX_FIX_AGE_MS
+    ? lastFix.location
+    : undefined;
+
+// e.g. "37.33182, -122.03118 · ±5 m · 12 m alt."
+const describeLocation = (location: CaptureLocation) =>
+  [
+    `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`,
+    location.accuracy !== undefined
+      ? `±${Math.round(location.accuracy)} m`
+      : null,
+    location.altitude !== undefined
+      ? `${Math.round(location.altitude)} m alt.`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export const LocationService = {
+  start,
+  stop,
+  getCaptureLocation,
+  describeLocation,
+};
+
+export default LocationService;
@@ -0,0 +1,329 @@
+import {
+  LOT_IDENTIFIER_LABELS,
+  MODE_CONFIG,
+  MixedLot,
+} from "../components/camera/types";
+
+// Bump when the persisted lot shape changes and add a migration below
+export const LOT_SCHEMA_VERSION = 3;
+
+// Version 0 is the report app's RestoredLotData (URI lists); version 1 is the
+// unversioned MixedLot shape written before lots carried a schema version;
+// version 2 lots hold at most one video.
+const LEGACY_LOT_VERSION = 0;
+const UNVERSIONED_LOT_VERSION = 1;
+const SINGLE_VIDEO_LOT_VERSION = 2;
+
+export type InvalidLot = {
+  // Position in the stored array
+  index: number;
+  id?: string;
+  fromVersion: number;
+  errors: string[];
+  // The stored lot as read, kept so it can be recovered by a later build
+  data: unknown;
+};
+
+export type LotLoadResult = {
+  lots: MixedLot[];
+  invalidLots: InvalidLot[];
+};
+
+type LotMigration = (lot: Record<string, any>) => Record<string, any>;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isUri = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+// Drops JSON nulls so optional fields read back as undefined
+const withoutNulls = (value: Record<string, any>) =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== null),
+  );
+
+const uriToFile = (uri: string, name: string, type: string) => ({
+  uri,
+  name,
+  type,
+});
+
+// 0 -> 1: URI lists become PhotoFiles. Every legacy video is kept as a list
+// that the later steps carry through instead of a single videoFile.
+const migrateRestoredLot: LotMigration = (lot) => {
+  const uris = (value: unknown): unknown[] =>
+    Array.isArray(value) ? value : [];
+  return {
+    id: lot.id,
+    mode: lot.mode,
+    files: uris(lot.mainImages).map((uri, i) =>
+      uriToFile(uri as string, `restored-main-${i}.jpg`, "image/jpeg"),
+    ),
+    extraFiles: uris(lot.extraImages).map((uri, i) =>
+      uriToFile(uri as string, `restored-extra-${i}.jpg`, "image/jpeg"),
+    ),
+    videos: uris(lot.videoFiles).map((uri, i) =>
+      uriToFile(uri as string, `restored-video-${i}.mp4`, "video/mp4"),
+    ),
+    coverIndex: lot.coverIndex ?? 0,
+  };
+};
+
+const normalizeFileMetadata = (file: unknown) => {
+  if (!isObject(file)) return file;
+  const next = withoutNulls(file);
+  if (next.displayUri === next.uri) delete next.displayUri;
+  if (
+    next.focusBox !== undefined &&
+    !(
+      isObject(next.focusBox) &&
+      ["x", "y", "w", "h"].every((k) => isNumber(next.focusBox[k]))
+    )
+  ) {
+    delete next.focusBox;
+  }
+  if (
+    next.adjustments !== undefined &&
+    !(
+      isObject(next.adjustments) &&
+      ["contrast", "saturation", "sharpness", "detail"].every((k) =>
+        isNumber(next.adjustments[k]),
+      )
+    )
+  ) {
+    delete next.adjustments;
+  }
+  if (
+    next.megapixels === undefined &&
+    isNumber(next.width) &&
+    isNumber(next.height)
+  ) {
+    next.megapixels = (next.width * next.height) / 1_000_000;
+  }
+  return next;
+};
+
+// 1 -> 2: optional metadata added over time is normalized (malformed focus
+// boxes/adjustments dropped, megapixels derived) and coverIndex clamped
+const migrateUnversionedLot: LotMigration = (lot) => {
+  const files = Array.isArray(lot.files)
+    ? lot.files.map(normalizeFileMetadata)
+    : [];
+  const coverIndex = isNumber(lot.coverIndex) ? Math.trunc(lot.coverIndex) : 0;
+  return {
+    ...withoutNulls(lot),
+    files,
+    extraFiles: Array.isArray(lot.extraFiles)
+      ? lot.extraFiles.map(normalizeFileMetadata)
+      : [],
+    videoFile: lot.videoFile ? normalizeFileMetadata(lot.videoFile) : undefined,
+    ...(Array.isArray(lot.videos)
+      ? { videos: lot.videos.map(normalizeFileMetadata) }
+      : {}),
+    coverIndex: Math.max(0, Math.min(coverIndex, files.length - 1)),
+  };
+};
+
+// 2 -> 3: the single videoFile becomes the first entry of a videos list;
+// lots restored from the report app already carry one
+const migrateSingleVideoLot: LotMigration = ({ videoFile, ...lot }) => ({
+  ...lot,
+  videos: Array.isArray(lot.videos) ? lot.videos : videoFile ? [videoFile] : [],
+});
+
+// MIGRATIONS[n] upgrades a lot from version n to n + 1
+const MIGRATIONS: Record<number, LotMigration> = {
+  [LEGACY_LOT_VERSION]: migrateRestoredLot,
+  [UNVERSIONED_LOT_VERSION]: migrateUnversionedLot,
+  [SINGLE_VIDEO_LOT_VERSION]: migrateSingleVideoLot,
+};
+
+const isValidBracket = (bracket: unknown) =>
+  isObject(bracket) &&
+  typeof bracket.id === "string" &&
+  Array.isArray(bracket.exposures) &&
+  bracket.exposures.every(isNumber) &&
+  Array.isArray(bracket.frames) &&
+  bracket.frames.every(
+    (frame: unknown) =>
+      isObject(frame) &&
+      isUri(frame.uri) &&
+      typeof frame.name === "string" &&
+      isNumber(frame.exposure),
+  ) &&
+  typeof bracket.merged === "boolean";
+
+const isValidLocation = (location: unknown) =>
+  isObject(location) &&
+  isNumber(location.latitude) &&
+  isNumber(location.longitude) &&
+  (location.accuracy === undefined || isNumber(location.accuracy)) &&
+  (location.altitude === undefined || isNumber(location.altitude));
+
+const isValidIdentifier = (identifier: unknown) =>
+  isObject(identifier) &&
+  Object.keys(LOT_IDENTIFIER_LABELS).includes(identifier.kind as string) &&
+  isUri(identifier.value) &&
+  (identifier.codeType === undefined ||
+    typeof identifier.codeType === "string") &&
+  typeof identifier.addedAt === "string";
+
+const NUMERIC_FILE_FIELDS = [
+  "width",
+  "height",
+  "megapixels",
+  "sharpness",
+  "duration",
+  "sizeBytes",
+];
+
+const validatePhotoFile = (file: unknown, label: string): string[] => {
+  if (!isObject(file)) return [`${label} is not an object`];
+  const errors: string[] = [];
+  if (!isUri(file.uri)) errors.push(`${label} has no uri`);
+  if (typeof file.name !== "string") errors.push(`${label} has no name`);
+  if (typeof file.type !== "string") errors.push(`${label} has no type`);
+  if (file.displayUri !== undefined && !isUri(file.displayUri)) {
+    errors.push(`${label} has an invalid displayUri`);
+  }
+  NUMERIC_FILE_FIELDS.forEach((key) => {
+    if (file[key] !== undefined && !isNumber(file[key])) {
+      errors.push(`${label} has an invalid ${key}`);
+    }
+  });
+  if (file.bracket !== undefined && !isValidBracket(file.bracket)) {
+    errors.push(`${label} has an invalid bracket`);
+  }
+  if (file.shot !== undefined && typeof file.shot !== "string") {
+    errors.push(`${label} has an invalid shot`);
+  }
+  if (file.capturedAt !== undefined && typeof file.capturedAt !== "string") {
+    errors.push(`${label} has an invalid capturedAt`);
+  }
+  if (file.location !== undefined && !isValidLocation(file.location)) {
+    errors.push(`${label} has an invalid location`);
+  }
+  if (file.facing !== undefined && !["front", "back"].includes(file.facing)) {
+    errors.push(`${label} has an invalid facing`);
+  }
+  return errors;
+};
+
+// Checks a lot against the current schema; returns the problems found
+const validateLot = (lot: unknown): string[] => {
+  if (!isObject(lot)) return ["lot is not an object"];
+  const errors: string[] = [];
+  if (!isUri(lot.id)) errors.push("missing id");
+  if (lot.mode !== undefined && !(lot.mode in MODE_CONFIG)) {
+    errors.push(`unknown mode "${lot.mode}"`);
+  }
+  (["files", "extraFiles", "videos"] as const).forEach((key) => {
+    if (!Array.isArray(lot[key])) {
+      errors.push(`${key} is not a list`);
+      return;
+    }
+    lot[key].forEach((file: unknown, i: number) =>
+      errors.push(...validatePhotoFile(file, `${key}[${i}]`)),
+    );
+  });
+  if (
+    lot.identifiers !== undefined &&
+    !(
+      Array.isArray(lot.identifiers) && lot.identifiers.every(isValidIdentifier)
+    )
+  ) {
+    errors.push("identifiers are invalid");
+  }
+  if (lot.shotListId !== undefined && typeof lot.shotListId !== "string") {
+    errors.push("shotListId is invalid");
+  }
+  if (
+    !Number.isInteger(lot.coverIndex) ||
+    lot.coverIndex < 0 ||
+    (Array.isArray(lot.files) &&
+      lot.files.length > 0 &&
+      lot.coverIndex >= lot.files.length)
+  ) {
+    errors.push("coverIndex is out of range");
+  }
+  return errors;
+};
+
+const detectVersion = (lot: unknown, storedVersion?: number) => {
+  if (isObject(lot) && Array.isArray(lot.mainImages)) return LEGACY_LOT_VERSION;
+  return isNumber(storedVersion) ? storedVersion : UNVERSIONED_LOT_VERSION;
+};
+
+// Runs the migration chain and validates every stored lot. storedVersion is
+// the schemaVersion written next to the lots (absent for data from older builds).
+const deserializeLots = (
+  stored: unknown,
+  storedVersion?: number,
+): LotLoadResult => {
+  const result: LotLoadResult = { lots: [], invalidLots: [] };
+  if (!Array.isArray(stored)) return result;
+
+  stored.forEach((data, index) => {
+    const fromVersion = detectVersion(data, storedVersion);
+    const reject = (errors: string[]) =>
+      result.invalidLots.push({
+        index,
+        id: isObject(data) && isUri(data.id) ? data.id : undefined,
+        fromVersion,
+        errors,
+        data,
+      });
+
+    if (fromVersion > LOT_SCHEMA_VERSION) {
+      reject([`saved by a newer version (schema ${fromVersion})`]);
+      return;
+    }
+    if (!isObject(data)) {
+      reject(["lot is not an object"]);
+      return;
+    }
+
+    let lot: Record<string, any> = data;
+    try {
+      for (let v = fromVersion; v < LOT_SCHEMA_VERSION; v++) {
+        lot = MIGRATIONS[v](lot);
+      }
+    } catch (error) {
+      reject([`migration failed: ${String(error)}`]);
+      return;
+    }
+    const errors = validateLot(lot);
+    if (errors.length > 0) reject(errors);
+    else result.lots.push(lot as MixedLot);
+  });
+
+  if (result.invalidLots.length > 0) {
+    console.warn(
+      "[LotSchema] Skipped invalid lots:",
+      result.invalidLots.map((l) => ({ id: l.id, errors: l.errors })),
+    );
+  }
+  return result;
+};
+
+const describeInvalidLots = (invalidLots: InvalidLot[]) =>
+  invalidLots
+    .map(
+      (lot) =>
+        `• ${lot.id ?? `Lot at position ${lot.index + 1}`}: ${lot.errors[0]}` +
+        (lot.errors.length > 1 ? ` (+${lot.errors.length - 1} more)` : ""),
+    )
+    .join("\n");
+
+export const LotSchemaService = {
+  deserializeLots,
+  validateLot,
+  isValidIdentifier,
+  describeInvalidLots,
+};
+
+export default LotSchemaService;
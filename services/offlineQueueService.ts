@@ -0,0 +1,344 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState } from "react-native";
+
+import { MixedLot } from "../components/camera/types";
+import { API_BASE_URL } from "../constants/api";
+import { assetService, UploadCancelledError } from "./assetService";
+
+const QUEUE_KEY = "@camera_offline_queue";
+
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+const MAX_ATTEMPTS = 8;
+const ONLINE_CHECK_TIMEOUT_MS = 4_000;
+
+export type QueueItemStatus = "queued" | "uploading" | "failed" | "done";
+
+export type ReportDetails = Record<string, any>;
+
+export type QueueItem = {
+  id: string;
+  details: ReportDetails;
+  // Lots keep their media URIs (session store paths); files are read at upload time
+  lots: MixedLot[];
+  status: QueueItemStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  // Epoch ms of the next retry; unset once the item is done or out of attempts
+  nextAttemptAt?: number;
+  lastError?: string;
+  // Upload percentage of the current attempt (0-100); not persisted
+  progress?: number;
+};
+
+export type ReportUploader = (
+  details: ReportDetails,
+  lots: MixedLot[],
+  options: {
+    signal: AbortSignal;
+    onProgress: (percent: number) => void;
+    // Stable per item, so retries resume already acknowledged chunks
+    resumeKey: string;
+  },
+) => Promise<unknown>;
+
+type QueueListener = (items: QueueItem[]) => void;
+
+const uploadReport: ReportUploader = (
+  details,
+  lots,
+  { signal, onProgress, resumeKey },
+) =>
+  assetService.createAssetReport(details, lots, onProgress, {
+    signal,
+    resumeKey,
+  });
+
+let uploader: ReportUploader = uploadReport;
+let items: QueueItem[] = [];
+let loaded: Promise<void> | null = null;
+let processing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const activeUploads = new Map<string, AbortController>();
+const listeners = new Set<QueueListener>();
+
+const createQueueId = () =>
+  `report-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const getRetryDelay = (attempts: number) => {
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  // +/-20% jitter so a batch of items doesn't hammer the server in lockstep
+  const jitter = exponential * (Math.random() * 0.4 - 0.2);
+  return Math.min(MAX_RETRY_DELAY_MS, Math.round(exponential + jitter));
+};
+
+const notify = () => {
+  const snapshot = items.map((item) => ({ ...item }));
+  listeners.forEach((listener) => listener(snapshot));
+};
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(
+      QUEUE_KEY,
+      JSON.stringify(items.map(({ progress, ...item }) => item)),
+    );
+  } catch (error) {
+    console.warn("[OfflineQueue] Failed to persist queue:", error);
+  }
+};
+
+const updateItem = async (id: string, patch: Partial<QueueItem>) => {
+  items = items.map((item) =>
+    item.id === id
+      ? { ...item, ...patch, updatedAt: new Date().toISOString() }
+      : item,
+  );
+  await persist();
+  notify();
+};
+
+const ensureLoaded = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(QUEUE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        items = Array.isArray(parsed) ? parsed : [];
+      } catch (error) {
+        console.warn("[OfflineQueue] Failed to load queue:", error);
+        items = [];
+      }
+      // An item left "uploading" means the app died mid-request; send it again
+      items = items.map((item) =>
+        item.status === "uploading"
+          ? { ...item, status: "queued", nextAttemptAt: Date.now() }
+          : item,
+      );
+    })();
+  }
+  return loaded;
+};
+
+const isNetworkError = (error: unknown) => {
+  if (!error) return false;
+  const name = (error as Error).name;
+  const message = String((error as Error).message ?? error);
+  return (
+    name === "AbortError" ||
+    /network request failed|failed to fetch|network error|timed? ?out/i.test(
+      message,
+    )
+  );
+};
+
+const isOnline = async () => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), ONLINE_CHECK_TIMEOUT_MS);
+  try {
+    await fetch(`${API_BASE_URL}/health`, {
+      method: "GET",
+      signal: controller.signal,
+    });
+    // Any HTTP response means the server is reachable
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const pending = items
+    .filter((item) => item.status !== "done" && item.nextAttemptAt)
+    .map((item) => item.nextAttemptAt as number);
+  if (pending.length === 0) return;
+  const delay = Math.max(0, Math.min(...pending) - Date.now());
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void processQueue();
+  }, delay);
+};
+
+const setProgress = (id: string, percent: number) => {
+  const item = items.find((i) => i.id === id);
+  if (!item || item.progress === percent) return;
+  items = items.map((i) => (i.id === id ? { ...i, progress: percent } : i));
+  notify();
+};
+
+const uploadItem = async (item: QueueItem) => {
+  const controller = new AbortController();
+  activeUploads.set(item.id, controller);
+  await updateItem(item.id, { status: "uploading", progress: 0 });
+  try {
+    await uploader(item.details, item.lots, {
+      signal: controller.signal,
+      onProgress: (percent) => setProgress(item.id, percent),
+      resumeKey: item.id,
+    });
+    await updateItem(item.id, {
+      status: "done",
+      nextAttemptAt: undefined,
+      lastError: undefined,
+      progress: 100,
+    });
+  } catch (error) {
+    const attempts = item.attempts + 1;
+    // A cancelled upload waits for a manual retry instead of backing off.
+    // Network failures count too, so an item the server keeps dropping
+    // mid-upload stops retrying on its own.
+    const cancelled = error instanceof UploadCancelledError;
+    const canRetry = !cancelled && attempts < MAX_ATTEMPTS;
+    await updateItem(item.id, {
+      status: "failed",
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: canRetry
+        ? Date.now() + getRetryDelay(attempts)
+        : undefined,
+      progress: undefined,
+    });
+  } finally {
+    activeUploads.delete(item.id);
+    // Removed mid-upload: the attempt may have saved resume state after
+    // removeItem cleared it
+    if (!items.some((i) => i.id === item.id)) {
+      await assetService.clearResumeState(item.id);
+    }
+  }
+};
+
+// Uploads every item whose retry time has come, one at a time so large lots
+// don't compete for bandwidth. Concurrent calls share the same run.
+const processQueue = (): Promise<void> => {
+  if (!processing) {
+    processing = (async () => {
+      await ensureLoaded();
+      let next: QueueItem | undefined;
+      while (
+        (next = items.find(
+          (item) =>
+            (item.status === "queued" || item.status === "failed") &&
+            item.nextAttemptAt !== undefined &&
+            item.nextAttemptAt <= Date.now(),
+        ))
+      ) {
+        await uploadItem(next);
+      }
+    })()
+      .catch((error) =>
+        console.warn("[OfflineQueue] Processing failed:", error),
+      )
+      .finally(() => {
+        processing = null;
+        scheduleRetry();
+      });
+  }
+  return processing;
+};
+
+const enqueueAssetReport = async (details: ReportDetails, lots: MixedLot[]) => {
+  await ensureLoaded();
+  const now = new Date().toISOString();
+  const item: QueueItem = {
+    id: createQueueId(),
+    details,
+    lots,
+    status: "queued",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: Date.now(),
+  };
+  items = [...items, item];
+  await persist();
+  notify();
+  void processQueue();
+  return item;
+};
+
+const getItems = async () => {
+  await ensureLoaded();
+  return items.map((item) => ({ ...item }));
+};
+
+// Manual retry resets the backoff, including items that ran out of attempts
+const retryItem = async (id: string) => {
+  await ensureLoaded();
+  await updateItem(id, {
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  });
+  return processQueue();
+};
+
+const cancelItem = (id: string) => {
+  activeUploads.get(id)?.abort();
+};
+
+const removeItem = async (id: string) => {
+  await ensureLoaded();
+  cancelItem(id);
+  items = items.filter((item) => item.id !== id);
+  await assetService.clearResumeState(id);
+  await persist();
+  notify();
+  scheduleRetry();
+};
+
+const clearCompleted = async () => {
+  await ensureLoaded();
+  items = items.filter((item) => item.status !== "done");
+  await persist();
+  notify();
+};
+
+const subscribe = (listener: QueueListener) => {
+  listeners.add(listener);
+  void ensureLoaded().then(() => listener(items.map((item) => ({ ...item }))));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setUploader = (next: ReportUploader) => {
+  uploader = next;
+};
+
+// Loads the persisted queue and resumes retries; also retries whenever the
+// app comes back to the foreground, which is usually when signal returns.
+let appStateSubscription: ReturnType<typeof AppState.addEventListener> | null =
+  null;
+const start = () => {
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") void processQueue();
+    });
+  }
+  return processQueue();
+};
+
+export const OfflineQueueService = {
+  start,
+  isOnline,
+  isNetworkError,
+  enqueueAssetReport,
+  processQueue,
+  getItems,
+  retryItem,
+  cancelItem,
+  removeItem,
+  clearCompleted,
+  subscribe,
+  setUploader,
+};
+
+export default OfflineQueueService;
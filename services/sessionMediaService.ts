@@ -0,0 +1,219 @@
+import { Directory, File, Paths } from "expo-file-system";
+
+// Captures are moved out of VisionCamera's temp cache (which the OS may purge
+// at any time) into Documents/sessions/<sessionId>/<lotId>/<fileName>.
+const SESSIONS_DIR_NAME = "sessions";
+
+export type StoredSessionInfo = {
+  id: string;
+  uri: string;
+  lotIds: string[];
+  fileCount: number;
+  sizeBytes: number;
+  modifiedAt?: number;
+};
+
+type PersistTarget = {
+  sessionId: string;
+  lotId: string;
+  fileName: string;
+  // Leave a file already stored under fileName alone and copy to a numbered
+  // name beside it (photo-1.jpg) instead of replacing it
+  keepExisting?: boolean;
+};
+
+const sanitizeSegment = (value: string) =>
+  value.replace(/[^a-zA-Z0-9._-]/g, "_") || "_";
+
+const getSessionsRoot = () => new Directory(Paths.document, SESSIONS_DIR_NAME);
+
+const getSessionDirectory = (sessionId: string) =>
+  new Directory(getSessionsRoot(), sanitizeSegment(sessionId));
+
+const ensureDirectory = (dir: Directory) => {
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  return dir;
+};
+
+export const createSessionId = () =>
+  `session-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const getLotDirectory = (sessionId: string, lotId: string) =>
+  ensureDirectory(
+    new Directory(getSessionDirectory(sessionId), sanitizeSegment(lotId)),
+  );
+
+const isManagedUri = (uri: string) => uri.startsWith(getSessionsRoot().uri);
+
+// First name in dir not taken yet: name, then name-1, name-2, ... before the
+// extension
+const getFreeFile = (dir: Directory, fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const ext = dot > 0 ? fileName.slice(dot) : "";
+  let file = new File(dir, fileName);
+  for (let n = 1; file.exists; n++) {
+    file = new File(dir, `${base}-${n}${ext}`);
+  }
+  return file;
+};
+
+// Copies a file into the session store, leaving the source untouched. Throws
+// if the copy fails.
+const copyIntoSession = async (
+  sourceUri: string,
+  { sessionId, lotId, fileName, keepExisting }: PersistTarget,
+): Promise<string> => {
+  const dir = getLotDirectory(sessionId, lotId);
+  const name = sanitizeSegment(fileName);
+  const target = keepExisting ? getFreeFile(dir, name) : new File(dir, name);
+  if (target.exists) target.delete();
+  new File(sourceUri).copy(target);
+  return target.uri;
+};
+
+// Copies a capture into the session store and deletes the temp original.
+// Falls back to the original URI if the copy fails so a capture is never lost.
+const persistCapture = async (
+  sourceUri: string,
+  target: PersistTarget,
+): Promise<string> => {
+  if (isManagedUri(sourceUri)) return sourceUri;
+
+  let storedUri: string;
+  try {
+    storedUri = await copyIntoSession(sourceUri, target);
+  } catch (error) {
+    console.warn("[SessionMedia] Failed to persist capture:", error);
+    return sourceUri;
+  }
+
+  try {
+    new File(sourceUri).delete();
+  } catch (error) {
+    console.warn("[SessionMedia] Failed to delete temp original:", error);
+  }
+  return storedUri;
+};
+
+const listSessions = async (): Promise<StoredSessionInfo[]> => {
+  const root = getSessionsRoot();
+  if (!root.exists) return [];
+
+  const sessions: StoredSessionInfo[] = [];
+  for (const entry of root.list()) {
+    if (!(entry instanceof Directory)) continue;
+    try {
+      const lotDirs = entry
+        .list()
+        .filter((child): child is Directory => child instanceof Directory);
+      const fileCount = lotDirs.reduce(
+        (sum, dir) => sum + dir.list().filter((f) => f instanceof File).length,
+        0,
+      );
+      const info = entry.info();
+      sessions.push({
+        id: entry.name,
+        uri: entry.uri,
+        lotIds: lotDirs.map((dir) => dir.name),
+        fileCount,
+        sizeBytes: entry.size ?? 0,
+        modifiedAt: info.modificationTime,
+      });
+    } catch (error) {
+      console.warn("[SessionMedia] Failed to read session:", entry.uri, error);
+    }
+  }
+  return sessions.sort((a, b) => (b.modifiedAt ?? 0) - (a.modifiedAt ?? 0));
+};
+
+const getSessionSize = async (sessionId: string) => {
+  const dir = getSessionDirectory(sessionId);
+  return dir.exists ? (dir.size ?? 0) : 0;
+};
+
+// Size in bytes of a stored file; undefined when it can't be read
+const getMediaSize = (uri: string) => {
+  try {
+    const file = new File(uri);
+    return file.exists ? file.size : undefined;
+  } catch (error) {
+    console.warn("[SessionMedia] Failed to read media size:", error);
+    return undefined;
+  }
+};
+
+// Copies every stored file of a session into a new session folder and returns
+// a map of old URI -> new URI so lot data can be pointed at the copies.
+const duplicateSession = async (
+  sourceSessionId: string,
+  targetSessionId: string,
+): Promise<Map<string, string>> => {
+  const uriMap = new Map<string, string>();
+  const source = getSessionDirectory(sourceSessionId);
+  if (!source.exists) return uriMap;
+
+  for (const lotDir of source.list()) {
+    if (!(lotDir instanceof Directory)) continue;
+    const targetDir = getLotDirectory(targetSessionId, lotDir.name);
+    for (const file of lotDir.list()) {
+      if (!(file instanceof File)) continue;
+      try {
+        const target = new File(targetDir, file.name);
+        file.copy(target);
+        uriMap.set(file.uri, target.uri);
+      } catch (error) {
+        console.warn("[SessionMedia] Failed to copy file:", file.uri, error);
+      }
+    }
+  }
+  return uriMap;
+};
+
+const deleteSession = async (sessionId: string) => {
+  try {
+    const dir = getSessionDirectory(sessionId);
+    if (dir.exists) dir.delete();
+  } catch (error) {
+    console.warn("[SessionMedia] Failed to delete session:", error);
+  }
+};
+
+const deleteLotMedia = async (sessionId: string, lotId: string) => {
+  try {
+    const dir = new Directory(
+      getSessionDirectory(sessionId),
+      sanitizeSegment(lotId),
+    );
+    if (dir.exists) dir.delete();
+  } catch (error) {
+    console.warn("[SessionMedia] Failed to delete lot media:", error);
+  }
+};
+
+// Only files inside the session store are deleted; gallery/picker URIs are left alone
+const deleteMedia = async (uri: string) => {
+  if (!isManagedUri(uri)) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn("[SessionMedia] Failed to delete media:", error);
+  }
+};
+
+export const SessionMediaService = {
+  createSessionId,
+  isManagedUri,
+  copyIntoSession,
+  persistCapture,
+  listSessions,
+  getSessionSize,
+  getMediaSize,
+  duplicateSession,
+  deleteSession,
+  deleteLotMedia,
+  deleteMedia,
+};
+
+export default SessionMediaService;
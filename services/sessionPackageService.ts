@@ -0,0 +1,965 @@
+import { Directory, File, Paths } from "expo-file-system";
+import {
+  strToU8,
+  Unzip,
+  UnzipInflate,
+  Zip,
+  ZipDeflate,
+  ZipPassThrough,
+} from "fflate";
+
+import {
+  BracketFrame,
+  CaptureMode,
+  LotIdentifier,
+  MixedLot,
+  MODE_CONFIG,
+  PhotoBracket,
+  PhotoFile,
+} from "../components/camera/types";
+import { InspectionSessionService } from "./inspectionSessionService";
+import { LotSchemaService } from "./lotSchemaService";
+import { SessionMediaService } from "./sessionMediaService";
+import { WatermarkService } from "./watermarkService";
+
+export const PACKAGE_FORMAT = "clearvalue-session";
+export const PACKAGE_VERSION = 2;
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+const EXPORTS_DIR_NAME = "exports";
+const IMPORTS_DIR_NAME = "imports";
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+// A file stored in the package
+type PackageEntry = {
+  // Path inside the ZIP; null when the source file was missing at export time
+  path: string | null;
+  originalName: string;
+  size: number;
+  // CRC-32 of the file contents as 8 hex digits, for integrity checks on import
+  crc32?: string;
+};
+
+export type ManifestBracketFrame = PackageEntry & {
+  exposure: number;
+};
+
+// An exposure series kept with a photo; its frames are packaged next to it
+export type ManifestBracket = {
+  id: string;
+  exposures: number[];
+  merged: boolean;
+  frames: ManifestBracketFrame[];
+};
+
+export type ManifestFile = PackageEntry & {
+  type: string;
+  width?: number;
+  height?: number;
+  megapixels?: number;
+  focusBox?: PhotoFile["focusBox"];
+  adjustments?: PhotoFile["adjustments"];
+  sharpness?: number;
+  // Shot-list shot the photo was taken for
+  shot?: string;
+  // When and where the photo or video was taken
+  capturedAt?: string;
+  location?: PhotoFile["location"];
+  facing?: PhotoFile["facing"];
+  // Length of a video in seconds
+  duration?: number;
+  bracket?: ManifestBracket;
+  // Watermarked copy packaged next to the original; imported as displayUri
+  stampedCopy?: PackageEntry;
+};
+
+export type ManifestLot = {
+  id: string;
+  number: number;
+  mode: CaptureMode | null;
+  modeLabel: string | null;
+  coverIndex: number;
+  // Path of the cover image inside the ZIP
+  cover: string | null;
+  files: ManifestFile[];
+  extraFiles: ManifestFile[];
+  videos: ManifestFile[];
+  // Version 1 packages held at most one video; read into videos on import
+  video?: ManifestFile | null;
+  // Asset ids/serials tagged on the lot; absent in older packages
+  identifiers?: LotIdentifier[];
+  // Id of the shot-list template the lot was checked against
+  shotListId?: string;
+};
+
+export type SessionManifest = {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    // Whether the stamped copies are the ones meant to be used
+    stampedCopies?: boolean;
+  };
+  lots: ManifestLot[];
+};
+
+export type ExportResult = {
+  uri: string;
+  fileCount: number;
+  sizeBytes: number;
+  // Original names of lot files that could not be read and were left out
+  missingFiles: string[];
+};
+
+export type PackageProblem = {
+  lotId: string;
+  originalName: string;
+  path: string | null;
+  reason: "missing" | "corrupt";
+};
+
+// A package unpacked into a staging area and checked against its manifest,
+// waiting for the user to confirm the import
+export type StagedPackage = {
+  manifest: SessionManifest;
+  // Directory the manifest paths are relative to
+  baseUri: string;
+  // Whether baseUri is a temporary staging copy that should be deleted afterwards
+  ownsBase: boolean;
+  problems: PackageProblem[];
+  fileCount: number;
+};
+
+export type ImportConflictStrategy = "merge" | "rename";
+
+export type ImportResult = {
+  sessionId: string;
+  lotsAdded: number;
+  lotsMerged: number;
+  lotsRenamed: number;
+  filesImported: number;
+  problems: PackageProblem[];
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Incremental CRC-32; start with 0 and feed chunks in order
+const crc32Update = (crc: number, bytes: Uint8Array) => {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+};
+
+const toCrcHex = (crc: number) => (crc >>> 0).toString(16).padStart(8, "0");
+
+const sanitizeName = (value: string) =>
+  value.replace(/[^a-zA-Z0-9._-]+/g, "_").replace(/^_+|_+$/g, "") || "session";
+
+const getExtension = (nameOrUri: string, fallback: string) => {
+  const match = /\.([a-zA-Z0-9]+)$/.exec(nameOrUri);
+  return match ? match[1].toLowerCase() : fallback;
+};
+
+// Same lot-N-<mode>-… scheme as handleCapture, with a stable index instead of a timestamp
+const getPackagePath = (
+  lot: MixedLot,
+  lotNumber: number,
+  file: PhotoFile,
+  kind: "main" | "extra" | "video",
+  index: number,
+) => {
+  const modeLabel = lot.mode ? MODE_CONFIG[lot.mode].fileLabel : "unset";
+  const seq = String(index + 1).padStart(3, "0");
+  const name =
+    kind === "video"
+      ? `lot-${lotNumber}-video-${seq}.${getExtension(file.name || file.uri, "mp4")}`
+      : `lot-${lotNumber}-${modeLabel}${kind === "extra" ? "-extra" : ""}-${seq}.${getExtension(file.name || file.uri, "jpg")}`;
+  return `lots/lot-${lotNumber}/${name}`;
+};
+
+// Files kept with a photo sit next to it: lot-1-bundle-001-frame-1.jpg,
+// lot-1-bundle-001-stamped.jpg
+const getSiblingPath = (photoPath: string, suffix: string, name: string) =>
+  photoPath.replace(
+    /\.[a-zA-Z0-9]+$/,
+    `-${suffix}.${getExtension(name, "jpg")}`,
+  );
+
+const toManifestFile = (
+  file: PhotoFile,
+  path: string | null,
+  size = 0,
+  crc?: number,
+): ManifestFile => ({
+  path,
+  originalName: file.name,
+  type: file.type,
+  size,
+  crc32: crc === undefined ? undefined : toCrcHex(crc),
+  width: file.width,
+  height: file.height,
+  megapixels: file.megapixels,
+  focusBox: file.focusBox,
+  adjustments: file.adjustments,
+  sharpness: file.sharpness,
+  shot: file.shot,
+  capturedAt: file.capturedAt,
+  location: file.location,
+  facing: file.facing,
+  duration: file.duration,
+});
+
+const getExportsDirectory = () => {
+  const dir = new Directory(Paths.cache, EXPORTS_DIR_NAME);
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  return dir;
+};
+
+// Streams a session into a ZIP in the cache directory. Media is stored
+// uncompressed (JPEG/MP4 don't shrink) and read in chunks so large videos
+// never have to fit in memory. Stamped copies are packaged next to their
+// originals; sessions set to use them get any missing ones rendered first.
+const exportSession = async (
+  sessionId: string,
+  onProgress?: (progress01: number) => void,
+): Promise<ExportResult> => {
+  const info = await InspectionSessionService.getSessionInfo(sessionId);
+  if (!info) throw new Error("Session not found");
+  if (info.stampedCopies) {
+    await WatermarkService.stampSession(sessionId, { missingOnly: true });
+  }
+  const session = await InspectionSessionService.getSession(sessionId);
+  if (!session) throw new Error("Session not found");
+
+  const date = new Date().toISOString().slice(0, 10);
+  const target = new File(
+    getExportsDirectory(),
+    `${sanitizeName(session.name)}-${date}.zip`,
+  );
+  if (target.exists) target.delete();
+  target.create();
+
+  const output = target.open();
+  let writeError: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      writeError = error;
+      return;
+    }
+    try {
+      output.writeBytes(chunk);
+    } catch (e) {
+      writeError = e as Error;
+    }
+  });
+
+  const missingFiles: string[] = [];
+  let fileCount = 0;
+  const sources = session.lots.flatMap((lot) => [
+    ...lot.files,
+    ...lot.extraFiles,
+    ...lot.videos,
+  ]);
+  const totalCount = Math.max(
+    1,
+    sources.reduce(
+      (n, f) =>
+        n + 1 + (f.displayUri ? 1 : 0) + (f.bracket?.frames.length ?? 0),
+      0,
+    ),
+  );
+
+  // Streams one file into the archive; null when it is missing or could not
+  // be read in full
+  const addEntry = async (uri: string, path: string) => {
+    const source = new File(uri);
+    if (!source.exists) return null;
+
+    const entry = new ZipPassThrough(path);
+    zip.add(entry);
+    const input = source.open();
+    let size = 0;
+    let complete = false;
+    try {
+      const total = input.size ?? source.size;
+      while (size < total) {
+        const chunk = input.readBytes(Math.min(READ_CHUNK_SIZE, total - size));
+        // The file was truncated or shrank while being exported
+        if (chunk.length === 0) break;
+        size += chunk.length;
+        entry.push(chunk);
+        // Let the UI breathe between chunks of large files
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      complete = size >= total;
+    } finally {
+      input.close();
+    }
+    entry.push(new Uint8Array(0), true);
+    if (writeError) throw writeError;
+    // A short entry stays in the archive, but the manifest doesn't point at
+    // it, so an import treats the file as missing
+    if (!complete) return null;
+
+    fileCount += 1;
+    onProgress?.(fileCount / totalCount);
+    return { size, crc: entry.crc };
+  };
+
+  // Adds a file kept with a photo; missing ones are listed with a null path
+  const addSibling = async (
+    uri: string,
+    name: string,
+    path: string,
+  ): Promise<PackageEntry> => {
+    const added = await addEntry(uri, path);
+    if (!added) missingFiles.push(name);
+    return {
+      path: added ? path : null,
+      originalName: name,
+      size: added?.size ?? 0,
+      crc32: added ? toCrcHex(added.crc) : undefined,
+    };
+  };
+
+  const addFile = async (file: PhotoFile, path: string) => {
+    const added = await addEntry(file.uri, path);
+    if (!added) missingFiles.push(file.name);
+    const manifestFile = added
+      ? toManifestFile(file, path, added.size, added.crc)
+      : toManifestFile(file, null);
+    // The original is always packaged; a stamped copy goes next to it so an
+    // import gets both back. Only photos get stamped, so videos never have one.
+    if (file.displayUri) {
+      const stampedName = file.name.replace(/(\.[a-zA-Z0-9]+)?$/, "-stamped$1");
+      manifestFile.stampedCopy = await addSibling(
+        file.displayUri,
+        stampedName,
+        getSiblingPath(path, "stamped", stampedName),
+      );
+    }
+    if (!file.bracket) return manifestFile;
+
+    const frames: ManifestBracketFrame[] = [];
+    for (const [i, frame] of file.bracket.frames.entries()) {
+      frames.push({
+        ...(await addSibling(
+          frame.uri,
+          frame.name,
+          getSiblingPath(path, `frame-${i + 1}`, frame.name),
+        )),
+        exposure: frame.exposure,
+      });
+    }
+    return {
+      ...manifestFile,
+      bracket: {
+        id: file.bracket.id,
+        exposures: file.bracket.exposures,
+        merged: file.bracket.merged,
+        frames,
+      },
+    };
+  };
+
+  try {
+    const lots: ManifestLot[] = [];
+    for (const [idx, lot] of session.lots.entries()) {
+      const number = idx + 1;
+      const files: ManifestFile[] = [];
+      for (const [i, file] of lot.files.entries()) {
+        files.push(
+          await addFile(file, getPackagePath(lot, number, file, "main", i)),
+        );
+      }
+      const extraFiles: ManifestFile[] = [];
+      for (const [i, file] of lot.extraFiles.entries()) {
+        extraFiles.push(
+          await addFile(file, getPackagePath(lot, number, file, "extra", i)),
+        );
+      }
+      const videos: ManifestFile[] = [];
+      for (const [i, file] of lot.videos.entries()) {
+        videos.push(
+          await addFile(file, getPackagePath(lot, number, file, "video", i)),
+        );
+      }
+
+      lots.push({
+        id: lot.id,
+        number,
+        mode: lot.mode ?? null,
+        modeLabel: lot.mode ? MODE_CONFIG[lot.mode].label : null,
+        coverIndex: lot.coverIndex,
+        cover: files[lot.coverIndex]?.path ?? files[0]?.path ?? null,
+        files,
+        extraFiles,
+        videos,
+        identifiers: lot.identifiers,
+        shotListId: lot.shotListId,
+      });
+    }
+
+    const manifest: SessionManifest = {
+      format: PACKAGE_FORMAT,
+      version: PACKAGE_VERSION,
+      exportedAt: new Date().toISOString(),
+      session: {
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        stampedCopies: session.stampedCopies,
+      },
+      lots,
+    };
+    const manifestEntry = new ZipDeflate(MANIFEST_FILE_NAME, { level: 6 });
+    zip.add(manifestEntry);
+    manifestEntry.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+    zip.end();
+    if (writeError) throw writeError;
+  } catch (error) {
+    output.close();
+    target.delete();
+    throw error;
+  }
+
+  output.close();
+  return {
+    uri: target.uri,
+    fileCount,
+    sizeBytes: target.size,
+    missingFiles,
+  };
+};
+
+// Exports live in the cache directory; drop them once they have been shared
+const clearExports = () => {
+  try {
+    const dir = new Directory(Paths.cache, EXPORTS_DIR_NAME);
+    if (dir.exists) dir.delete();
+  } catch (error) {
+    console.warn("[SessionPackage] Failed to clear exports:", error);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPackageEntry = (value: Record<string, any>) =>
+  (value.path === null || typeof value.path === "string") &&
+  typeof value.originalName === "string";
+
+const isManifestBracket = (value: unknown): value is ManifestBracket =>
+  isObject(value) &&
+  typeof value.id === "string" &&
+  Array.isArray(value.exposures) &&
+  typeof value.merged === "boolean" &&
+  Array.isArray(value.frames) &&
+  value.frames.every(
+    (frame: unknown) =>
+      isObject(frame) &&
+      isPackageEntry(frame) &&
+      typeof frame.exposure === "number",
+  );
+
+const isManifestFile = (value: unknown): value is ManifestFile =>
+  isObject(value) &&
+  isPackageEntry(value) &&
+  typeof value.type === "string" &&
+  (value.bracket === undefined || isManifestBracket(value.bracket)) &&
+  (value.stampedCopy === undefined ||
+    (isObject(value.stampedCopy) && isPackageEntry(value.stampedCopy)));
+
+// Throws with a readable reason when the JSON is not a package manifest we understand
+const validateManifest = (raw: unknown): SessionManifest => {
+  if (!isObject(raw) || raw.format !== PACKAGE_FORMAT) {
+    throw new Error("Not an inspection package (manifest format missing)");
+  }
+  if (typeof raw.version !== "number" || raw.version > PACKAGE_VERSION) {
+    throw new Error(
+      `Package version ${raw.version} is newer than this app supports`,
+    );
+  }
+  if (!isObject(raw.session) || typeof raw.session.id !== "string") {
+    throw new Error("Manifest is missing session information");
+  }
+  if (!Array.isArray(raw.lots)) throw new Error("Manifest has no lots");
+
+  raw.lots.forEach((lot: unknown, i: number) => {
+    const valid =
+      isObject(lot) &&
+      typeof lot.id === "string" &&
+      (lot.mode === null || lot.mode in MODE_CONFIG) &&
+      Array.isArray(lot.files) &&
+      lot.files.every(isManifestFile) &&
+      Array.isArray(lot.extraFiles) &&
+      lot.extraFiles.every(isManifestFile) &&
+      (Array.isArray(lot.videos)
+        ? lot.videos.every(isManifestFile)
+        : lot.video === null || isManifestFile(lot.video)) &&
+      (lot.identifiers === undefined ||
+        (Array.isArray(lot.identifiers) &&
+          lot.identifiers.every(LotSchemaService.isValidIdentifier)));
+    if (!valid) throw new Error(`Lot ${i + 1} in the manifest is malformed`);
+  });
+  const manifest = raw as SessionManifest;
+  manifest.lots.forEach((lot) => {
+    lot.videos ??= lot.video ? [lot.video] : [];
+    delete lot.video;
+  });
+  return manifest;
+};
+
+// Rejects absolute paths and parent-directory segments from untrusted archives
+const toSafeRelativePath = (path: string) => {
+  const segments = path.split(/[\\/]+/).filter(Boolean);
+  if (segments.length === 0 || segments.some((s) => s === "..")) return null;
+  return segments.join("/");
+};
+
+// Identifiers from both sides, first occurrence of each value kept
+const mergeIdentifiers = (
+  current: LotIdentifier[] = [],
+  incoming: LotIdentifier[] = [],
+) => {
+  const merged = [...current];
+  incoming.forEach((identifier) => {
+    if (merged.some((i) => i.value === identifier.value)) return;
+    merged.push(identifier);
+  });
+  return merged.length > 0 ? merged : undefined;
+};
+
+// Every file a lot references, stamped copies and bracket frames included
+const packageEntriesOf = (lot: ManifestLot): PackageEntry[] =>
+  [...lot.files, ...lot.extraFiles, ...lot.videos].flatMap((file) => [
+    file,
+    ...(file.stampedCopy ? [file.stampedCopy] : []),
+    ...(file.bracket?.frames ?? []),
+  ]);
+
+const readFileCrc = (file: File) => {
+  const handle = file.open();
+  try {
+    let crc = 0;
+    let read = 0;
+    const total = handle.size ?? file.size;
+    while (read < total) {
+      const chunk = handle.readBytes(Math.min(READ_CHUNK_SIZE, total - read));
+      if (chunk.length === 0) break;
+      read += chunk.length;
+      crc = crc32Update(crc, chunk);
+    }
+    return crc;
+  } finally {
+    handle.close();
+  }
+};
+
+const checkPackageFiles = (
+  manifest: SessionManifest,
+  baseUri: string,
+  crcByPath?: Map<string, number>,
+) => {
+  const problems: PackageProblem[] = [];
+  let fileCount = 0;
+  manifest.lots.forEach((lot) =>
+    packageEntriesOf(lot).forEach((entry) => {
+      const problem = (reason: PackageProblem["reason"]) =>
+        problems.push({
+          lotId: lot.id,
+          originalName: entry.originalName,
+          path: entry.path,
+          reason,
+        });
+      const relative = entry.path ? toSafeRelativePath(entry.path) : null;
+      const file = relative ? new File(baseUri, relative) : null;
+      if (!file || !file.exists) {
+        problem("missing");
+        return;
+      }
+      const crc = crcByPath?.get(relative as string) ?? readFileCrc(file);
+      if (
+        (entry.size > 0 && file.size !== entry.size) ||
+        (entry.crc32 && toCrcHex(crc) !== entry.crc32.toLowerCase())
+      ) {
+        problem("corrupt");
+        return;
+      }
+      fileCount += 1;
+    }),
+  );
+  return { problems, fileCount };
+};
+
+// Streams every archive entry into a staging directory, computing CRC-32s on
+// the way so nothing has to be read twice.
+const unpackZip = async (zipFile: File, staging: Directory) => {
+  const crcByPath = new Map<string, number>();
+  let manifestBytes: Uint8Array[] | null = null;
+  let entryError: Error | null = null;
+
+  const unzip = new Unzip((entry) => {
+    if (entry.name === MANIFEST_FILE_NAME) {
+      const chunks: Uint8Array[] = [];
+      manifestBytes = chunks;
+      entry.ondata = (error, chunk) => {
+        if (error) entryError = error;
+        else chunks.push(chunk);
+      };
+      entry.start();
+      return;
+    }
+
+    const relative = toSafeRelativePath(entry.name);
+    if (!relative || entry.name.endsWith("/")) return;
+    const target = new File(staging, relative);
+    target.parentDirectory.create({ intermediates: true, idempotent: true });
+    target.create({ overwrite: true });
+    const handle = target.open();
+    let crc = 0;
+    entry.ondata = (error, chunk, final) => {
+      if (error) {
+        entryError = error;
+        handle.close();
+        return;
+      }
+      crc = crc32Update(crc, chunk);
+      handle.writeBytes(chunk);
+      if (final) {
+        handle.close();
+        crcByPath.set(relative, crc);
+      }
+    };
+    entry.start();
+  });
+  unzip.register(UnzipInflate);
+
+  const input = zipFile.open();
+  try {
+    const total = input.size ?? zipFile.size;
+    let read = 0;
+    while (read < total) {
+      const chunk = input.readBytes(Math.min(READ_CHUNK_SIZE, total - read));
+      if (chunk.length === 0) break;
+      read += chunk.length;
+      unzip.push(chunk, read >= total);
+      if (entryError) throw entryError;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    input.close();
+  }
+
+  if (!manifestBytes) throw new Error("Package has no manifest.json");
+  const chunks: Uint8Array[] = manifestBytes;
+  const bytes = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  chunks.forEach((c) => {
+    bytes.set(c, offset);
+    offset += c.length;
+  });
+  return { manifestText: new TextDecoder().decode(bytes), crcByPath };
+};
+
+const parseManifest = (text: string) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("manifest.json is not valid JSON");
+  }
+  return validateManifest(raw);
+};
+
+// Accepts an exported ZIP, or a manifest.json whose files sit next to it
+const stagePackage = async (uri: string): Promise<StagedPackage> => {
+  const source = new File(uri);
+  if (!source.exists) throw new Error("Package file not found");
+
+  if (/\.json$/i.test(source.name)) {
+    const manifest = parseManifest(await source.text());
+    const baseUri = source.parentDirectory.uri;
+    return {
+      manifest,
+      baseUri,
+      ownsBase: false,
+      ...checkPackageFiles(manifest, baseUri),
+    };
+  }
+
+  const staging = new Directory(
+    Paths.cache,
+    IMPORTS_DIR_NAME,
+    `import-${Date.now()}`,
+  );
+  staging.create({ intermediates: true, idempotent: true });
+  try {
+    const { manifestText, crcByPath } = await unpackZip(source, staging);
+    const manifest = parseManifest(manifestText);
+    return {
+      manifest,
+      baseUri: staging.uri,
+      ownsBase: true,
+      ...checkPackageFiles(manifest, staging.uri, crcByPath),
+    };
+  } catch (error) {
+    if (staging.exists) staging.delete();
+    throw error;
+  }
+};
+
+const discardStagedPackage = (staged: StagedPackage) => {
+  if (!staged.ownsBase) return;
+  try {
+    const dir = new Directory(staged.baseUri);
+    if (dir.exists) dir.delete();
+  } catch (error) {
+    console.warn("[SessionPackage] Failed to discard staged package:", error);
+  }
+};
+
+const createLotId = () =>
+  `lot-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Adds the staged package's lots to sessionId (created if it doesn't exist).
+// Lots whose id already exists in the session are merged into it or added
+// under a new id, depending on the strategy. Missing/corrupt files are skipped.
+// The staged package is discarded either way; a failed import also removes
+// the media it copied in, or the whole session if the import created it.
+const importStagedPackage = async (
+  staged: StagedPackage,
+  sessionId: string,
+  strategy: ImportConflictStrategy,
+): Promise<ImportResult> => {
+  const { manifest } = staged;
+  // Media copied in so far, removed again if the import fails
+  const copied: string[] = [];
+  let created = false;
+  try {
+    let existing = await InspectionSessionService.getSession(sessionId);
+    if (!existing) {
+      existing = await InspectionSessionService.createSession(
+        manifest.session.name,
+        { id: sessionId, stampedCopies: manifest.session.stampedCopies },
+      );
+      created = true;
+    }
+    const skipped = new Set(
+      staged.problems.map((p) => `${p.lotId}\u0000${p.path}`),
+    );
+
+    const lots = [...existing.lots];
+    const result: ImportResult = {
+      sessionId,
+      lotsAdded: 0,
+      lotsMerged: 0,
+      lotsRenamed: 0,
+      filesImported: 0,
+      problems: staged.problems,
+    };
+
+    for (const manifestLot of manifest.lots) {
+      const existingIdx = lots.findIndex((l) => l.id === manifestLot.id);
+      const merge = existingIdx >= 0 && strategy === "merge";
+      const lotId =
+        existingIdx >= 0 && strategy === "rename"
+          ? createLotId()
+          : manifestLot.id;
+      // Files that are already in the lot (same original name) are not duplicated
+      const known = new Set(
+        merge
+          ? [
+              ...lots[existingIdx].files,
+              ...lots[existingIdx].extraFiles,
+              ...lots[existingIdx].videos,
+            ].map((f) => f.name)
+          : [],
+      );
+
+      // Copies one packaged file into the lot folder; null when it was
+      // missing, corrupt or could not be copied
+      const copyEntry = async (entry: PackageEntry) => {
+        if (
+          !entry.path ||
+          skipped.has(`${manifestLot.id}\u0000${entry.path}`)
+        ) {
+          return null;
+        }
+        const relative = toSafeRelativePath(entry.path) as string;
+        const fileName = relative.split("/").pop() as string;
+        try {
+          // A merge must not replace stored files whose numbering has shifted
+          // since an earlier import
+          const uri = await SessionMediaService.copyIntoSession(
+            new File(staged.baseUri, relative).uri,
+            { sessionId, lotId, fileName, keepExisting: merge },
+          );
+          copied.push(uri);
+          result.filesImported += 1;
+          return uri;
+        } catch (error) {
+          console.warn("[SessionPackage] Failed to import file:", error);
+          result.problems = [
+            ...result.problems,
+            {
+              lotId: manifestLot.id,
+              originalName: entry.originalName,
+              path: entry.path,
+              reason: "corrupt",
+            },
+          ];
+          return null;
+        }
+      };
+
+      // Frames that could not be imported are left out of the series
+      const importBracket = async (
+        bracket?: ManifestBracket,
+      ): Promise<PhotoBracket | undefined> => {
+        if (!bracket) return undefined;
+        const frames: BracketFrame[] = [];
+        for (const frame of bracket.frames) {
+          const uri = await copyEntry(frame);
+          if (uri) {
+            frames.push({
+              uri,
+              name: frame.originalName,
+              exposure: frame.exposure,
+            });
+          }
+        }
+        return {
+          id: bracket.id,
+          exposures: bracket.exposures,
+          merged: bracket.merged,
+          frames,
+        };
+      };
+
+      const importFile = async (
+        entry: ManifestFile,
+      ): Promise<PhotoFile | null> => {
+        if (known.has(entry.originalName)) return null;
+        const uri = await copyEntry(entry);
+        if (!uri) return null;
+        return {
+          uri,
+          displayUri: entry.stampedCopy
+            ? ((await copyEntry(entry.stampedCopy)) ?? undefined)
+            : undefined,
+          name: entry.originalName,
+          type: entry.type,
+          width: entry.width,
+          height: entry.height,
+          megapixels: entry.megapixels,
+          focusBox: entry.focusBox,
+          adjustments: entry.adjustments,
+          sharpness: entry.sharpness,
+          shot: entry.shot,
+          capturedAt: entry.capturedAt,
+          location: entry.location,
+          facing: entry.facing,
+          duration: entry.duration,
+          bracket: await importBracket(entry.bracket),
+        };
+      };
+
+      const importAll = async (entries: ManifestFile[]) => {
+        const imported: { entry: ManifestFile; file: PhotoFile }[] = [];
+        for (const entry of entries) {
+          const file = await importFile(entry);
+          if (file) imported.push({ entry, file });
+        }
+        return imported;
+      };
+
+      const files = await importAll(manifestLot.files);
+      const extraFiles = (await importAll(manifestLot.extraFiles)).map(
+        (i) => i.file,
+      );
+      // The packaged size is the file's own size (media is stored uncompressed)
+      const videos = (await importAll(manifestLot.videos)).map((i) => ({
+        ...i.file,
+        sizeBytes: i.entry.size || undefined,
+      }));
+      const coverIndex = Math.max(
+        0,
+        files.findIndex((i) => i.entry.path === manifestLot.cover),
+      );
+
+      if (merge) {
+        const target = lots[existingIdx];
+        lots[existingIdx] = {
+          ...target,
+          mode: target.mode ?? manifestLot.mode ?? undefined,
+          files: [...target.files, ...files.map((i) => i.file)],
+          extraFiles: [...target.extraFiles, ...extraFiles],
+          videos: [...target.videos, ...videos],
+          shotListId: target.shotListId ?? manifestLot.shotListId,
+          identifiers: mergeIdentifiers(
+            target.identifiers,
+            manifestLot.identifiers,
+          ),
+        };
+        result.lotsMerged += 1;
+      } else {
+        lots.push({
+          id: lotId,
+          mode: manifestLot.mode ?? undefined,
+          files: files.map((i) => i.file),
+          extraFiles,
+          videos,
+          coverIndex,
+          identifiers: manifestLot.identifiers,
+          shotListId: manifestLot.shotListId,
+        });
+        if (lotId !== manifestLot.id) result.lotsRenamed += 1;
+        else result.lotsAdded += 1;
+      }
+    }
+
+    await InspectionSessionService.saveSessionLots(
+      sessionId,
+      lots,
+      existing.activeLotIdx >= 0 ? existing.activeLotIdx : 0,
+      existing.enhanceImages,
+    );
+    return result;
+  } catch (error) {
+    // The lots were never saved, so nothing refers to the copied media
+    if (created) {
+      await InspectionSessionService.deleteSession(sessionId);
+    } else {
+      for (const uri of copied) await SessionMediaService.deleteMedia(uri);
+    }
+    throw error;
+  } finally {
+    discardStagedPackage(staged);
+  }
+};
+
+export const SessionPackageService = {
+  exportSession,
+  clearExports,
+  stagePackage,
+  discardStagedPackage,
+  importStagedPackage,
+};
+
+export default SessionPackageService;
@@ -0,0 +1,118 @@
+import { File } from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as jpeg from "jpeg-js";
+
+import type { PhotoFile } from "../components/camera/types";
+
+// Photos scoring below this are flagged as blurry; set EXPO_PUBLIC_BLUR_THRESHOLD
+// (or CameraScreen's blurThreshold) to tune it. Crisp detail at the scoring
+// size lands in the hundreds or more, shaken shots well under 100.
+export const DEFAULT_BLUR_THRESHOLD =
+  Number(process.env.EXPO_PUBLIC_BLUR_THRESHOLD) || 100;
+
+// Long edge of the copy that gets scored; enough to see camera shake
+// without decoding the full-resolution JPEG in JS
+const SCORE_MAX_EDGE = 480;
+
+// How much more a pixel inside the recorded focus box counts than one outside
+const FOCUS_BOX_WEIGHT = 4;
+
+type FocusBox = NonNullable<PhotoFile["focusBox"]>;
+
+const deleteQuietly = (uri: string) => {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn("[Sharpness] Failed to delete temp file:", error);
+  }
+};
+
+// The focus box is stored in the orientation VisionCamera reported; the
+// decoded copy may come out rotated by 90 degrees from that.
+const orientFocusBox = (
+  box: FocusBox,
+  photo: PhotoFile,
+  width: number,
+  height: number,
+): FocusBox => {
+  if (!photo.width || !photo.height) return box;
+  if (photo.width >= photo.height === width >= height) return box;
+  return { x: 1 - (box.y + box.h), y: box.x, w: box.h, h: box.w };
+};
+
+// Variance of the 4-neighbour Laplacian over the luminance, weighted toward
+// the focus box. Higher means sharper.
+const laplacianVariance = (
+  data: Uint8Array,
+  width: number,
+  height: number,
+  box?: FocusBox,
+) => {
+  const gray = new Uint8Array(width * height);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    gray[p] = (77 * data[i] + 150 * data[i + 1] + 29 * data[i + 2]) >> 8;
+  }
+
+  const boxLeft = box ? Math.floor(box.x * width) : 0;
+  const boxTop = box ? Math.floor(box.y * height) : 0;
+  const boxRight = box ? Math.ceil((box.x + box.w) * width) : -1;
+  const boxBottom = box ? Math.ceil((box.y + box.h) * height) : -1;
+
+  let total = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    const inRows = y >= boxTop && y < boxBottom;
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const lap =
+        4 * gray[p] -
+        gray[p - 1] -
+        gray[p + 1] -
+        gray[p - width] -
+        gray[p + width];
+      const weight =
+        inRows && x >= boxLeft && x < boxRight ? FOCUS_BOX_WEIGHT : 1;
+      total += weight;
+      sum += weight * lap;
+      sumSquares += weight * lap * lap;
+    }
+  }
+  if (total === 0) return 0;
+  const mean = sum / total;
+  return sumSquares / total - mean * mean;
+};
+
+// Scores how sharp a captured photo is. Throws if the image can't be read.
+const scorePhoto = async (photo: PhotoFile): Promise<number> => {
+  const landscape = (photo.width ?? 1) >= (photo.height ?? 0);
+  const image = await ImageManipulator.manipulate(photo.uri)
+    .resize(landscape ? { width: SCORE_MAX_EDGE } : { height: SCORE_MAX_EDGE })
+    .renderAsync();
+  const saved = await image.saveAsync({ format: SaveFormat.JPEG, compress: 1 });
+  try {
+    const bytes = await new File(saved.uri).bytes();
+    const { width, height, data } = jpeg.decode(bytes, {
+      useTArray: true,
+      formatAsRGBA: true,
+    });
+    const box = photo.focusBox
+      ? orientFocusBox(photo.focusBox, photo, width, height)
+      : undefined;
+    return Math.round(laplacianVariance(data, width, height, box) * 10) / 10;
+  } finally {
+    deleteQuietly(saved.uri);
+  }
+};
+
+// Unscored photos (older sessions, failed scoring) are never flagged
+const isBlurry = (photo: PhotoFile, threshold = DEFAULT_BLUR_THRESHOLD) =>
+  typeof photo.sharpness === "number" && photo.sharpness < threshold;
+
+export const SharpnessService = {
+  scorePhoto,
+  isBlurry,
+};
+
+export default SharpnessService;
@@ -0,0 +1,168 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const SHOT_LISTS_KEY = "@shot_list_templates";
+
+export type ShotListShot = {
+  // Stays the same when the label is edited, so photos keep their shot
+  id: string;
+  label: string;
+};
+
+// Required angles for one asset category
+export type ShotListTemplate = {
+  id: string;
+  name: string;
+  shots: ShotListShot[];
+};
+
+export type ShotProgress = {
+  taken: ShotListShot[];
+  missing: ShotListShot[];
+};
+
+const shotList = (
+  id: string,
+  name: string,
+  labels: string[],
+): ShotListTemplate => ({
+  id,
+  name,
+  shots: labels.map((label, i) => ({ id: `${id}-${i + 1}`, label })),
+});
+
+// Starting templates until the user saves their own
+export const DEFAULT_SHOT_LISTS: ShotListTemplate[] = [
+  shotList("vehicle", "Vehicle", [
+    "Front-left 3/4",
+    "Rear-right 3/4",
+    "VIN plate",
+    "Odometer",
+    "Engine bay",
+    "Interior",
+  ]),
+  shotList("heavy-equipment", "Heavy Equipment", [
+    "Front-left 3/4",
+    "Rear-right 3/4",
+    "Serial plate",
+    "Hour meter",
+    "Engine compartment",
+    "Undercarriage / tracks",
+    "Cab interior",
+  ]),
+  shotList("general", "General Asset", [
+    "Overview",
+    "Front",
+    "Back",
+    "Data plate",
+    "Condition detail",
+  ]),
+];
+
+let templates: ShotListTemplate[] = DEFAULT_SHOT_LISTS;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const isValidTemplate = (value: unknown): value is ShotListTemplate => {
+  if (!value || typeof value !== "object") return false;
+  const template = value as Record<string, unknown>;
+  return (
+    typeof template.id === "string" &&
+    typeof template.name === "string" &&
+    Array.isArray(template.shots) &&
+    template.shots.every(
+      (shot) =>
+        shot &&
+        typeof shot === "object" &&
+        typeof shot.id === "string" &&
+        typeof shot.label === "string",
+    )
+  );
+};
+
+// Reads the saved templates once; until then (or if nothing valid is saved)
+// the defaults are served
+const load = () => {
+  loadPromise ??= AsyncStorage.getItem(SHOT_LISTS_KEY)
+    .then((stored) => {
+      const parsed: unknown = stored ? JSON.parse(stored) : null;
+      if (Array.isArray(parsed) && parsed.every(isValidTemplate)) {
+        templates = parsed;
+        notify();
+      }
+    })
+    .catch((error) => {
+      console.warn("[ShotList] Failed to load templates:", error);
+    });
+  return loadPromise;
+};
+
+const getTemplates = () => templates;
+
+const getTemplate = (id: string | undefined) =>
+  id ? templates.find((template) => template.id === id) : undefined;
+
+const saveTemplates = async (next: ShotListTemplate[]) => {
+  templates = next;
+  notify();
+  try {
+    await AsyncStorage.setItem(SHOT_LISTS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("[ShotList] Failed to save templates:", error);
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  void load();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const createTemplate = (name: string): ShotListTemplate => ({
+  id: createId("list"),
+  name,
+  shots: [],
+});
+
+const createShot = (label: string): ShotListShot => ({
+  id: createId("shot"),
+  label,
+});
+
+// Which of the template's shots a lot already has a photo for
+const getProgress = (
+  template: ShotListTemplate,
+  takenShots: readonly string[],
+): ShotProgress => {
+  const taken = new Set(takenShots);
+  return {
+    taken: template.shots.filter((shot) => taken.has(shot.id)),
+    missing: template.shots.filter((shot) => !taken.has(shot.id)),
+  };
+};
+
+// The shot the next capture is assigned to: the first one still missing
+const getNextShot = (
+  template: ShotListTemplate,
+  takenShots: readonly string[],
+): ShotListShot | null => getProgress(template, takenShots).missing[0] ?? null;
+
+export const ShotListService = {
+  load,
+  getTemplates,
+  getTemplate,
+  saveTemplates,
+  subscribe,
+  createTemplate,
+  createShot,
+  getProgress,
+  getNextShot,
+};
+
+export default ShotListService;
@@ -0,0 +1,568 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Directory, File, Paths } from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as jpeg from "jpeg-js";
+
+import {
+  CaptureMode,
+  MixedLot,
+  MODE_CONFIG,
+  PhotoFile,
+} from "../components/camera/types";
+import { InspectionStoreService } from "./inspectionStoreService";
+import { SessionMediaService } from "./sessionMediaService";
+import { ShotListService } from "./shotListService";
+
+const WATERMARK_SETTINGS_KEY = "@watermark_settings";
+const LOGO_DIR_NAME = "watermark";
+
+// Stamped copies are rendered at a reduced size, like bracket merges: the
+// full-resolution photo would not fit in memory once decoded in JS. The cap is
+// shown in the watermark settings, and the full-size original stays as `uri`
+// and is packaged alongside the copy in ZIP exports.
+const STAMP_MAX_EDGE = 4096;
+
+// Longest edge the logo is kept at; it is drawn much smaller than this
+const LOGO_MAX_EDGE = 512;
+
+const ROWS_PER_CHUNK = 256;
+
+export type WatermarkPosition =
+  "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type WatermarkSettings = {
+  companyName: string;
+  // One line per "\n"; see TEMPLATE_TOKENS for the placeholders
+  template: string;
+  position: WatermarkPosition;
+  // 0..1 for the text and logo; the box behind them is drawn at half of it
+  opacity: number;
+  // Copy of the chosen logo kept in the app's documents directory
+  logoUri?: string;
+};
+
+export type StampResult = {
+  stamped: number;
+  failed: number;
+};
+
+export const TEMPLATE_TOKENS = [
+  "{company}",
+  "{lot}",
+  "{mode}",
+  "{shot}",
+  "{date}",
+  "{time}",
+  "{location}",
+  "{file}",
+];
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  companyName: "",
+  template: "{company} | Lot {lot} | {mode}\n{date} {time}",
+  position: "bottom-left",
+  opacity: 0.9,
+};
+
+// 5x8 pixel font for printable ASCII (" " to "~"), five columns per glyph as
+// hex bytes, lowest bit at the top
+const GLYPH_DATA = [
+  "000000000000005f00000007000700147f147f14242a7f2a12", //  !"#$
+  "231308646236495620500008070300001c2241000041221c00", // %&'()
+  "2a1c7f1c2a08083e0808008070300008080808080000606000", // *+,-.
+  "20100804023e5149453e00427f400072494949462141494d33", // /0123
+  "1814127f1027454545393c4a49493141211109073649494936", // 45678
+  "464949291e0000140000004034000000081422411414141414", // 9:;<=
+  "004122140802015909063e415d594e7c1211127c7f49494936", // >?@AB
+  "3e414141227f4141413e7f494949417f090909013e41415173", // CDEFG
+  "7f0808087f00417f41002040413f017f081422417f40404040", // HIJKL
+  "7f021c027f7f0408107f3e4141413e7f090909063e4151215e", // MNOPQ
+  "7f09192946264949493203017f01033f4040403f1f2040201f", // RSTUV
+  "3f4038403f631408146303047804036159494d43007f414141", // WXYZ[
+  "0204081020004141417f040201020440404040400003070800", // \]^_`
+  "20545478407f284444383844444428384444287f3854545418", // abcde
+  "00087e090218a4a49c787f0804047800447d40002040403d00", // fghij
+  "7f1028440000417f40007c047804787c080404783844444438", // klmno
+  "fc1824241818242418fc7c08040408485454542404043f4424", // pqrst
+  "3c4040207c1c2040201c3c4030403c44281028444c9090907c", // uvwxy
+  "4464544c440008364100000077000000413608000201020402", // z{|}~
+].join("");
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 8;
+// Glyph plus a blank column
+const CELL_WIDTH = GLYPH_WIDTH + 1;
+// Glyph plus two blank rows
+const LINE_HEIGHT = GLYPH_HEIGHT + 2;
+
+export type StampContext = {
+  lotNumber: number;
+  mode?: CaptureMode;
+  shotLabel?: string;
+};
+
+type DecodedImage = {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Uint8Array;
+};
+
+type Rgb = [number, number, number];
+
+let settings: WatermarkSettings = DEFAULT_WATERMARK_SETTINGS;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const load = () => {
+  loadPromise ??= AsyncStorage.getItem(WATERMARK_SETTINGS_KEY)
+    .then((stored) => {
+      const parsed: unknown = stored ? JSON.parse(stored) : null;
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        settings = { ...DEFAULT_WATERMARK_SETTINGS, ...parsed };
+        notify();
+      }
+    })
+    .catch((error) => {
+      console.warn("[Watermark] Failed to load settings:", error);
+    });
+  return loadPromise;
+};
+
+const getSettings = () => settings;
+
+const deleteQuietly = (uri: string) => {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn("[Watermark] Failed to delete file:", error);
+  }
+};
+
+const saveSettings = async (next: WatermarkSettings) => {
+  const previousLogo = settings.logoUri;
+  settings = next;
+  notify();
+  if (previousLogo && previousLogo !== next.logoUri) {
+    deleteQuietly(previousLogo);
+  }
+  try {
+    await AsyncStorage.setItem(WATERMARK_SETTINGS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("[Watermark] Failed to save settings:", error);
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  void load();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Copies a picked logo into the documents directory, scaled down and as a
+// JPEG (transparent areas come out solid)
+const importLogo = async (sourceUri: string) => {
+  const full = await ImageManipulator.manipulate(sourceUri).renderAsync();
+  const scale = Math.min(1, LOGO_MAX_EDGE / Math.max(full.width, full.height));
+  const image =
+    scale < 1
+      ? await ImageManipulator.manipulate(full)
+          .resize({ width: Math.round(full.width * scale) })
+          .renderAsync()
+      : full;
+  const saved = await image.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: 0.9,
+  });
+  const dir = new Directory(Paths.document, LOGO_DIR_NAME);
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  const target = new File(dir, `logo-${Date.now()}.jpg`);
+  new File(saved.uri).move(target);
+  return target.uri;
+};
+
+// A logo imported for a draft that was then cancelled
+const discardLogo = (uri: string) => {
+  if (uri !== settings.logoUri) deleteQuietly(uri);
+};
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+// The font only covers ASCII: accents are dropped, anything else prints as "?"
+const toAscii = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+// Stamp text for a photo, one entry per non-empty line. Date and time come
+// from the capture; photos without one get them left blank rather than
+// stamped with the current time.
+const formatStampLines = (
+  current: WatermarkSettings,
+  file: PhotoFile,
+  context: StampContext,
+) => {
+  const takenAt = file.capturedAt ? new Date(file.capturedAt) : null;
+  const values: Record<string, string> = {
+    company: current.companyName.trim(),
+    lot: String(context.lotNumber),
+    mode: context.mode ? MODE_CONFIG[context.mode].label : "",
+    shot: context.shotLabel ?? "",
+    date: takenAt
+      ? `${takenAt.getFullYear()}-${pad2(takenAt.getMonth() + 1)}-${pad2(takenAt.getDate())}`
+      : "",
+    time: takenAt
+      ? `${pad2(takenAt.getHours())}:${pad2(takenAt.getMinutes())}`
+      : "",
+    location: file.location
+      ? `${file.location.latitude.toFixed(5)}, ${file.location.longitude.toFixed(5)}`
+      : "",
+    file: file.name,
+  };
+  return current.template
+    .split("\n")
+    .map((line) =>
+      toAscii(
+        line.replace(
+          /\{(\w+)\}/g,
+          (token, key: string) => values[key] ?? token,
+        ),
+      )
+        .replace(/\s+/g, " ")
+        // Separators left around empty tokens
+        .replace(/\|( ?\|)+/g, "|")
+        .replace(/^[\s|]+|[\s|]+$/g, ""),
+    )
+    .filter(Boolean);
+};
+
+const glyphColumn = (char: string, column: number) => {
+  const code = char.charCodeAt(0);
+  const index = code >= 32 && code <= 126 ? code - 32 : 31; // "?"
+  const offset = (index * GLYPH_WIDTH + column) * 2;
+  return parseInt(GLYPH_DATA.slice(offset, offset + 2), 16);
+};
+
+const blendRect = (
+  image: DecodedImage,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  color: Rgb,
+  alpha: number,
+) => {
+  const x0 = Math.max(0, x);
+  const y0 = Math.max(0, y);
+  const x1 = Math.min(image.width, x + w);
+  const y1 = Math.min(image.height, y + h);
+  const { data } = image;
+  for (let py = y0; py < y1; py++) {
+    let i = (py * image.width + x0) * 4;
+    for (let px = x0; px < x1; px++, i += 4) {
+      data[i] = Math.round(data[i] + (color[0] - data[i]) * alpha);
+      data[i + 1] = Math.round(data[i + 1] + (color[1] - data[i + 1]) * alpha);
+      data[i + 2] = Math.round(data[i + 2] + (color[2] - data[i + 2]) * alpha);
+    }
+  }
+};
+
+// Draws the logo (scaled to the text's height) and the text lines on a dark
+// box in the chosen corner. The text is sized from the photo's short edge
+// and shrunk until the box fits across the photo.
+const drawStamp = (
+  image: DecodedImage,
+  lines: string[],
+  current: WatermarkSettings,
+  logo: DecodedImage | null,
+) => {
+  const { width, height } = image;
+  const shortEdge = Math.min(width, height);
+  const margin = Math.round(shortEdge * 0.02);
+  const longest = Math.max(0, ...lines.map((line) => line.length));
+  const rows = Math.max(1, lines.length);
+
+  const measure = (scale: number) => {
+    const padding = 2 * scale;
+    const textWidth = Math.max(0, longest * CELL_WIDTH - 1) * scale;
+    const textHeight = (rows * LINE_HEIGHT - 2) * scale;
+    const logoWidth = logo
+      ? Math.round((logo.width * textHeight) / logo.height)
+      : 0;
+    const gap = logo && textWidth > 0 ? padding : 0;
+    return {
+      scale,
+      padding,
+      textHeight,
+      logoWidth,
+      boxWidth: logoWidth + gap + textWidth + 2 * padding,
+      boxHeight: textHeight + 2 * padding,
+      textX: padding + logoWidth + gap,
+    };
+  };
+
+  let layout = measure(Math.max(1, Math.round(shortEdge / 360)));
+  while (layout.scale > 1 && layout.boxWidth > width - 2 * margin) {
+    layout = measure(layout.scale - 1);
+  }
+  const { scale, padding, textHeight, logoWidth, boxWidth, boxHeight } = layout;
+  const x0 = current.position.endsWith("left")
+    ? margin
+    : Math.max(0, width - margin - boxWidth);
+  const y0 = current.position.startsWith("top")
+    ? margin
+    : Math.max(0, height - margin - boxHeight);
+  const opacity = Math.min(1, Math.max(0, current.opacity));
+
+  blendRect(image, x0, y0, boxWidth, boxHeight, [0, 0, 0], opacity * 0.5);
+
+  if (logo && logoWidth > 0) {
+    const { data } = image;
+    for (let y = 0; y < textHeight; y++) {
+      const py = y0 + padding + y;
+      if (py < 0 || py >= height) continue;
+      const ly = Math.floor((y * logo.height) / textHeight);
+      for (let x = 0; x < logoWidth; x++) {
+        const px = x0 + padding + x;
+        if (px < 0 || px >= width) continue;
+        const lx = Math.floor((x * logo.width) / logoWidth);
+        const li = (ly * logo.width + lx) * 4;
+        const i = (py * width + px) * 4;
+        for (let c = 0; c < 3; c++) {
+          data[i + c] = Math.round(
+            data[i + c] + (logo.data[li + c] - data[i + c]) * opacity,
+          );
+        }
+      }
+    }
+  }
+
+  lines.forEach((line, row) => {
+    const top = y0 + padding + row * LINE_HEIGHT * scale;
+    [...line].forEach((char, index) => {
+      const left = x0 + layout.textX + index * CELL_WIDTH * scale;
+      for (let column = 0; column < GLYPH_WIDTH; column++) {
+        const bits = glyphColumn(char, column);
+        for (let bit = 0; bit < GLYPH_HEIGHT; bit++) {
+          if (!(bits & (1 << bit))) continue;
+          blendRect(
+            image,
+            left + column * scale,
+            top + bit * scale,
+            scale,
+            scale,
+            [255, 255, 255],
+            opacity,
+          );
+        }
+      }
+    });
+  });
+};
+
+const breathe = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Decodes an image, scaled down so its longer edge is at most maxEdge
+const decodeImage = async (
+  uri: string,
+  maxEdge: number,
+): Promise<DecodedImage> => {
+  const full = await ImageManipulator.manipulate(uri).renderAsync();
+  const scale = Math.min(1, maxEdge / Math.max(full.width, full.height));
+  const image =
+    scale < 1
+      ? await ImageManipulator.manipulate(full)
+          .resize({ width: Math.round(full.width * scale) })
+          .renderAsync()
+      : full;
+  const saved = await image.saveAsync({ format: SaveFormat.JPEG, compress: 1 });
+  try {
+    const bytes = await new File(saved.uri).bytes();
+    return jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+  } finally {
+    deleteQuietly(saved.uri);
+  }
+};
+
+// 24-bit bottom-up BMP, which the native encoder turns into a JPEG
+const toBmp = async ({ width, height, data }: DecodedImage) => {
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const headerSize = 54;
+  const bmp = new Uint8Array(headerSize + rowSize * height);
+  const header = new DataView(bmp.buffer);
+  header.setUint8(0, 0x42); // "B"
+  header.setUint8(1, 0x4d); // "M"
+  header.setUint32(2, bmp.length, true);
+  header.setUint32(10, headerSize, true);
+  header.setUint32(14, 40, true);
+  header.setInt32(18, width, true);
+  header.setInt32(22, height, true);
+  header.setUint16(26, 1, true);
+  header.setUint16(28, 24, true);
+  header.setUint32(34, rowSize * height, true);
+
+  for (let y = 0; y < height; y++) {
+    let out = headerSize + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      bmp[out++] = data[i + 2];
+      bmp[out++] = data[i + 1];
+      bmp[out++] = data[i];
+    }
+    if (y % ROWS_PER_CHUNK === ROWS_PER_CHUNK - 1) await breathe();
+  }
+  return bmp;
+};
+
+// Renders a stamped copy of a photo next to it in the session store and
+// returns its URI; the photo itself is not touched
+const stampPhoto = async (
+  file: PhotoFile,
+  target: { sessionId: string; lotId: string },
+  context: StampContext,
+  current: WatermarkSettings = settings,
+) => {
+  const lines = formatStampLines(current, file, context);
+  const image = await decodeImage(file.uri, STAMP_MAX_EDGE);
+  let logo: DecodedImage | null = null;
+  if (current.logoUri) {
+    try {
+      logo = await decodeImage(current.logoUri, LOGO_MAX_EDGE);
+    } catch (error) {
+      console.warn("[Watermark] Failed to load logo:", error);
+    }
+  }
+  if (lines.length > 0 || logo) drawStamp(image, lines, current, logo);
+
+  const bmpFile = new File(Paths.cache, `stamp-${Date.now()}.bmp`);
+  bmpFile.create({ overwrite: true });
+  bmpFile.write(await toBmp(image));
+  try {
+    const rendered = await ImageManipulator.manipulate(
+      bmpFile.uri,
+    ).renderAsync();
+    const saved = await rendered.saveAsync({
+      format: SaveFormat.JPEG,
+      compress: 0.92,
+    });
+    const baseName = file.name.replace(/\.jpe?g$/i, "");
+    return await SessionMediaService.persistCapture(saved.uri, {
+      ...target,
+      // A new name each time, so cached previews of an older stamp don't linger
+      fileName: `${baseName}-stamped-${Date.now()}.jpg`,
+    });
+  } finally {
+    deleteQuietly(bmpFile.uri);
+  }
+};
+
+// Stamps every photo of a lot (main and extra) and stores the copies as
+// displayUri, replacing older stamps. missingOnly skips photos that already
+// have one. A photo that fails is counted and left as it was.
+const stampLot = async (
+  sessionId: string,
+  lotId: string,
+  options: { missingOnly?: boolean } = {},
+): Promise<StampResult> => {
+  const result: StampResult = { stamped: 0, failed: 0 };
+  await Promise.all([load(), ShotListService.load()]);
+  const lot = InspectionStoreService.getLot(sessionId, lotId);
+  if (!lot) return result;
+  const lotNumber =
+    InspectionStoreService.getLotSummaries(sessionId).findIndex(
+      (summary) => summary.id === lotId,
+    ) + 1;
+  const shots = ShotListService.getTemplate(lot.shotListId)?.shots ?? [];
+  const current = settings;
+
+  for (const file of [...lot.files, ...lot.extraFiles]) {
+    if (options.missingOnly && file.displayUri) continue;
+    try {
+      const displayUri = await stampPhoto(
+        file,
+        { sessionId, lotId },
+        {
+          lotNumber,
+          mode: lot.mode,
+          shotLabel: shots.find((shot) => shot.id === file.shot)?.label,
+        },
+        current,
+      );
+      InspectionStoreService.updatePhoto(sessionId, lotId, file.uri, {
+        displayUri,
+      });
+      if (file.displayUri && file.displayUri !== file.uri) {
+        void SessionMediaService.deleteMedia(file.displayUri);
+      }
+      result.stamped += 1;
+    } catch (error) {
+      console.warn("[Watermark] Failed to stamp photo:", file.name, error);
+      result.failed += 1;
+    }
+    await breathe();
+  }
+  return result;
+};
+
+const stampSession = async (
+  sessionId: string,
+  options: { missingOnly?: boolean } = {},
+): Promise<StampResult> => {
+  const total: StampResult = { stamped: 0, failed: 0 };
+  for (const lot of InspectionStoreService.getLotSummaries(sessionId)) {
+    const result = await stampLot(sessionId, lot.id, options);
+    total.stamped += result.stamped;
+    total.failed += result.failed;
+  }
+  return total;
+};
+
+// Drops a lot's stamped copies; its photos show the originals again
+const clearLotStamps = (sessionId: string, lotId: string) => {
+  const lot = InspectionStoreService.getLot(sessionId, lotId);
+  if (!lot) return;
+  [...lot.files, ...lot.extraFiles].forEach((file) => {
+    if (!file.displayUri) return;
+    InspectionStoreService.updatePhoto(sessionId, lotId, file.uri, {
+      displayUri: undefined,
+    });
+    if (file.displayUri !== file.uri) {
+      void SessionMediaService.deleteMedia(file.displayUri);
+    }
+  });
+};
+
+// Lots as they should be sent: each photo's stamped copy in place of the
+// original, where it has one
+const withStampedCopies = (lots: MixedLot[]): MixedLot[] => {
+  const swap = (file: PhotoFile): PhotoFile => {
+    if (!file.displayUri) return file;
+    const { displayUri, ...rest } = file;
+    return { ...rest, uri: displayUri };
+  };
+  return lots.map((lot) => ({
+    ...lot,
+    files: lot.files.map(swap),
+    extraFiles: lot.extraFiles.map(swap),
+  }));
+};
+
+export const WatermarkService = {
+  load,
+  getSettings,
+  saveSettings,
+  subscribe,
+  importLogo,
+  discardLogo,
+  formatStampLines,
+  stampPhoto,
+  stampLot,
+  stampSession,
+  clearLotStamps,
+  withStampedCopies,
+};
+
+export default WatermarkService;